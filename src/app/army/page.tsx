@@ -7,6 +7,8 @@ import { useSearchParams } from "next/navigation";
 
 import { useAuth } from "@/features/auth/AuthProvider";
 import ArmyBuilder from "@/features/army/ArmyBuilder";
+import { normalizeLobbySettings } from "@/shared/lobby";
+import type { LobbyGame } from "@/shared/lobby";
 import type { Player } from "@/shared/player";
 import type { UnitDto } from "@/shared/unit";
 
@@ -21,10 +23,12 @@ export default function ArmyPage() {
 function ArmyPageContent() {
   const searchParams = useSearchParams(); // searchParams daje dostep do query string z URL (np. /army?playerId=123)
   const queryPlayerId = searchParams.get("playerId"); // krok 1: proba odczytania playerId bezposrednio z URL
+  const lobbyId = searchParams.get("lobbyId"); // armia do gry z lobby (gracz kontra gracz) zamiast gry solo
   const { user, isReady, authFetch } = useAuth();
 
   const [player, setPlayer] = useState<Player | null>(null);
   const [units, setUnits] = useState<UnitDto[] | null>(null);
+  const [lobbyGame, setLobbyGame] = useState<LobbyGame | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -66,6 +70,18 @@ function ArmyPageContent() {
         const unitsJson = (await unitsRes.json()) as UnitDto[];
         const playerJson = (await playerRes.json()) as Player;
 
+        // gra z lobby: budzet i ustawienia z lobby, armia trafia do tej gry
+        if (lobbyId) {
+          const lobbyRes = await authFetch(`/lobby/games/${encodeURIComponent(lobbyId)}`, {
+            cache: "no-store",
+          });
+          if (!lobbyRes.ok) {
+            throw new Error(`Failed to fetch lobby game. Status: ${lobbyRes.status}`);
+          }
+          const lobbyJson = (await lobbyRes.json()) as LobbyGame;
+          setLobbyGame({ ...lobbyJson, settings: normalizeLobbySettings(lobbyJson.settings) });
+        }
+
         setUnits(unitsJson);
         setPlayer(playerJson);
       } catch (e: unknown) {
@@ -77,7 +93,7 @@ function ArmyPageContent() {
     }
 
     void loadData();
-  }, [authFetch, isReady, queryPlayerId, user]);
+  }, [authFetch, isReady, lobbyId, queryPlayerId, user]);
 
   if (isLoading) {
     return (
@@ -101,7 +117,7 @@ function ArmyPageContent() {
 
   return (
     <div className="p-6 max-w-5xl mx-auto">
-      <ArmyBuilder player={player} units={units} />
+      <ArmyBuilder player={player} units={units} lobbyGame={lobbyGame} />
     </div>
   );
 }
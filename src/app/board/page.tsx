@@ -15,9 +15,82 @@ import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "rea
 import type { CSSProperties, DragEvent } from "react";
 import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/features/auth/AuthProvider";
+import { AI_STRATEGIES, planDeployment, planTurn } from "@/shared/ai";
+import type { AiDifficulty } from "@/shared/ai";
 import type { Board, HexCoords, Tile } from "@/shared/board";
-import type { ApplyActionDto, GameState } from "@/shared/game";
-import type { UnitDto } from "@/shared/unit";
+import type { ApplyActionDto, Formation, GameState } from "@/shared/game";
+import { hexToPixel } from "@/shared/hex";
+import { awaitsOpponentDeployment, finishLobbyDeployment } from "@/shared/lobby";
+import { isLocalGameId, localGameFetch, saveLocalGame } from "@/shared/localGame";
+import { seedFromString } from "@/shared/random";
+import {
+  ABILITY_HANDLERS,
+  DEFAULT_VICTORY_SETTINGS,
+  FORMATIONS,
+  FORMATION_MODIFIERS,
+  VICTORY_MODE_LABELS,
+  applyAction,
+  attackableAfterMove,
+  carryLocalState,
+  carryObjectives,
+  carryUnitState,
+  carryVictory,
+  checkVictory,
+  concludeGame,
+  damageScores,
+  deploymentZone,
+  effectiveAttackRange,
+  enemyZoneOfControl,
+  filterStateForPlayer,
+  findUnit,
+  findUnitPath,
+  hasTurnLimit,
+  isBoundByZoc,
+  moraleStatus,
+  objectiveOwner,
+  objectiveScores,
+  objectiveTiles,
+  objectiveValue,
+  outcomeHasPoints,
+  pathFromField,
+  reachableTiles,
+  resolveTemplate,
+  rulesContextFor,
+  previewAttack,
+  previewRetaliation,
+  rememberEnemies,
+  reportedAction,
+  scoreByDamage,
+  stateForViewer,
+  suppliedTiles,
+  supplySources,
+  targetableUnits,
+  terrainAt,
+  terrainModifier,
+  unitAbilities,
+  unitAmmo,
+  unitFacing,
+  unitFormation,
+  unitMaxAmmo,
+  unitMorale,
+  unitStats,
+  updateObjectiveControl,
+  victorySettings,
+  visibleTiles,
+  withArtilleryTraits,
+} from "@/shared/rules";
+import type {
+  AttackPreview,
+  CombatResult,
+  LastKnownUnit,
+  MoraleStatus,
+  MoveAttackOption,
+  RulesContext,
+} from "@/shared/rules";
+import { carryScenario } from "@/shared/scenario";
+import { createSseTransport, createWebSocketTransport, subscribeToGame } from "@/shared/transport";
+import type { TransportKind, TransportStatus } from "@/shared/transport";
+import type { UnitAbility, UnitDto } from "@/shared/unit";
 
 // 3) Pomocnicza funkcja do bezpiecznego odczytu komunikatu bledu.
 function getErrorMessage(error: unknown, fallback: string) {
@@ -31,13 +104,20 @@ type OwnedUnit = UnitDto & {
   owner: "player" | "enemy";
   color?: string;
   currentHp: number;
+  hasMoved: boolean;
+  hasActed: boolean;
+  facing: number;
+  morale: number;
+  moraleStatus: MoraleStatus;
+  unlimbered: boolean;
+  ammo: number;
+  maxAmmo: number;
+  inSupply: boolean;
+  dismounted: boolean;
 };
 
-// 5) Wynik wyszukiwania sciezki: koszt i lista wspolrzednych.
-type PathResult = {
-  cost: number;
-  path: HexCoords[];
-};
+// 5) Jednostka bez stanu na planszy (ikona ducha przy mgle wojny).
+type GhostUnit = Pick<OwnedUnit, "id" | "name" | "owner" | "color">;
 
 // 6) Marker obrazen do wyswietlenia na planszy.
 type DamageMarker = {
@@ -46,6 +126,16 @@ type DamageMarker = {
   amount: number;
 };
 
+// 6b) Ostatnio rozstrzygnieta walka (do panelu z rozbiciem wyniku).
+type CombatLogEntry = {
+  attackerName: string;
+  targetName: string;
+  result: CombatResult;
+  retaliation: CombatResult | null;
+  routedNames: string[];
+  splash: { name: string; damage: number }[];
+};
+
 // 7) Statystyki grupy jednostek (do panelu statystyk).
 type UnitGroupStats = {
   id: string;
@@ -56,9 +146,6 @@ type UnitGroupStats = {
   maxHpTotal: number;
 };
 
-// 8) Tryb zwyciestwa w grze.
-type VictoryMode = "points" | "elimination" | "turns";
-
 // 9) Wynik koncowy gry + powod.
 type GameResult = {
   winner: "player" | "enemy" | "draw" | null;
@@ -72,6 +159,14 @@ type TileVisual = {
   label?: string;
 };
 
+// 10b) Geometria heksow na mapie (pointy-top): promien, wymiary i ksztalt.
+const HEX_SIZE = 28;
+const HEX_WIDTH = Math.sqrt(3) * HEX_SIZE;
+const HEX_HEIGHT = 2 * HEX_SIZE;
+const HEX_CLIP = "polygon(50% 0, 100% 25%, 100% 75%, 50% 100%, 0 75%, 0 25%)";
+// 10c) Nazwy kierunkow frontu (kolejnosc jak HEX_DIRECTIONS: od wschodu przeciwnie do zegara na ekranie).
+const FACING_LABELS = ["E", "NE", "NW", "W", "SW", "SE"];
+
 export default function BoardPage() {
   // 11) Owijamy w Suspense, bo uzywamy hooka useSearchParams (moze byc async).
   return (
@@ -84,10 +179,14 @@ export default function BoardPage() {
 
 function BoardPageContent() {
   // 13) Kontekst autoryzacji + funkcja authFetch.
-  const { user, isReady: isAuthReady, authFetch } = useAuth();
+  const { user, token, isReady: isAuthReady, authFetch } = useAuth();
   // 14) Stan planszy i identyfikator gry.
   const [board, setBoard] = useState<Board | null>(null);
   const [gameId, setGameId] = useState<string | null>(null);
+  // 14b) Ostatni stan gry (wejscie dla silnika zasad) i szablony jednostek.
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [unitTemplates, setUnitTemplates] = useState<UnitDto[]>([]);
+  const gameStateRef = useRef<GameState | null>(null);
   // 15) Identyfikatory graczy (lokalny i przeciwnik).
   const [localPlayerId, setLocalPlayerId] = useState<number | null>(null);
   const [enemyPlayerId, setEnemyPlayerId] = useState<number | null>(null);
@@ -103,27 +202,45 @@ function BoardPageContent() {
   // 19) UI: zaznaczona jednostka i aktualnie wyswietlana sciezka ruchu.
   const [selectedUnitId, setSelectedUnitId] = useState<number | null>(null);
   const [pathCoords, setPathCoords] = useState<HexCoords[]>([]);
+  // 19b) Pole pod kursorem (podglad sciezki przed kliknieciem).
+  const [hoverCoords, setHoverCoords] = useState<HexCoords | null>(null);
   // 20) Komunikat bledu dla UI.
   const [error, setError] = useState<string | null>(null);
-  // 21) Ustawienia zwyciestwa i liczniki tur.
-  const [victoryMode, setVictoryMode] = useState<VictoryMode>("points");
-  const [turnLimit, setTurnLimit] = useState<number>(6);
-  const [roundNumber, setRoundNumber] = useState<number>(1);
-  // 22) Wynik gry + flaga ladowania.
-  const [gameResult, setGameResult] = useState<GameResult>({ winner: null, reason: "" });
+  // 21) Ustawienia zwyciestwa zapisane w stanie gry (wybrane przy jej tworzeniu).
+  const victory = gameState ? victorySettings(gameState) : DEFAULT_VICTORY_SETTINGS;
+  // 21b) Opcjonalna regula gry (wybrana przy jej tworzeniu): kawaleria ignoruje strefy kontroli wroga.
+  const cavalryIgnoresZoc = Boolean(gameState?.cavalryIgnoresZoc);
+  // 21c) Nakladka pokazujaca zasieg zaopatrzenia gracza.
+  const [showSupply, setShowSupply] = useState(false);
+  // 21d) Mgla wojny (ustawienie gry wybrane przy jej tworzeniu): widoczne tylko jednostki
+  //      w zasiegu wzroku, reszta jako ostatnio widziane.
+  const fogOfWar = Boolean(gameState?.fogOfWar);
+  const [lastSeen, setLastSeen] = useState<Record<string, LastKnownUnit>>({});
+  // 21e) Przeciwnik komputerowy: AI backendu albo lokalne AI o wybranym poziomie.
+  const [aiOpponent, setAiOpponent] = useState<"backend" | AiDifficulty>("backend");
+  // 21f) Aktualizacje wypychane przez serwer (ruchy drugiego gracza) i stan polaczenia;
+  //      "auto" wlacza je (SSE) w grach gracz-kontra-gracz z lobby.
+  const [liveUpdates, setLiveUpdates] = useState<"auto" | "off" | TransportKind>("auto");
+  const liveMode = liveUpdates === "auto" ? (gameState?.pvp ? "sse" : "off") : liveUpdates;
+  const [liveStatus, setLiveStatus] = useState<TransportStatus | null>(null);
+  // 21g) Gra z lobby: nasze rozstawienie zgloszone, czekamy na potwierdzenie drugiego gracza.
+  const waitingForOpponent = gameState ? awaitsOpponentDeployment(gameState, localPlayerId) : false;
+  // 22) Wynik gry (rozstrzygniecie silnika zasad z perspektywy lokalnego gracza) + flaga ladowania.
+  const gameResult = useMemo<GameResult>(() => {
+    const outcome = gameState?.outcome;
+    if (!outcome) return { winner: null, reason: "" };
+    const winner =
+      outcome.winner === "draw" ? "draw" : outcome.winner === localPlayerId ? "player" : "enemy";
+    if (!outcomeHasPoints(gameState)) return { winner, reason: outcome.reason };
+    const playerPoints = localPlayerId != null ? outcome.points[localPlayerId] ?? 0 : 0;
+    const enemyPoints = enemyPlayerId != null ? outcome.points[enemyPlayerId] ?? 0 : 0;
+    return { winner, reason: `${outcome.reason} (points ${playerPoints}:${enemyPoints})` };
+  }, [enemyPlayerId, gameState, localPlayerId]);
   const [isLoading, setIsLoading] = useState(true);
   const [isResolvingAi, setIsResolvingAi] = useState(false);
-  // 23) Zestawy "kto juz wykonal akcje/ruch" w danej turze.
-  const [acted, setActed] = useState<{ player: Set<number>; enemy: Set<number> }>(() => ({
-    player: new Set(),
-    enemy: new Set(),
-  }));
-  const [moved, setMoved] = useState<{ player: Set<number>; enemy: Set<number> }>(() => ({
-    player: new Set(),
-    enemy: new Set(),
-  }));
   // 24) Tymczasowe markery obrazen (UI "pływajacych" liczb).
   const [damageMarkers, setDamageMarkers] = useState<DamageMarker[]>([]);
+  const [lastCombat, setLastCombat] = useState<CombatLogEntry | null>(null);
   // 25) Parametry query (np. gameId z URL).
   const searchParams = useSearchParams();
   // 26) Referencje do DOM i danych, ktore nie powinny powodowac rerenderu.
@@ -138,6 +255,12 @@ function BoardPageContent() {
   );
   const panMoved = useRef(false);
   const buildSha = process.env.NEXT_PUBLIC_BUILD_SHA;
+  // 27b) Zrodlo danych gry: backend albo lokalny silnik w przegladarce (gry offline / hot-seat).
+  const gameFetch = useCallback(
+    (input: string, init?: RequestInit) =>
+      isLocalGameId(gameId) ? localGameFetch(input, init) : authFetch(input, init),
+    [authFetch, gameId]
+  );
 
   // 28) Resetujemy flage statystyk przy zmianie gry.
   useEffect(() => {
@@ -158,7 +281,38 @@ function BoardPageContent() {
   };
 
   const syncFromState = useCallback(
-    (state: GameState, templates: UnitDto[] = unitTemplatesRef.current, explicitLocalId?: number | null) => {
+    (received: GameState, templates: UnitDto[] = unitTemplatesRef.current, explicitLocalId?: number | null) => {
+      // 30b) Backend nie przechowuje stanu generatora walki: zachowaj lokalny
+      //      albo zainicjuj go ziarnem z gameId (ta sama gra = ta sama sekwencja rzutow).
+      //      Tak samo front jednostek, jesli backend go nie zapisal.
+      const previous = gameStateRef.current;
+      const sameGame = previous?.gameId === received.gameId;
+      //      Gra bez zapisanych warunkow zwyciestwa dostaje domyslne (punkty).
+      const settings =
+        received.victory ?? (sameGame ? previous?.victory : undefined) ?? DEFAULT_VICTORY_SETTINGS;
+      const withVictory: GameState = { ...received, victory: settings };
+      const seeded: GameState =
+        withVictory.rngState != null
+          ? withVictory
+          : {
+              ...withVictory,
+              rngState:
+                sameGame && previous?.rngState != null
+                  ? previous.rngState
+                  : seedFromString(received.gameId),
+            };
+      //      Stan celow i wynik gry liczy silnik zasad, wiec tez je przenosimy i uzupelniamy
+      //      o ruchy z backendu (AI), ktore mogly przejac cel albo zakonczyc bitwe.
+      //      Mapa ze scenariusza zostaje, nawet jesli backend odeslal swoja.
+      const carried =
+        sameGame && previous
+          ? carryScenario(
+              carryVictory(carryObjectives(carryUnitState(seeded, previous), previous), previous),
+              previous
+            )
+          : seeded;
+      const state = checkVictory(updateObjectiveControl(carried).state, { templates }).state;
+      gameStateRef.current = state;
       // 31) Zmapuj surowe kafelki z backendu na format UI (Board).
       const mappedBoard: Board = {
         tiles: state.tiles.map((t) => ({
@@ -171,9 +325,15 @@ function BoardPageContent() {
       // 32) Zapisz plansze i id gry.
       setBoard(mappedBoard);
       setGameId(state.gameId);
+      setGameState(state);
 
       // 33) Wyznacz lokalnego gracza (priorytet: explicit -> ref -> pierwszy gracz ze stanu).
-      const playerId = explicitLocalId ?? localPlayerIdRef.current ?? state.players[0]?.playerId ?? null;
+      //     W hot-seat po rozstawieniu przy ekranie siedzi zawsze gracz, ktorego jest tura.
+      const previousLocalId = localPlayerIdRef.current;
+      const playerId =
+        state.hotSeat && state.status !== "not_started"
+          ? state.currentPlayerId
+          : explicitLocalId ?? previousLocalId ?? state.players[0]?.playerId ?? null;
       // 34) Drugi gracz to dowolny inny id niz lokalny.
       const enemyId = state.players.find((p) => p.playerId !== playerId)?.playerId ?? null;
       // 35) Zapisz identyfikatory w stanie i refach.
@@ -192,36 +352,44 @@ function BoardPageContent() {
       setEnemyColor(enemyC);
 
       // 38) Zmapuj jednostki ze stanu gry na OwnedUnit dla UI.
+      const supplyCtx = { templates };
+      const supplied = new Map(
+        state.players.map((p) => [p.playerId, suppliedTiles(state, p.playerId, supplyCtx)])
+      );
       const ownedUnits: OwnedUnit[] = state.units.map((u) => {
-        // 39) Podciagnij szablon jednostki (statystyki) po id.
-        const tpl = templates.find((t) => t.id === u.template);
         // 40) Jezeli gra nie wystartowala i jednostka jest "na 0,0", to traktuj ja jako nie rozmieszczona.
         const waitingForDeployment =
           state.status === "not_started" && u.q === 0 && u.r === 0 ? null : { q: u.q, r: u.r };
         return {
-          // 41) Lacz dane szablonu i konkretnej instancji jednostki.
-          ...(tpl ?? {
-            id: u.template,
-            name: u.template,
-            maxHp: u.currentHP,
-            meleeAttack: 0,
-            rangedAttack: 0,
-            attackRange: 1,
-            defense: 0,
-            speed: 1,
-            cost: 0,
-          }),
+          // 41) Lacz dane szablonu (statystyki, z fallbackiem) i konkretnej instancji jednostki.
+          ...resolveTemplate(templates, u),
           // 42) Id instancji na planszy i jej pozycja.
           uniqueId: Number(u.unitId),
           position: waitingForDeployment,
           // 43) Wlasciciel jednostki (player vs enemy).
           owner: playerId != null && u.ownerPlayerId === playerId ? "player" : "enemy",
           color: state.players.find((p) => p.playerId === u.ownerPlayerId)?.color,
-          // 44) Aktualne HP instancji.
+          // 44) Aktualne HP instancji i flagi biezacej tury.
           currentHp: u.currentHP,
+          hasMoved: Boolean(u.hasMoved),
+          hasActed: Boolean(u.hasActed),
+          facing: unitFacing(state, u),
+          morale: unitMorale(u),
+          moraleStatus: moraleStatus(u),
+          unlimbered: Boolean(u.unlimbered),
+          ammo: unitAmmo(supplyCtx, u),
+          maxAmmo: unitMaxAmmo(supplyCtx, u),
+          inSupply: Boolean(supplied.get(u.ownerPlayerId)?.has(`${u.q},${u.r}`)),
+          dismounted: Boolean(u.dismounted),
         };
       });
 
+      // 44a) Zapamietaj, gdzie ostatnio widziano wrogow (duchy przy mgle wojny).
+      if (playerId != null) {
+        const sameViewer = sameGame && playerId === previousLocalId;
+        setLastSeen((prev) => rememberEnemies(sameViewer ? prev : {}, state, playerId, supplyCtx));
+      }
+
       // 45) Rozdziel jednostki na dwie listy dla UI.
       setPlayerUnits(ownedUnits.filter((u) => u.owner === "player"));
       setEnemyUnits(ownedUnits.filter((u) => u.owner === "enemy"));
@@ -233,31 +401,32 @@ function BoardPageContent() {
           : state.status === "finished"
           ? "finished"
           : "battle";
-      // 47) Nie przeskakuj z deployment do battle, jesli poprzednio byl deployment i gra nie skonczona.
+      // 47) Nie przeskakuj z deployment do battle, jesli poprzednio byl deployment i gra nie skonczona
+      //     (w grze z lobby bitwe zaczyna serwer, gdy potwierdzi rozstawienie obu graczy).
       setPhase((prev) =>
-        prev === "deployment" && nextPhase !== "finished" ? prev : nextPhase
+        prev === "deployment" && nextPhase !== "finished" && !state.pvp ? prev : nextPhase
       );
       // 48) Ustaw aktywna strone na podstawie currentPlayerId.
       setActiveSide(state.currentPlayerId === playerId ? "player" : "enemy");
 
-      // 49) Oczysc wynik gry jesli gra trwa, zostaw jesli zakonczona.
+      // 49) Po zakonczeniu gry wyczysc zaznaczenie (wynik jest w state.outcome).
       if (state.status === "finished") {
-        setGameResult((prev) => (prev.winner ? prev : { winner: null, reason: "" }));
-      } else {
-        setGameResult({ winner: null, reason: "" });
+        setSelectedUnitId(null);
+        setPathCoords([]);
+        setError(null);
       }
     },
     []
   );
 
   const applyActionOnBackend = useCallback(
-    async (dto: ApplyActionDto) => {
+    async (dto: ApplyActionDto, predicted?: GameState) => {
       // 1) Upewnij sie, ze mamy id gry; bez niego nie da sie wyslac akcji do API.
       if (!gameId) {
         throw new Error("Missing game id");
       }
       // 2) Wyslij akcje na backend: POST /game/{gameId}/actions z JSON-em dto.
-      const res = await authFetch(`/game/${gameId}/actions`, {
+      const res = await gameFetch(`/game/${gameId}/actions`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(dto),
@@ -266,8 +435,16 @@ function BoardPageContent() {
       if (!res.ok) {
         throw new Error(`Failed to apply action. Status: ${res.status}`);
       }
-      // 4) Odczytaj nowe, zaktualizowane State gry z odpowiedzi.
-      const state = (await res.json()) as GameState;
+      // 4) Odczytaj nowe, zaktualizowane State gry z odpowiedzi
+      //    i przenies flagi tury z lokalnie przewidzianego stanu silnika zasad
+      //    (bez przewidywania co najmniej warunki zwyciestwa i mape scenariusza z poprzedniego stanu).
+      const received = (await res.json()) as GameState;
+      const previous = gameStateRef.current;
+      const state = predicted
+        ? carryLocalState(received, predicted)
+        : previous
+        ? carryScenario(carryVictory(received, previous), previous)
+        : received;
       // 5) Jezeli jestesmy w przegladarce, zapisz stan w sessionStorage
       //    (dzieki temu po odswiezeniu mozna go odzyskac).
       if (typeof window !== "undefined") {
@@ -278,7 +455,24 @@ function BoardPageContent() {
       // 7) Zwracamy stan, zeby wywolujacy mogl go dalej wykorzystac.
       return state;
     },
-    [authFetch, gameId, syncFromState]
+    [gameFetch, gameId, syncFromState]
+  );
+
+  // 30a) Stan przyslany przez serwer bez lokalnej prognozy (tura AI, ruch drugiego gracza):
+  //      warunki zwyciestwa i mapa scenariusza z poprzedniego stanu, zapis i synchronizacja UI.
+  const acceptServerState = useCallback(
+    (received: GameState) => {
+      const previous = gameStateRef.current;
+      const state = previous
+        ? carryScenario(carryVictory(received, previous), previous)
+        : received;
+      if (typeof window !== "undefined") {
+        sessionStorage.setItem("currentGameState", JSON.stringify(state));
+      }
+      syncFromState(state);
+      return state;
+    },
+    [syncFromState]
   );
 
   const applyAiTurnOnBackend = useCallback(
@@ -286,7 +480,7 @@ function BoardPageContent() {
       if (!gameId) {
         throw new Error("Missing game id");
       }
-      const res = await authFetch(`/game/${gameId}/ai/turn`, {
+      const res = await gameFetch(`/game/${gameId}/ai/turn`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(playerId ? { playerId } : {}),
@@ -294,14 +488,26 @@ function BoardPageContent() {
       if (!res.ok) {
         throw new Error(`Failed to apply AI turn. Status: ${res.status}`);
       }
-      const state = (await res.json()) as GameState;
-      if (typeof window !== "undefined") {
-        sessionStorage.setItem("currentGameState", JSON.stringify(state));
+      return acceptServerState((await res.json()) as GameState);
+    },
+    [acceptServerState, gameFetch, gameId]
+  );
+
+  // 30c) Tura lokalnego AI: plan liczy silnik zasad, a kazdy krok idzie na backend jak akcja gracza.
+  const playLocalAiTurn = useCallback(
+    async (playerId: number, difficulty: AiDifficulty, ctx: RulesContext) => {
+      const start = gameStateRef.current;
+      if (!start) {
+        throw new Error("Missing game state");
+      }
+      const plan = planTurn(start, playerId, ctx, { difficulty });
+      let state = start;
+      for (const step of plan.steps) {
+        state = await applyActionOnBackend(step.action, step.state);
       }
-      syncFromState(state);
       return state;
     },
-    [authFetch, gameId, syncFromState]
+    [applyActionOnBackend]
   );
 
   // 31) Ladowanie stanu gry i szablonow jednostek przy starcie/zmianie parametrow.
@@ -309,12 +515,6 @@ function BoardPageContent() {
     async function load() {
       // 32) Czekamy na gotowosc auth.
       if (!isAuthReady) return;
-      // 33) Jesli brak usera, pokaz blad i zakoncz.
-      if (!user) {
-        setError("Log in to load a battle.");
-        setIsLoading(false);
-        return;
-      }
       try {
         // 34) Ustawiamy flage ladowania na true.
         setIsLoading(true);
@@ -336,6 +536,14 @@ function BoardPageContent() {
           setIsLoading(false);
           return;
         }
+        // 37b) Gry z backendu wymagaja zalogowania; gre offline obsluguje lokalny silnik.
+        const isLocal = isLocalGameId(idToUse);
+        if (!user && !isLocal) {
+          setError("Log in to load a battle.");
+          setIsLoading(false);
+          return;
+        }
+        const fetchGame = isLocal ? localGameFetch : authFetch;
 
         // 38) Zapisujemy gameId i lokalny playerId w stanie/ref.
         setGameId(idToUse);
@@ -344,8 +552,8 @@ function BoardPageContent() {
 
         // 39) Pobieramy rownolegle: stan gry i szablony jednostek.
         const [stateRes, unitsRes] = await Promise.all([
-          authFetch(`/game/${idToUse}/state`, { cache: "no-store" }),
-          authFetch("/units", { cache: "no-store" }),
+          fetchGame(`/game/${idToUse}/state`, { cache: "no-store" }),
+          fetchGame("/units", { cache: "no-store" }),
         ]);
 
         // 40) Walidujemy odpowiedzi HTTP.
@@ -357,10 +565,21 @@ function BoardPageContent() {
         }
 
         // 41) Parsujemy JSON-y.
-        const state = (await stateRes.json()) as GameState;
-        const templates = (await unitsRes.json()) as UnitDto[];
+        const received = (await stateRes.json()) as GameState;
+        // 41a) Uzupelniamy brakujace w danych cechy artylerii (przodkowanie, ogien posredni, odlamki).
+        const templates = withArtilleryTraits((await unitsRes.json()) as UnitDto[]);
+        // 41b) Warunki zwyciestwa, wynik gry i mapa scenariusza z zapisanego stanu tej gry,
+        //      jesli backend ich nie zwrocil.
+        const rawStored =
+          typeof window !== "undefined" ? sessionStorage.getItem("currentGameState") : null;
+        const stored = rawStored ? (JSON.parse(rawStored) as GameState) : null;
+        const state =
+          stored?.gameId === received.gameId
+            ? carryScenario(carryVictory(received, stored), stored)
+            : received;
         // 42) Zapamietujemy szablony w ref (bez rerenderu).
         unitTemplatesRef.current = templates;
+        setUnitTemplates(templates);
 
         // 43) Zapisujemy w sessionStorage (uzyteczne po odswiezeniu).
         if (typeof window !== "undefined") {
@@ -382,6 +601,47 @@ function BoardPageContent() {
     load();
   }, [authFetch, isAuthReady, searchParams, syncFromState, user]);
 
+  // 46b) Subskrypcja aktualizacji gry (WebSocket albo SSE): stany nowsze niz lokalny trafiaja
+  //      do syncFromState, starsze (nizszy turnNumber) sa pomijane, a po zerwaniu polaczenia
+  //      transport laczy sie ponownie i pobiera aktualny stan gry.
+  useEffect(() => {
+    if (liveMode === "off" || !gameId || isLocalGameId(gameId) || !user) return;
+    const transport =
+      liveMode === "websocket"
+        ? createWebSocketTransport({
+            url: (id) =>
+              `${window.location.origin.replace(/^http/, "ws")}/api/game/${id}/ws` +
+              (token ? `?token=${encodeURIComponent(token)}` : ""),
+          })
+        : createSseTransport({ fetch: authFetch, path: (id) => `/game/${id}/events` });
+    const unsubscribe = subscribeToGame(transport, gameId, {
+      current: () => gameStateRef.current,
+      //      Przy mgle wojny dalej idzie tylko to, co widzi lokalny gracz.
+      view: (state) => {
+        const viewerId = localPlayerIdRef.current;
+        return viewerId == null
+          ? state
+          : stateForViewer(state, viewerId, { templates: unitTemplatesRef.current });
+      },
+      onState: (state) => {
+        acceptServerState(state);
+      },
+      resync: async () => {
+        const res = await authFetch(`/game/${gameId}/state`, { cache: "no-store" });
+        if (!res.ok) {
+          throw new Error(`Failed to load game state. Status: ${res.status}`);
+        }
+        return (await res.json()) as GameState;
+      },
+      onStatus: setLiveStatus,
+      onError: (e) => console.error("Game update stream error", e),
+    });
+    return () => {
+      unsubscribe();
+      setLiveStatus(null);
+    };
+  }, [acceptServerState, authFetch, gameId, liveMode, token, user]);
+
   // 47) Szybki lookup kafelkow po kluczu "q,r".
   const tileByCoord = useMemo(() => {
     const map = new Map<string, Tile>();
@@ -389,49 +649,79 @@ function BoardPageContent() {
     return map;
   }, [board]);
 
-  // 48) Lista unikalnych wierszy (r) posortowana rosnaco.
-  const rows = useMemo(() => {
-    if (!board) return [] as number[];
-    return Array.from(new Set(board.tiles.map((tile) => tile.coords.r))).sort((a, b) => a - b);
+  // 48) Pozycje heksow w pikselach (uklad pointy-top, przesuniete do lewego gornego rogu).
+  const hexLayout = useMemo(() => {
+    if (!board || !board.tiles.length) return { cells: [], width: 0, height: 0 };
+    const centers = board.tiles.map((tile) => ({ tile, ...hexToPixel(tile.coords, HEX_SIZE) }));
+    const minX = Math.min(...centers.map((c) => c.x));
+    const maxX = Math.max(...centers.map((c) => c.x));
+    const minY = Math.min(...centers.map((c) => c.y));
+    const maxY = Math.max(...centers.map((c) => c.y));
+    return {
+      cells: centers.map((c) => ({ tile: c.tile, left: c.x - minX, top: c.y - minY })),
+      width: maxX - minX + HEX_WIDTH,
+      height: maxY - minY + HEX_HEIGHT,
+    };
   }, [board]);
 
-  // 49) Lista kolumn (q) od min do max.
-  const columns = useMemo(() => {
-    if (!board) return [] as number[];
-    const qValues = board.tiles.map((tile) => tile.coords.q);
-    const minQ = Math.min(...qValues);
-    const maxQ = Math.max(...qValues);
-    return Array.from({ length: maxQ - minQ + 1 }, (_, idx) => minQ + idx);
-  }, [board]);
+  // 50) Dozwolone pola rozstawienia: strefa z mapy scenariusza albo pierwsze 3 kolumny od krawedzi.
+  const deployZone = useMemo(() => {
+    if (!gameState || localPlayerId == null) return new Set<string>();
+    return deploymentZone(gameState, localPlayerId);
+  }, [gameState, localPlayerId]);
 
-  // 50) Dozwolone kolumny rozstawienia (pierwsze 3 kolumny).
-  const allowedDeployColumns = useMemo(() => {
-    if (!columns.length) return new Set<number>();
-    const minQ = columns[0];
-    return new Set([minQ, minQ + 1, minQ + 2]);
-  }, [columns]);
-
-  // 51) Odbicie wspolrzednej q wzgledem osi planszy (lustrzane).
-  const mirroredQ = useCallback(
-    (q: number) => {
-      if (!columns.length) return q;
-      const minQ = columns[0];
-      const maxQ = columns[columns.length - 1];
-      return maxQ - (q - minQ);
-    },
-    [columns]
+  // 51b) Kontekst silnika zasad (szablony jednostek i opcjonalne reguly ze stanu gry).
+  const rulesContext = useMemo<RulesContext>(
+    () => rulesContextFor({ cavalryIgnoresZoc }, unitTemplates),
+    [cavalryIgnoresZoc, unitTemplates]
   );
 
-  // 52) Mapowanie zajetych pol przez zywe jednostki.
+  // 51c) Widok gracza przy mgle wojny: stan bez niewidocznych wrogow i widoczne pola.
+  //      Na nim licza sie podpowiedzi (zasieg ruchu, cele), zeby nie zdradzac ukrytych jednostek.
+  const fogView = useMemo(() => {
+    if (!fogOfWar || !gameState || localPlayerId == null || phase === "deployment") return null;
+    return {
+      state: filterStateForPlayer(gameState, localPlayerId, rulesContext),
+      tiles: visibleTiles(gameState, localPlayerId, rulesContext),
+    };
+  }, [fogOfWar, gameState, localPlayerId, phase, rulesContext]);
+  const viewState = fogView?.state ?? gameState;
+  const visibleUnitIds = useMemo(
+    () => (viewState ? new Set(viewState.units.map((u) => u.unitId)) : null),
+    [viewState]
+  );
+  const isShown = useCallback(
+    (u: OwnedUnit) => u.owner === "player" || !visibleUnitIds || visibleUnitIds.has(String(u.uniqueId)),
+    [visibleUnitIds]
+  );
+
+  // 52) Mapowanie zajetych pol przez zywe (i widoczne) jednostki.
   const occupiedMap = useMemo(() => {
     const map = new Map<string, OwnedUnit>();
     [...playerUnits, ...enemyUnits].forEach((u) => {
-      if (u.position && u.currentHp > 0) {
+      if (u.position && u.currentHp > 0 && isShown(u)) {
         map.set(`${u.position.q},${u.position.r}`, u);
       }
     });
     return map;
-  }, [playerUnits, enemyUnits]);
+  }, [isShown, playerUnits, enemyUnits]);
+
+  // 52b) Duchy: ostatnio widziane pozycje wrogow, ktorych teraz nie widac
+  //      (w stanie przefiltrowanym przez serwer takich wrogow w ogole nie ma).
+  const ghostMap = useMemo(() => {
+    const map = new Map<string, { unit: GhostUnit; turnNumber: number }>();
+    if (!fogView) return map;
+    Object.values(lastSeen).forEach((seen) => {
+      const unit = enemyUnits.find((u) => String(u.uniqueId) === seen.unitId);
+      if (unit && (unit.currentHp <= 0 || isShown(unit))) return;
+      const template = resolveTemplate(unitTemplates, { ...seen, currentHP: 1 });
+      map.set(`${seen.q},${seen.r}`, {
+        unit: { id: template.id, name: template.name, owner: "enemy", color: unit?.color },
+        turnNumber: seen.turnNumber,
+      });
+    });
+    return map;
+  }, [enemyUnits, fogView, isShown, lastSeen, unitTemplates]);
 
   // 53) Listy zywych jednostek obu stron.
   const alivePlayerUnits = useMemo(
@@ -444,19 +734,39 @@ function BoardPageContent() {
     [enemyUnits]
   );
 
-  // 54) Suma zadanych obrazen (po stronie gracza i wroga).
-  const damageScore = useMemo(
-    () => ({
-      player: enemyUnits.reduce(
-        (sum, u) => sum + Math.max(0, u.maxHp - (u.currentHp ?? u.maxHp)),
-        0
-      ),
-      enemy: playerUnits.reduce(
-        (sum, u) => sum + Math.max(0, u.maxHp - (u.currentHp ?? u.maxHp)),
-        0
-      ),
-    }),
-    [playerUnits, enemyUnits]
+  // 54) Numer rundy ze stanu gry.
+  const roundNumber = gameState?.turnNumber ?? 1;
+
+  // 54b) Suma zadanych obrazen (po stronie gracza i wroga) wg silnika zasad.
+  const damageScore = useMemo(() => {
+    const scores = gameState ? damageScores(gameState, rulesContext) : {};
+    return {
+      player: localPlayerId != null ? scores[localPlayerId] ?? 0 : 0,
+      enemy: enemyPlayerId != null ? scores[enemyPlayerId] ?? 0 : 0,
+    };
+  }, [enemyPlayerId, gameState, localPlayerId, rulesContext]);
+
+  // 54c) Cele na planszy z wlascicielem (player/enemy/neutralny) i punkty za ich utrzymanie.
+  const objectiveStatus = useMemo(() => {
+    if (!gameState) return { tiles: [], player: 0, enemy: 0 };
+    const scores = objectiveScores(gameState);
+    return {
+      tiles: objectiveTiles(gameState).map((tile) => {
+        const owner = objectiveOwner(gameState, tile);
+        return {
+          key: `${tile.q},${tile.r}`,
+          terrain: tile.terrain,
+          value: objectiveValue(tile),
+          owner: owner == null ? null : owner === localPlayerId ? ("player" as const) : ("enemy" as const),
+        };
+      }),
+      player: localPlayerId != null ? scores[localPlayerId] ?? 0 : 0,
+      enemy: enemyPlayerId != null ? scores[enemyPlayerId] ?? 0 : 0,
+    };
+  }, [enemyPlayerId, gameState, localPlayerId]);
+  const objectiveByKey = useMemo(
+    () => new Map(objectiveStatus.tiles.map((objective) => [objective.key, objective])),
+    [objectiveStatus]
   );
 
   // 55) Grupowanie statystyk jednostek wg typu (do panelu).
@@ -507,29 +817,127 @@ function BoardPageContent() {
     [playerUnits, enemyUnits, selectedUnitId]
   );
 
-  // 59) Koniec gry - ustaw wynik i wyczysc UI.
-  const finishGame = useCallback(
-    (winner: GameResult["winner"], reason: string) => {
-      if (gameResult.winner) return;
-      setGameResult({ winner, reason });
-      setPhase("finished");
-      setSelectedUnitId(null);
-      setPathCoords([]);
-      setError(null);
-    },
-    [gameResult.winner]
+  // 58b) Wrogowie, ktorych zaznaczona jednostka moze teraz trafic (zasieg + linia wzroku)
+  //      razem z podgladem obrazen po modyfikatorach terenu i spodziewanym kontratakiem.
+  const attackOptions = useMemo(() => {
+    const options: {
+      key: string;
+      name: string;
+      preview: AttackPreview;
+      retaliation: AttackPreview | null;
+    }[] = [];
+    if (phase !== "battle" || activeSide !== "player" || !viewState || !selectedUnit) return options;
+    if (selectedUnit.owner !== "player") return options;
+    const attacker = findUnit(viewState, selectedUnit.uniqueId);
+    if (!attacker) return options;
+    targetableUnits(viewState, attacker, rulesContext).forEach((u) => {
+      const preview = previewAttack(viewState, attacker, u, rulesContext);
+      options.push({
+        key: `${u.q},${u.r}`,
+        name: resolveTemplate(unitTemplates, u).name,
+        preview,
+        retaliation: previewRetaliation(
+          viewState,
+          attacker,
+          u,
+          u.currentHP - preview.damageApplied,
+          rulesContext,
+          preview
+        ),
+      });
+    });
+    return options;
+  }, [activeSide, viewState, phase, rulesContext, selectedUnit, unitTemplates]);
+  const targetableKeys = useMemo(
+    () => new Set(attackOptions.map((o) => o.key)),
+    [attackOptions]
   );
 
-  // 60) Rozstrzygniecie po punktach (obrazenia).
+  // 58b2) Zasieg ruchu zaznaczonej jednostki (jedno zalewanie Dijkstra w limicie speed)
+  //       oraz wrogowie, ktorych mozna zaatakowac dopiero po ruchu.
+  const movementField = useMemo(() => {
+    if (phase !== "battle" || activeSide !== "player" || !viewState || !selectedUnit) return null;
+    if (selectedUnit.owner !== "player") return null;
+    const unit = findUnit(viewState, selectedUnit.uniqueId);
+    return unit && !unit.routed ? reachableTiles(viewState, unit, rulesContext) : null;
+  }, [activeSide, viewState, phase, rulesContext, selectedUnit]);
+  const moveAttackOptions = useMemo(() => {
+    const options = new Map<string, MoveAttackOption>();
+    if (!viewState || !movementField || !selectedUnit) return options;
+    const unit = findUnit(viewState, selectedUnit.uniqueId);
+    if (!unit) return options;
+    attackableAfterMove(viewState, unit, rulesContext, movementField).forEach((option) => {
+      const key = `${option.target.q},${option.target.r}`;
+      if (!targetableKeys.has(key)) options.set(key, option);
+    });
+    return options;
+  }, [viewState, movementField, rulesContext, selectedUnit, targetableKeys]);
+
+  // 58b2b) Nakladka zaopatrzenia: pola w zasiegu i zrodla (miasta, tabory) lokalnego gracza.
+  const supplyOverlay = useMemo(() => {
+    if (!showSupply || !gameState || localPlayerId == null) return null;
+    return {
+      tiles: suppliedTiles(gameState, localPlayerId, rulesContext),
+      sources: new Set(
+        supplySources(gameState, localPlayerId, rulesContext).map((c) => `${c.q},${c.r}`)
+      ),
+    };
+  }, [gameState, localPlayerId, rulesContext, showSupply]);
+
+  // 58b2a) Strefa kontroli wroga dla zaznaczonej jednostki (do podpowiedzi na polach).
+  const zocKeys = useMemo(() => {
+    if (!viewState || !selectedUnit || selectedUnit.owner !== "player") return new Set<string>();
+    const unit = findUnit(viewState, selectedUnit.uniqueId);
+    if (!unit || !isBoundByZoc(unit, rulesContext)) return new Set<string>();
+    return enemyZoneOfControl(viewState, unit.ownerPlayerId);
+  }, [viewState, rulesContext, selectedUnit]);
+
+  // 58b3) Podglad sciezki do pola pod kursorem (dla wroga: do pola, z ktorego zaatakujemy).
+  const hoverPathKeys = useMemo(() => {
+    if (!movementField || !hoverCoords) return new Set<string>();
+    const option = moveAttackOptions.get(`${hoverCoords.q},${hoverCoords.r}`);
+    const path = pathFromField(movementField, option ? option.from : hoverCoords);
+    return new Set(path.map((c) => `${c.q},${c.r}`));
+  }, [hoverCoords, moveAttackOptions, movementField]);
+
+  // 58c) Teren pod zaznaczona jednostka i jego wplyw na walke.
+  const selectedTerrain = useMemo(() => {
+    if (!gameState || !selectedUnit?.position) return null;
+    const unit = findUnit(gameState, selectedUnit.uniqueId);
+    if (!unit) return null;
+    const terrain = terrainAt(gameState, unit);
+    return {
+      terrain: terrain ?? "unknown",
+      modifier: terrainModifier(terrain),
+      range: effectiveAttackRange(gameState, unit, rulesContext),
+    };
+  }, [gameState, rulesContext, selectedUnit]);
+
+  // 58d) Statystyki zaznaczonej jednostki po uwzglednieniu szyku piechoty.
+  const selectedStats = useMemo(() => {
+    if (!gameState || !selectedUnit) return null;
+    const unit = findUnit(gameState, selectedUnit.uniqueId);
+    if (!unit) return null;
+    const formation = unitFormation(rulesContext, unit);
+    return {
+      stats: unitStats(rulesContext, unit),
+      formation,
+      modifier: formation ? FORMATION_MODIFIERS[formation] : null,
+    };
+  }, [gameState, rulesContext, selectedUnit]);
+
+  // 59) Reczne zakonczenie gry: rozstrzygniecie po punktach (obrazenia) zapisane w stanie gry.
   const resolveByPoints = useCallback(
     (reason: string) => {
-      const playerPoints = damageScore.player;
-      const enemyPoints = damageScore.enemy;
-      const winner =
-        playerPoints === enemyPoints ? "draw" : playerPoints > enemyPoints ? "player" : "enemy";
-      finishGame(winner, `${reason} (points ${playerPoints}:${enemyPoints})`);
+      if (!gameState || gameState.outcome) return;
+      const state = concludeGame(gameState, scoreByDamage(gameState, rulesContext, reason));
+      if (typeof window !== "undefined") {
+        sessionStorage.setItem("currentGameState", JSON.stringify(state));
+        if (isLocalGameId(state.gameId)) saveLocalGame(state, localStorage);
+      }
+      syncFromState(state);
     },
-    [damageScore.enemy, damageScore.player, finishGame]
+    [gameState, rulesContext, syncFromState]
   );
 
   // 61) Jesli zaznaczona jednostka umarla, odznacz ja.
@@ -539,53 +947,11 @@ function BoardPageContent() {
     }
   }, [selectedUnit]);
 
-  // 62) Automatyczne warunki zwyciestwa (elimination/points).
-  useEffect(() => {
-    if (phase !== "battle" || gameResult.winner) return;
-    const enemyAlive = aliveEnemyUnits.length;
-    const playerAlive = alivePlayerUnits.length;
-
-    if (victoryMode === "elimination") {
-      if (!enemyAlive && !playerAlive) {
-        finishGame("draw", "Both armies were destroyed");
-      } else if (!enemyAlive) {
-        finishGame("player", "All enemies defeated");
-      } else if (!playerAlive) {
-        finishGame("enemy", "Your units were destroyed");
-      }
-      return;
-    }
-
-    if (!enemyAlive || !playerAlive) {
-      const reason =
-        !enemyAlive && !playerAlive
-          ? "Both armies were destroyed"
-          : !enemyAlive
-          ? "No enemy units remain"
-          : "No player units remain";
-      resolveByPoints(reason);
-    }
-  }, [
-    aliveEnemyUnits.length,
-    alivePlayerUnits.length,
-    victoryMode,
-    phase,
-    gameResult.winner,
-    resolveByPoints,
-    finishGame,
-  ]);
-
-  // 63) Warunek zwyciestwa przy limicie tur.
-  useEffect(() => {
-    if (phase !== "battle" || victoryMode !== "turns" || gameResult.winner) return;
-    if (roundNumber > turnLimit) {
-      resolveByPoints("Turn limit reached");
-    }
-  }, [roundNumber, turnLimit, victoryMode, phase, gameResult.winner, resolveByPoints]);
-
   // 64) Zapis statystyk po zakonczeniu gry (jednorazowo).
   useEffect(() => {
+    //     Gry offline nie trafiaja do statystyk konta.
     if (!user || !gameResult.winner || hasRecordedStats || !isAuthReady) return;
+    if (isLocalGameId(gameId)) return;
     const parsedId = gameId ? Number(gameId) : NaN;
     const safeGameId = Number.isFinite(parsedId) ? parsedId : undefined;
     const result =
@@ -629,142 +995,37 @@ function BoardPageContent() {
     user,
   ]);
 
-  // 67) Przesuniecie jednostki na backendzie (MOVE).
+  // 67) Przesuniecie jednostki na backendzie (MOVE); zwraca, czy backend przyjal ruch.
   const setUnitPositionOnBackend = useCallback(
-    async (unitId: number, coords: HexCoords, owner: "player" | "enemy") => {
+    async (
+      unitId: number,
+      coords: HexCoords,
+      owner: "player" | "enemy",
+      predicted?: GameState
+    ): Promise<boolean> => {
       // 68) Dobieramy playerId na podstawie wlasciciela.
       const playerId = owner === "player" ? localPlayerId : enemyPlayerId;
-      if (!playerId) return;
+      if (!playerId) return false;
       try {
         // 69) Wysylamy akcje MOVE z nowymi wspolrzednymi.
-        await applyActionOnBackend({
-          type: "MOVE",
-          playerId,
-          payload: { unitId, q: coords.q, r: coords.r },
-        });
+        await applyActionOnBackend(
+          {
+            type: "MOVE",
+            playerId,
+            payload: { unitId, q: coords.q, r: coords.r },
+          },
+          predicted
+        );
+        return true;
       } catch (e: unknown) {
         // 70) Wyswietlamy blad w UI.
         setError(getErrorMessage(e, "Failed to move unit on backend"));
+        return false;
       }
     },
     [applyActionOnBackend, enemyPlayerId, localPlayerId]
   );
 
-  // 71) Zwraca sasiadow heksu (4 kierunki na tej planszy).
-  const getNeighbors = useCallback(
-    (coords: HexCoords): HexCoords[] => {
-      const dirs = [
-        { q: 1, r: 0 },
-        { q: -1, r: 0 },
-        { q: 0, r: 1 },
-        { q: 0, r: -1 },
-      ];
-      return dirs
-        .map(({ q, r }) => ({ q: coords.q + q, r: coords.r + r }))
-        .filter((c) => tileByCoord.has(`${c.q},${c.r}`));
-    },
-    [tileByCoord]
-  );
-
-  // 72) Wyszukiwanie sciezki (Dijkstra) z limitem kosztu ruchu.
-  const findPath = useCallback(
-    (start: HexCoords, target: HexCoords, blocked: Set<string>, maxCost: number): PathResult | null => {
-      const startKey = `${start.q},${start.r}`;
-      const targetKey = `${target.q},${target.r}`;
-
-      // 73) Struktury danych algorytmu.
-      type Node = { key: string; coords: HexCoords; cost: number };
-      const dist = new Map<string, number>();
-      const prev = new Map<string, string | null>();
-      const queue: Node[] = [{ key: startKey, coords: start, cost: 0 }];
-      dist.set(startKey, 0);
-      prev.set(startKey, null);
-
-      // 74) Pobranie wezla o najmniejszym koszcie.
-      const popSmallest = () => {
-        queue.sort((a, b) => a.cost - b.cost);
-        return queue.shift();
-      };
-
-      // 75) Glowna petla przeszukiwania grafu.
-      while (queue.length) {
-        const current = popSmallest();
-        if (!current) break;
-
-        for (const n of getNeighbors(current.coords)) {
-          const key = `${n.q},${n.r}`;
-          // 76) Pomin zablokowane pola.
-          if (blocked.has(key)) continue;
-          const tile = tileByCoord.get(key);
-          // 77) Pomin brak kafelka lub nieprzechodnie pole.
-          if (!tile || !tile.passable) continue;
-          // 78) Koszt przejscia na sasiada.
-          const tentative = current.cost + tile.movementCost;
-          // 79) Pomin trasy przekraczajace limit ruchu.
-          if (tentative > maxCost) continue;
-          const known = dist.get(key);
-          // 80) Aktualizuj dystans, gdy znaleziono lepsza droge.
-          if (known == null || tentative < known) {
-            dist.set(key, tentative);
-            prev.set(key, current.key);
-            queue.push({ key, coords: n, cost: tentative });
-          }
-        }
-      }
-
-      // 81) Brak osiagalnych pol.
-      if (!dist.size) return null;
-
-      // 82) Wybierz najlepszy cel (preferuj target, inaczej najblizszy).
-      const reachableTargetCost = dist.get(targetKey);
-      let bestKey: string | null = null;
-      let bestCost = Infinity;
-      let bestHeuristic = Infinity;
-
-      dist.forEach((cost, key) => {
-        if (cost > maxCost) return;
-        const [q, r] = key.split(",").map(Number);
-        const heuristic = Math.abs(q - target.q) + Math.abs(r - target.r);
-        // 83) Jeśli cel jest osiagalny, wybieramy go.
-        if (key === targetKey) {
-          bestKey = key;
-          bestCost = cost;
-          bestHeuristic = heuristic;
-          return;
-        }
-        // 84) Gdy celu nie ma, wybieramy najblizsze pole.
-        if (
-          reachableTargetCost === undefined &&
-          (heuristic < bestHeuristic || (heuristic === bestHeuristic && cost < bestCost))
-        ) {
-          bestKey = key;
-          bestCost = cost;
-          bestHeuristic = heuristic;
-        }
-      });
-
-      // 85) Gdy nic sensownego nie znaleziono, zwracamy null.
-      if (!bestKey) return null;
-
-      // 86) Odtworzenie sciezki od bestKey do startu.
-      const path: HexCoords[] = [];
-      let k: string | null = bestKey;
-      while (k) {
-        const [q, r] = k.split(",").map(Number);
-        path.push({ q, r });
-        k = prev.get(k) ?? null;
-      }
-
-      // 87) Zwracamy koszt i sciezke w prawidlowej kolejnosci.
-      return { cost: bestCost, path: path.reverse() };
-    },
-    [getNeighbors, tileByCoord]
-  );
-
-  // 88) Odleglosc Manhattan w tej siatce (uzywana do zasiegu).
-  const distance = (a: HexCoords, b: HexCoords) =>
-    Math.abs(a.q - b.q) + Math.abs(a.r - b.r);
-
   // 89) Okresla wyglad kafelka na podstawie typu terenu.
   // Textured gradients to give each terrain a distinct look without external assets.
   function tileVisual(tile?: Tile): TileVisual {
@@ -922,7 +1183,7 @@ function BoardPageContent() {
   };
 
   // 95) Buduje sciezke do ikony jednostki, uwzgledniajac kolor.
-  function unitIconSrc(unit: OwnedUnit): string {
+  function unitIconSrc(unit: GhostUnit): string {
     const baseColor = unit.owner === "player" ? playerColor : enemyColor;
     const color = normalizeColor(baseColor ?? unit.color, unit.owner);
     const baseName = ICON_NAME[unit.id] ?? unit.id;
@@ -961,22 +1222,23 @@ function BoardPageContent() {
   useEffect(() => {
     if (phase !== "battle" || gameResult.winner) return;
     if (activeSide !== "enemy" || isResolvingAi) return;
-    if (!enemyPlayerId) return;
+    if (!enemyPlayerId || gameState?.hotSeat || gameState?.pvp) return;
 
     let isMounted = true;
     setIsResolvingAi(true);
     centerOnSide("enemy");
-    applyAiTurnOnBackend(enemyPlayerId)
+    const aiTurn =
+      aiOpponent === "backend"
+        ? applyAiTurnOnBackend(enemyPlayerId)
+        : playLocalAiTurn(enemyPlayerId, aiOpponent, rulesContext);
+    aiTurn
       .then((afterAi) => {
         if (!isMounted) return;
-        setRoundNumber(afterAi.turnNumber);
         const nextSide = afterAi.currentPlayerId === localPlayerId ? "player" : "enemy";
         setActiveSide(nextSide);
         if (nextSide === "player") {
           setSelectedUnitId(null);
           setPathCoords([]);
-          setActed({ player: new Set(), enemy: new Set() });
-          setMoved({ player: new Set(), enemy: new Set() });
         }
         centerOnSide(nextSide);
       })
@@ -994,12 +1256,17 @@ function BoardPageContent() {
     };
   }, [
     activeSide,
+    aiOpponent,
     applyAiTurnOnBackend,
     enemyPlayerId,
     gameResult.winner,
+    gameState?.hotSeat,
+    gameState?.pvp,
     isResolvingAi,
     localPlayerId,
     phase,
+    playLocalAiTurn,
+    rulesContext,
   ]);
 
   useEffect(() => {
@@ -1012,12 +1279,12 @@ function BoardPageContent() {
   // 99) Rozmieszczenie jednostki gracza w fazie deploy.
   const placeUnit = useCallback(
     async (unitId: number, coords: HexCoords) => {
-      if (phase !== "deployment") return;
+      if (phase !== "deployment" || waitingForOpponent) return;
       const unit = playerUnits.find((u) => u.uniqueId === unitId);
       if (!unit) return;
-      // 100) Weryfikacja: tylko pierwsze 3 kolumny.
-      if (!allowedDeployColumns.has(coords.q)) {
-        setError("You can deploy player units only in the first 3 columns.");
+      // 100) Weryfikacja: tylko strefa rozstawienia gracza.
+      if (!deployZone.has(`${coords.q},${coords.r}`)) {
+        setError("You can deploy player units only in your deployment zone.");
         return;
       }
       // 101) Weryfikacja: pole musi byc wolne i przechodnie.
@@ -1029,7 +1296,7 @@ function BoardPageContent() {
       setError(null);
       await setUnitPositionOnBackend(unitId, coords, "player");
     },
-    [allowedDeployColumns, canDropOnTile, phase, playerUnits, setUnitPositionOnBackend]
+    [canDropOnTile, deployZone, phase, playerUnits, setUnitPositionOnBackend, waitingForOpponent]
   );
 
   // 103) Obsluga upuszczenia jednostki na kafelku.
@@ -1041,44 +1308,81 @@ function BoardPageContent() {
     void placeUnit(unitId, { q, r });
   }
 
-  // 104) Odbicie rozmieszczenia gracza po stronie wroga i start bitwy.
-  async function mirrorEnemyDeployment() {
-    if (!board) return;
-    const minQ = columns[0];
-    const maxQ = columns[columns.length - 1];
+  // 104) Koniec rozstawienia gracza: przeciwnik rozstawia sie niezaleznie w swojej strefie z mapy
+  //      (planer AI; w hot-seat i grze z lobby drugi gracz), potem start bitwy.
+  async function finishDeployment() {
+    if (!board || !gameState) return;
     // 105) Sprawdz, czy wszystkie jednostki gracza sa rozmieszczone.
     const deployComplete = playerUnits.every((u) => u.position);
     if (!deployComplete) {
       setError("Place all player units before continuing.");
       return;
     }
-    // 106) Lustrzane ustawienie wrogich jednostek.
-    const updatedEnemy = enemyUnits.map((enemyUnit, idx) => {
-      const source = playerUnits[idx];
-      if (!source?.position) return enemyUnit;
-      const mirrored = {
-        q: mirroredQ(source.position.q),
-        r: source.position.r,
-      };
-      // clamp to board bounds on the mirrored side
-      const clampedQ = Math.max(minQ, Math.min(maxQ, mirrored.q));
-      return { ...enemyUnit, position: { q: clampedQ, r: mirrored.r } };
-    });
-    // 107) Aktualizacja stanu UI.
-    setEnemyUnits(updatedEnemy);
-    // 108) Zapis pozycji wroga na backendzie.
-    for (const u of updatedEnemy) {
-      if (u.position) {
-        await setUnitPositionOnBackend(u.uniqueId, u.position, "enemy");
+    // 105b) Hot-seat: przy tym samym ekranie rozstawia sie teraz drugi gracz.
+    if (gameState.hotSeat && enemyUnits.some((u) => !u.position)) {
+      syncFromState(gameState, undefined, enemyPlayerId);
+      setSelectedUnitId(null);
+      setError(null);
+      return;
+    }
+    // 105c) Gra z lobby: zglaszamy koniec rozstawienia serwerowi (jak gotowosc w lobby) i zostajemy
+    //       w rozstawieniu, dopoki serwer nie potwierdzi obu graczy (stan przyjdzie tez transportem).
+    if (gameState.pvp) {
+      if (!gameId || localPlayerId == null) return;
+      try {
+        setError(null);
+        acceptServerState(await finishLobbyDeployment(gameFetch, gameId, localPlayerId));
+      } catch (e: unknown) {
+        setError(getErrorMessage(e, "Failed to finish deployment"));
+      }
+      setSelectedUnitId(null);
+      setPathCoords([]);
+      return;
+    }
+    // 106) Planer AI rozstawia wrogie jednostki, ktore nie stoja jeszcze w strefie wroga
+    //      (faza rozstawienia jest tu, na planszy, nawet gdy backend ma juz status bitwy).
+    if (!gameState.hotSeat && enemyPlayerId != null) {
+      const enemyZone = deploymentZone(gameState, enemyPlayerId);
+      const waiting = enemyUnits
+        .filter((u) => !u.position || !enemyZone.has(`${u.position.q},${u.position.r}`))
+        .map((u) => String(u.uniqueId));
+      const plan = planDeployment(gameState, enemyPlayerId, rulesContext, waiting, phase === "deployment");
+      // 106b) Bitwa nie rusza, jesli ktoras jednostka wroga nie zmiescila sie w jego strefie.
+      const planned = new Set(plan.steps.map((step) => String(step.action.payload?.unitId)));
+      const unplaced = waiting.filter((id) => !planned.has(id));
+      if (unplaced.length) {
+        setError(`Could not deploy ${unplaced.length} enemy unit(s): no free tiles left in the enemy deployment zone.`);
+        return;
+      }
+      // 107) Zapis pozycji wroga na backendzie (kazde ustawienie jak reczne rozstawienie).
+      try {
+        for (const step of plan.steps) {
+          await applyActionOnBackend(step.action, step.state);
+        }
+      } catch (e: unknown) {
+        setError(getErrorMessage(e, "Failed to deploy enemy units"));
+        return;
+      }
+    }
+    // 108b) W grze offline lokalny silnik konczy rozstawienie i zaczyna bitwe.
+    if (gameId && isLocalGameId(gameId)) {
+      try {
+        const res = await localGameFetch(`/game/${gameId}/start`, { method: "POST" });
+        if (!res.ok) {
+          const rejection = (await res.json()) as { message?: string };
+          throw new Error(rejection.message ?? `Failed to start the offline battle. Status: ${res.status}`);
+        }
+        const started = (await res.json()) as GameState;
+        sessionStorage.setItem("currentGameState", JSON.stringify(started));
+        syncFromState(started);
+      } catch (e: unknown) {
+        setError(getErrorMessage(e, "Failed to start the offline battle"));
+        return;
       }
     }
     // 109) Reset stanu na poczatek bitwy.
-    setRoundNumber(1);
-    setGameResult({ winner: null, reason: "" });
     setPhase("battle");
     setActiveSide("player");
-    setActed({ player: new Set(), enemy: new Set() });
-    setMoved({ player: new Set(), enemy: new Set() });
     setSelectedUnitId(null);
     setPathCoords([]);
   }
@@ -1091,63 +1395,192 @@ function BoardPageContent() {
     setPathCoords([]);
   }
 
-  // 111) Ruch jednostki na klikniete pole.
-  async function handleMoveTo(q: number, r: number) {
-    if (phase !== "battle" || gameResult.winner || !selectedUnit || !selectedUnit.position) return;
+  // 111) Ruch jednostki na klikniete pole; zwraca przewidziany stan po ruchu (albo null).
+  async function handleMoveTo(q: number, r: number): Promise<GameState | null> {
+    if (phase !== "battle" || gameResult.winner || !selectedUnit || !selectedUnit.position)
+      return null;
     if (activeSide !== "player" || selectedUnit.owner !== "player" || selectedUnit.currentHp <= 0)
-      return;
-    const movedSet = selectedUnit.owner === "player" ? moved.player : moved.enemy;
+      return null;
+    if (!gameState) return null;
     // 112) Nie pozwalaj na podwojny ruch w turze.
-    if (movedSet.has(selectedUnit.uniqueId)) {
+    if (selectedUnit.hasMoved) {
       setError("This unit already moved this turn.");
-      return;
+      return null;
+    }
+    if (selectedUnit.moraleStatus === "routed") {
+      setError("Routed units cannot move until they rally.");
+      return null;
     }
 
-    // 113) Przygotuj dane do pathfindingu (start + blokady).
+    // 113) Wylicz sciezke do celu z limitem ruchu i strefami kontroli
+    //      (lub do najblizszego osiagalnego pola).
     const start = selectedUnit.position;
-    const blocked = new Set<string>();
-    occupiedMap.forEach((u, key) => {
-      if (u.uniqueId !== selectedUnit.uniqueId) {
-        blocked.add(key);
-      }
-    });
-
-    // 114) Wylicz sciezke do celu z limitem ruchu.
-    const pathResult = findPath(start, { q, r }, blocked, selectedUnit.speed);
+    const unit = findUnit(gameState, selectedUnit.uniqueId);
+    const pathResult = unit
+      ? findUnitPath(gameState, unit, { q, r }, rulesContext, movementField ?? undefined)
+      : null;
     if (!pathResult || pathResult.path.length === 0) {
       setError("No reachable path within movement points.");
-      return;
+      return null;
     }
 
-    // 115) Ostateczny punkt to koniec sciezki.
+    // 114) Ostateczny punkt to koniec sciezki.
     const destination = pathResult.path[pathResult.path.length - 1];
-    // 116) Jesli cel nieosiagalny, wyczysc sciezke i pokaz blad.
+    // 115) Jesli cel nieosiagalny, wyczysc sciezke i pokaz blad.
     if (destination.q === start.q && destination.r === start.r && (q !== start.q || r !== start.r)) {
       setError("No reachable path within movement points.");
       setPathCoords([]);
+      return null;
+    }
+
+    // 116) Walidacja ruchu w silniku zasad (zajetosc, limit ruchu, kolejnosc tur).
+    const playerId = localPlayerId ?? undefined;
+    const dto: ApplyActionDto = {
+      type: "MOVE",
+      playerId,
+      payload: { unitId: selectedUnit.uniqueId, q: destination.q, r: destination.r },
+    };
+    const result = applyAction(gameState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
+      return null;
+    }
+
+    // 117) Wyslij MOVE na backend razem z przewidzianym stanem (flagi tury).
+    setError(null);
+    setPathCoords(pathResult.path);
+    setHoverCoords(null);
+    //      Odrzucony ruch nie ma stanu po ruchu, wiec atak po nim sie nie odbedzie.
+    const accepted = await setUnitPositionOnBackend(
+      selectedUnit.uniqueId,
+      destination,
+      selectedUnit.owner,
+      result.state
+    );
+    return accepted ? result.state : null;
+  }
+
+  // 118) Ruch i atak jednym kliknieciem: dojscie na najtansze pole, z ktorego cel jest
+  //      w zasiegu, a potem atak liczony na stanie po ruchu.
+  async function handleMoveAndAttack(target: OwnedUnit, option: MoveAttackOption) {
+    const moved = await handleMoveTo(option.from.q, option.from.r);
+    if (moved) {
+      await handleAttack(target, moved);
+    }
+  }
+
+  // 118b) Obrot jednostki w miejscu (MOVE na wlasne pole z nowym frontem; zuzywa ruch).
+  async function handleFace(facing: number) {
+    if (phase !== "battle" || gameResult.winner || !selectedUnit?.position || !gameState) return;
+    if (activeSide !== "player" || selectedUnit.owner !== "player") return;
+    const dto: ApplyActionDto = {
+      type: "MOVE",
+      playerId: localPlayerId ?? undefined,
+      payload: { unitId: selectedUnit.uniqueId, ...selectedUnit.position, facing },
+    };
+    const result = applyAction(gameState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
       return;
     }
-    // 117) Sprawdz, czy pole docelowe jest zajete.
-    const destKey = `${destination.q},${destination.r}`;
-    const occupantAtDest = occupiedMap.get(destKey);
-    if (occupantAtDest && occupantAtDest.uniqueId !== selectedUnit.uniqueId) {
-      setError("Destination is occupied.");
+    setError(null);
+    try {
+      await applyActionOnBackend(dto, result.state);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, "Failed to change facing on backend"));
+    }
+  }
+
+  // 118c) Zebranie rozbitej jednostki (akcja RALLY zuzywa cala ture jednostki).
+  async function handleRally() {
+    if (phase !== "battle" || gameResult.winner || !selectedUnit || !gameState) return;
+    if (activeSide !== "player" || selectedUnit.owner !== "player") return;
+    const dto: ApplyActionDto = {
+      type: "RALLY",
+      playerId: localPlayerId ?? undefined,
+      payload: { unitId: selectedUnit.uniqueId },
+    };
+    const result = applyAction(gameState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
       return;
     }
+    setError(null);
+    try {
+      await applyActionOnBackend(dto, result.state);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, "Failed to rally unit on backend"));
+    }
+  }
 
-    // 118) Wyslij MOVE i zaktualizuj lokalny stan ruchu.
+  // 118e) Przodkowanie / odprzodkowanie dzial (odprzodkowanie zuzywa ruch, zaprzodkowanie akcje).
+  async function handleLimber(unlimbered: boolean) {
+    if (gameResult.winner || !selectedUnit || !gameState || selectedUnit.owner !== "player") return;
+    if (phase === "battle" && activeSide !== "player") return;
+    const dto: ApplyActionDto = {
+      type: unlimbered ? "UNLIMBER" : "LIMBER",
+      playerId: localPlayerId ?? undefined,
+      payload: { unitId: selectedUnit.uniqueId },
+    };
+    const result = applyAction(gameState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
+      return;
+    }
     setError(null);
-    setPathCoords(pathResult.path);
-    await setUnitPositionOnBackend(selectedUnit.uniqueId, destination, selectedUnit.owner);
+    try {
+      await applyActionOnBackend(dto, result.state);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, "Failed to limber guns on backend"));
+    }
+  }
+
+  // 118f) Aktywacja zdolnosci specjalnej (np. spieszenie dragonow).
+  async function handleAbility(ability: UnitAbility) {
+    if (gameResult.winner || !selectedUnit || !gameState || selectedUnit.owner !== "player") return;
+    if (phase === "battle" && activeSide !== "player") return;
+    const dto: ApplyActionDto = {
+      type: "USE_ABILITY",
+      playerId: localPlayerId ?? undefined,
+      payload: { unitId: selectedUnit.uniqueId, ability },
+    };
+    const result = applyAction(gameState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
+      return;
+    }
+    setError(null);
+    try {
+      await applyActionOnBackend(dto, result.state);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, "Failed to use ability on backend"));
+    }
+  }
 
-    const nextMovedPlayer = new Set(moved.player);
-    const nextMovedEnemy = new Set(moved.enemy);
-    (selectedUnit.owner === "player" ? nextMovedPlayer : nextMovedEnemy).add(selectedUnit.uniqueId);
-    setMoved({ player: nextMovedPlayer, enemy: nextMovedEnemy });
+  // 118d) Zmiana szyku piechoty (w bitwie zuzywa ruch jednostki).
+  async function handleFormation(formation: Formation) {
+    if (gameResult.winner || !selectedUnit || !gameState || selectedUnit.owner !== "player") return;
+    if (phase === "battle" && activeSide !== "player") return;
+    const dto: ApplyActionDto = {
+      type: "CHANGE_FORMATION",
+      playerId: localPlayerId ?? undefined,
+      payload: { unitId: selectedUnit.uniqueId, formation },
+    };
+    const result = applyAction(gameState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
+      return;
+    }
+    setError(null);
+    try {
+      await applyActionOnBackend(dto, result.state);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, "Failed to change formation on backend"));
+    }
   }
 
   // 119) Atak na inna jednostke.
-  async function handleAttack(target: OwnedUnit) {
+  async function handleAttack(target: OwnedUnit, baseState: GameState | null = gameState) {
     if (phase !== "battle" || gameResult.winner || !selectedUnit || !selectedUnit.position) return;
     if (activeSide !== "player" || selectedUnit.owner !== "player" || selectedUnit.currentHp <= 0)
       return;
@@ -1156,55 +1589,59 @@ function BoardPageContent() {
       setSelectedUnitId(target.uniqueId);
       return;
     }
-    if (target.currentHp <= 0) return;
-    const actedSet = selectedUnit.owner === "player" ? acted.player : acted.enemy;
-    // 121) Nie pozwalaj na podwojna akcje ataku.
-    if (actedSet.has(selectedUnit.uniqueId)) {
-      setError("This unit already acted this turn.");
-      return;
-    }
-    // 122) Sprawdz zasieg.
-    const dist = distance(selectedUnit.position, target.position ?? { q: 0, r: 0 });
-    if (dist > selectedUnit.attackRange) {
-      setError("Target out of range.");
+    if (target.currentHp <= 0 || !baseState) return;
+
+    // 121) Silnik zasad sprawdza zasieg, limit akcji i wylicza obrazenia.
+    const dto: ApplyActionDto = {
+      type: "ATTACK",
+      playerId: localPlayerId ?? undefined,
+      payload: { unitId: selectedUnit.uniqueId, targetUnitId: target.uniqueId },
+    };
+    const result = applyAction(baseState, dto, rulesContext);
+    if (!result.ok) {
+      setError(result.rejection.message);
       return;
     }
-    // 123) Ustal czy atak jest dystansowy i policz obrazenia.
-    const isRanged = dist > 1 && selectedUnit.rangedAttack > 0;
-    const damage = isRanged ? selectedUnit.rangedAttack : selectedUnit.meleeAttack;
-    if (damage <= 0) {
-      setError("This unit cannot deal damage.");
-      return;
+    const combat = result.events.find((ev) => ev.type === "COMBAT_RESOLVED");
+    if (combat?.type === "COMBAT_RESOLVED") {
+      const names = new Map(
+        [...playerUnits, ...enemyUnits].map((u) => [String(u.uniqueId), u.name])
+      );
+      setLastCombat({
+        attackerName: selectedUnit.name,
+        targetName: target.name,
+        result: combat.result,
+        retaliation: combat.retaliation,
+        routedNames: result.events.flatMap((ev) =>
+          ev.type === "UNIT_ROUTED" ? [names.get(ev.unitId) ?? ev.unitId] : []
+        ),
+        splash: combat.splash.map((hit) => ({
+          name: names.get(hit.unitId) ?? hit.unitId,
+          damage: hit.result.damageApplied,
+        })),
+      });
     }
-    const damageApplied = Math.min(damage, target.currentHp);
 
-    // 124) Pokaz marker obrazen w UI.
+    // 122) Pokaz markery obrazen w UI (cel i atakujacy po kontrataku).
     setError(null);
     setPathCoords([]);
-    setDamageMarkers((prev) => [
-      ...prev,
-      {
-        id: `${target.uniqueId}-${Date.now()}`,
-        coords: target.position ?? { q: 0, r: 0 },
-        amount: damageApplied,
-      },
-    ]);
+    const markers: DamageMarker[] = result.events.flatMap((ev) =>
+      ev.type === "UNIT_DAMAGED"
+        ? [{ id: `${ev.unitId}-${Date.now()}`, coords: ev.coords, amount: ev.amount }]
+        : []
+    );
+    setDamageMarkers((prev) => [...prev, ...markers]);
     setTimeout(() => {
-      setDamageMarkers((prev) => prev.slice(1));
+      setDamageMarkers((prev) => prev.slice(markers.length));
     }, 900);
 
-    // 125) Wyslij akcje ATTACK do backendu.
-    await applyActionOnBackend({
-      type: "ATTACK",
-      playerId: selectedUnit.owner === "player" ? localPlayerId ?? undefined : enemyPlayerId ?? undefined,
-      payload: { unitId: selectedUnit.uniqueId, targetUnitId: target.uniqueId, damage: damageApplied },
-    });
-
-    // 126) Oznacz jednostke jako "acted".
-    const nextActedPlayer = new Set(acted.player);
-    const nextActedEnemy = new Set(acted.enemy);
-    (selectedUnit.owner === "player" ? nextActedPlayer : nextActedEnemy).add(selectedUnit.uniqueId);
-    setActed({ player: nextActedPlayer, enemy: nextActedEnemy });
+    // 123) Wyslij akcje ATTACK do backendu (z obrazeniami, ucieczkami i odlamkami
+    //      policzonymi przez silnik zasad).
+    try {
+      await applyActionOnBackend(reportedAction(dto, result.events), result.state);
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, "Failed to attack on backend"));
+    }
   }
 
   // 127) Zakoncz ture i przejdz do kolejnej strony.
@@ -1212,22 +1649,31 @@ function BoardPageContent() {
     if (gameResult.winner || activeSide !== "player" || isResolvingAi) return;
     try {
       const actingPlayerId = localPlayerId ?? undefined;
+      // 128a) Lokalna walidacja w silniku zasad (np. nie nasza tura).
+      //       Koniec tury rozlicza tez zaopatrzenie (amunicja, morale odcietych jednostek).
+      const dto: ApplyActionDto = { type: "END_TURN", playerId: actingPlayerId };
+      let predicted: GameState | undefined;
+      let reported = dto;
+      if (gameState) {
+        const check = applyAction(gameState, dto, rulesContext);
+        if (!check.ok) {
+          setError(check.rejection.message);
+          return;
+        }
+        predicted = check.state;
+        // Jednostki rozbite przez brak zaopatrzenia i pola, na ktore uciekly.
+        reported = reportedAction(dto, check.events);
+      }
       // 128) Wyslij END_TURN na backend i odbierz nowy stan.
-      const newState = await applyActionOnBackend({
-        type: "END_TURN",
-        playerId: actingPlayerId,
-      });
+      const newState = await applyActionOnBackend(reported, predicted);
 
       // 129) Wyczysc interakcje z poprzedniej tury.
       setSelectedUnitId(null);
       setPathCoords([]);
       setError(null);
-      setActed({ player: new Set(), enemy: new Set() });
-      setMoved({ player: new Set(), enemy: new Set() });
 
       // 130) Jesli tura przechodzi na przeciwnika, uruchom AI i sledz jego ruch.
       const nextSide = newState.currentPlayerId === localPlayerId ? "player" : "enemy";
-      setRoundNumber(newState.turnNumber);
       if (nextSide === "player") {
         centerOnSide("player");
       }
@@ -1269,6 +1715,13 @@ function BoardPageContent() {
             | Turn: {phase === "finished" ? "-" : activeSide === "player" ? "Player" : "Enemy"} |
             Round: {roundNumber}
           </p>
+          {/* // 134a) Hot-seat: czyja kolej przy ekranie. */}
+          {gameState?.hotSeat && phase === "battle" && (
+            <p className="text-sm text-emerald-300">
+              Offline hot-seat: {gameState.players.find((p) => p.playerId === localPlayerId)?.name ?? "Player"}
+              {"'s"} turn. Pass the screen after ending the turn.
+            </p>
+          )}
           {gameResult.winner && (
             <p className="text-sm text-amber-300">
               Winner: {gameResult.winner === "draw" ? "Draw" : gameResult.winner} |{" "}
@@ -1280,13 +1733,16 @@ function BoardPageContent() {
         {phase === "deployment" && (
           <button
             type="button"
-            onClick={mirrorEnemyDeployment}
+            onClick={finishDeployment}
             className="rounded-lg bg-emerald-600 hover:bg-emerald-500 px-4 py-2 text-white text-sm disabled:opacity-50"
-            disabled={!playerUnits.every((u) => u.position)}
+            disabled={!playerUnits.every((u) => u.position) || waitingForOpponent}
           >
-            Continue (mirror enemy)
+            {gameState?.pvp || gameState?.hotSeat ? "Continue" : "Continue (AI deploys enemy)"}
           </button>
         )}
+        {waitingForOpponent && (
+          <span className="text-sm text-slate-300">Waiting for the opponent to finish deployment...</span>
+        )}
       </div>
 
       {/* // 136) Globalny komunikat bledu (jesli plansza juz jest). */}
@@ -1303,46 +1759,81 @@ function BoardPageContent() {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-semibold text-slate-100">Victory mode</h2>
-                <p className="text-xs text-slate-400">Pick how the winner is determined.</p>
+                <p className="text-xs text-slate-400">Chosen when the game was created.</p>
               </div>
-              <span className="text-[11px] text-slate-300">
-                {phase === "deployment" ? "editable" : "locked after start"}
-              </span>
+              <span className="text-[11px] text-slate-300">locked</span>
             </div>
             <div className="space-y-3 pt-2">
-              {/* // 138) Wybor trybu zwyciestwa. */}
-              <label className="block text-xs text-slate-300">
-                Mode
+              {/* // 138) Tryb zwyciestwa zapisany w stanie gry. */}
+              <div className="flex items-center justify-between rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100">
+                <span className="text-xs text-slate-300">Mode</span>
+                <span>{VICTORY_MODE_LABELS[victory.mode]}</span>
+              </div>
+              {/* // 139) Limit rund w trybach "turns" i "objectives". */}
+              {hasTurnLimit(victory) && (
+                <div className="flex items-center justify-between rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100">
+                  <span className="text-xs text-slate-300">Number of rounds (player+enemy)</span>
+                  <span>{victory.turnLimit}</span>
+                </div>
+              )}
+              {/* // 139b) Zwolnienie kawalerii ze stref kontroli (ustawione przy tworzeniu gry). */}
+              <p className="text-xs text-slate-300">
+                Cavalry ignores enemy zones of control: {cavalryIgnoresZoc ? "yes" : "no"}{" "}
+                <span className="text-slate-500">(chosen when the game was created)</span>
+              </p>
+              {/* // 139d) Mgla wojny (ustawiona przy tworzeniu gry). */}
+              <p className="text-xs text-slate-300">
+                Fog of war: {fogOfWar ? "on" : "off"}{" "}
+                <span className="text-slate-500">(chosen when the game was created)</span>
+              </p>
+              {/* // 139e) Przeciwnik: AI backendu albo lokalne AI (losowe, zachlanne, dwukrokowe). */}
+              <label className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                Enemy AI
                 <select
-                  value={victoryMode}
-                  onChange={(e) => setVictoryMode(e.target.value as VictoryMode)}
-                  disabled={phase !== "deployment"}
-                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+                  value={aiOpponent}
+                  onChange={(e) => setAiOpponent(e.target.value as "backend" | AiDifficulty)}
+                  disabled={isResolvingAi}
+                  title={aiOpponent === "backend" ? "Turns computed by the server." : AI_STRATEGIES[aiOpponent].description}
+                  className="rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
                 >
-                  <option value="points">Points (manual finish)</option>
-                  <option value="elimination">Last unit standing</option>
-                  <option value="turns">Turn limit</option>
+                  <option value="backend">Server</option>
+                  {(Object.keys(AI_STRATEGIES) as AiDifficulty[]).map((id) => (
+                    <option key={id} value={id}>
+                      Local: {AI_STRATEGIES[id].label}
+                    </option>
+                  ))}
                 </select>
               </label>
-              {/* // 139) Limit rund aktywny tylko w trybie "turns". */}
-              {victoryMode === "turns" && (
-                <label className="block text-xs text-slate-300">
-                  Number of rounds (player+enemy)
-                  <input
-                    type="number"
-                    min={1}
-                    value={turnLimit}
-                    onChange={(e) => setTurnLimit(Math.max(1, Number(e.target.value) || 1))}
-                    disabled={phase !== "deployment"}
-                    className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
-                  />
-                </label>
-              )}
+              {/* // 139f) Aktualizacje na zywo z serwera (gra z drugim czlowiekiem). */}
+              <label className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                Live updates{liveStatus ? ` (${liveStatus})` : ""}
+                <select
+                  value={liveUpdates}
+                  onChange={(e) => setLiveUpdates(e.target.value as "auto" | "off" | TransportKind)}
+                  disabled={!gameId || isLocalGameId(gameId)}
+                  className="rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+                >
+                  <option value="auto">Auto (player vs player)</option>
+                  <option value="off">Off</option>
+                  <option value="websocket">WebSocket</option>
+                  <option value="sse">Server-sent events</option>
+                </select>
+              </label>
+              {/* // 139c) Nakladka zasiegu zaopatrzenia na planszy. */}
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={showSupply}
+                  onChange={(e) => setShowSupply(e.target.checked)}
+                />
+                Show supply overlay
+              </label>
               {/* // 140) Krótki opis zasad kazdego trybu. */}
               <ul className="text-[11px] text-slate-400 space-y-1 list-disc list-inside">
                 <li>Points: damage dealt = score, finish when you decide.</li>
                 <li>Last unit standing: auto-finish when one side has no survivors.</li>
                 <li>Turn limit: after selected rounds the score decides.</li>
+                <li>Hold objectives: after selected rounds control of the flagged hexes decides.</li>
               </ul>
             </div>
           </div>
@@ -1378,12 +1869,104 @@ function BoardPageContent() {
                     Active: {phase === "finished" ? "finished" : activeSide === "player" ? "player" : "enemy"}
                   </span>
                   <span>
-                    {victoryMode === "turns"
-                      ? `Rounds left: ${Math.max(0, turnLimit - (roundNumber - 1))}`
+                    {hasTurnLimit(victory)
+                      ? `Rounds left: ${Math.max(0, victory.turnLimit - (roundNumber - 1))}`
                       : "No round cap"}
                   </span>
                 </div>
               </div>
+              {/* // 141a) Cele: wlasciciel, wartosc i punkty za utrzymanie. */}
+              {objectiveStatus.tiles.length > 0 && (
+                <div className="rounded border border-slate-800 bg-slate-800/40 p-2 col-span-2 text-xs">
+                  <div className="flex justify-between text-[11px] text-slate-400">
+                    <span>Objectives</span>
+                    <span>
+                      VP {objectiveStatus.player} : {objectiveStatus.enemy}
+                    </span>
+                  </div>
+                  <ul className="mt-1 space-y-0.5">
+                    {objectiveStatus.tiles.map((objective) => (
+                      <li key={objective.key} className="flex justify-between">
+                        <span>
+                          {objective.terrain} ({objective.key}) +{objective.value}/round
+                        </span>
+                        <span
+                          className={
+                            objective.owner === "player"
+                              ? "font-semibold text-red-300"
+                              : objective.owner === "enemy"
+                              ? "font-semibold text-blue-300"
+                              : "text-slate-400"
+                          }
+                        >
+                          {objective.owner ?? "neutral"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {/* // 141b) Rozbicie wyniku ostatniej walki (atak vs obrona, rzut). */}
+              {lastCombat && (
+                <div className="rounded border border-slate-800 bg-slate-800/40 p-2 col-span-2 text-xs">
+                  <div className="text-[11px] text-slate-400">
+                    Last combat: {lastCombat.attackerName} vs {lastCombat.targetName}
+                  </div>
+                  <div className="flex justify-between">
+                    <span>
+                      Attack {lastCombat.result.baseDamage}
+                      {lastCombat.result.attackMultiplier !== 1 &&
+                        ` x${lastCombat.result.attackMultiplier}`}{" "}
+                      vs defense {lastCombat.result.unitDefense}
+                      {lastCombat.result.terrainDefense !== 0 &&
+                        ` ${lastCombat.result.terrainDefense > 0 ? "+" : "-"}${Math.abs(
+                          lastCombat.result.terrainDefense
+                        )} terrain`}
+                    </span>
+                    <span className="font-semibold text-red-200">
+                      -{lastCombat.result.damageApplied}
+                    </span>
+                  </div>
+                  {lastCombat.result.arc !== "front" && (
+                    <div className="text-[11px] text-amber-300">
+                      Hit the {lastCombat.result.arc} x{lastCombat.result.arcMultiplier}
+                    </div>
+                  )}
+                  {lastCombat.result.chargeMultiplier !== 1 && (
+                    <div className="text-[11px] text-amber-300">
+                      Cavalry charge x{lastCombat.result.chargeMultiplier}
+                    </div>
+                  )}
+                  {lastCombat.result.roll != null && (
+                    <div className="text-[11px] text-slate-400">
+                      Roll {lastCombat.result.roll.toFixed(2)} (x
+                      {lastCombat.result.varianceFactor.toFixed(2)})
+                    </div>
+                  )}
+                  {lastCombat.routedNames.length > 0 && (
+                    <div className="text-[11px] font-semibold text-red-300">
+                      Routed: {lastCombat.routedNames.join(", ")}
+                    </div>
+                  )}
+                  {lastCombat.splash.map((hit) => (
+                    <div key={hit.name} className="flex justify-between text-[11px] text-amber-200">
+                      <span>Splash on {hit.name}</span>
+                      <span className="font-semibold text-red-200">-{hit.damage}</span>
+                    </div>
+                  ))}
+                  {lastCombat.retaliation && (
+                    <div className="flex justify-between">
+                      <span>
+                        Retaliation {lastCombat.retaliation.baseDamage} at{" "}
+                        {Math.round(lastCombat.retaliation.strength * 100)}% strength
+                      </span>
+                      <span className="font-semibold text-red-200">
+                        -{lastCombat.retaliation.damageApplied}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -1403,7 +1986,7 @@ function BoardPageContent() {
               End game now (score by damage)
             </button>
             {/* // 143) Dodatkowe wskazowki/rezultat w zaleznosci od stanu gry. */}
-            {victoryMode === "points" && !gameResult.winner && (
+            {victory.mode === "points" && !gameResult.winner && (
               <p className="text-[11px] text-slate-400">
                 Points mode: click the button when you want to stop and score.
               </p>
@@ -1467,21 +2050,279 @@ function BoardPageContent() {
                   </div>
                   <div className="rounded border border-slate-800 bg-slate-800/40 p-2">
                     <div className="text-slate-400 text-[11px]">Ranged</div>
-                    <div className="font-semibold">{selectedUnit.rangedAttack}</div>
+                    <div className="font-semibold">
+                      {selectedStats?.stats.rangedAttack ?? selectedUnit.rangedAttack}
+                      {selectedStats && selectedStats.stats.rangedAttack !== selectedUnit.rangedAttack && (
+                        <span className="ml-1 text-[10px] text-slate-400">
+                          (base {selectedUnit.rangedAttack})
+                        </span>
+                      )}
+                    </div>
                   </div>
                   <div className="rounded border border-slate-800 bg-slate-800/40 p-2">
                     <div className="text-slate-400 text-[11px]">Range</div>
-                    <div className="font-semibold">{selectedUnit.attackRange}</div>
+                    <div className="font-semibold">
+                      {selectedUnit.minAttackRange ? `${selectedUnit.minAttackRange}-` : ""}
+                      {selectedTerrain?.range ?? selectedUnit.attackRange}
+                    </div>
                   </div>
                   <div className="rounded border border-slate-800 bg-slate-800/40 p-2">
                     <div className="text-slate-400 text-[11px]">Speed</div>
-                    <div className="font-semibold">{selectedUnit.speed}</div>
+                    <div className="font-semibold">
+                      {selectedStats?.stats.speed ?? selectedUnit.speed}
+                      {selectedStats && selectedStats.stats.speed !== selectedUnit.speed && (
+                        <span className="ml-1 text-[10px] text-slate-400">(base {selectedUnit.speed})</span>
+                      )}
+                    </div>
                   </div>
                   <div className="rounded border border-slate-800 bg-slate-800/40 p-2">
                     <div className="text-slate-400 text-[11px]">Defense</div>
-                    <div className="font-semibold">{selectedUnit.defense}</div>
+                    <div className="font-semibold">
+                      {selectedStats?.stats.defense ?? selectedUnit.defense}
+                      {selectedStats && selectedStats.stats.defense !== selectedUnit.defense && (
+                        <span className="ml-1 text-[10px] text-slate-400">(base {selectedUnit.defense})</span>
+                      )}
+                    </div>
                   </div>
+                  {selectedUnit.maxAmmo > 0 && (
+                    <div className="rounded border border-slate-800 bg-slate-800/40 p-2">
+                      <div className="text-slate-400 text-[11px]">Ammo</div>
+                      <div className={`font-semibold ${selectedUnit.ammo === 0 ? "text-red-300" : ""}`}>
+                        {selectedUnit.ammo}/{selectedUnit.maxAmmo}
+                      </div>
+                    </div>
+                  )}
+                  <div className="rounded border border-slate-800 bg-slate-800/40 p-2">
+                    <div className="text-slate-400 text-[11px]">Supply</div>
+                    <div className={`font-semibold ${selectedUnit.inSupply ? "text-emerald-300" : "text-amber-300"}`}>
+                      {selectedUnit.inSupply ? "In supply" : "Cut off"}
+                    </div>
+                  </div>
+                </div>
+                {/* // 145a0) Morale i ewentualne zebranie rozbitej jednostki. */}
+                <div className="rounded border border-slate-800 bg-slate-800/40 p-2 text-xs text-slate-200">
+                  <div className="flex justify-between text-[11px]">
+                    <span className="text-slate-400">Morale</span>
+                    <span
+                      className={
+                        selectedUnit.moraleStatus === "routed"
+                          ? "font-semibold text-red-300"
+                          : selectedUnit.moraleStatus === "wavering"
+                          ? "font-semibold text-amber-300"
+                          : "font-semibold text-emerald-300"
+                      }
+                    >
+                      {selectedUnit.morale}/100 {selectedUnit.moraleStatus}
+                    </span>
+                  </div>
+                  <div className="mt-1 h-1.5 w-full rounded-full bg-slate-800 overflow-hidden">
+                    <div
+                      className={`h-full ${selectedUnit.moraleStatus === "routed" ? "bg-red-400" : "bg-amber-300"}`}
+                      style={{ width: `${Math.max(0, Math.min(100, selectedUnit.morale))}%` }}
+                    />
+                  </div>
+                  {selectedUnit.moraleStatus === "routed" && selectedUnit.owner === "player" && phase === "battle" && (
+                    <button
+                      type="button"
+                      onClick={() => void handleRally()}
+                      disabled={activeSide !== "player" || selectedUnit.hasMoved || selectedUnit.hasActed}
+                      className="mt-2 w-full rounded bg-amber-600 hover:bg-amber-500 disabled:opacity-50 py-1 text-[11px] font-semibold text-slate-50"
+                    >
+                      Rally (uses the unit&apos;s whole turn)
+                    </button>
+                  )}
                 </div>
+                {/* // 145a3) Zdolnosci specjalne (opis w podpowiedzi) i ich aktywacja. */}
+                {unitAbilities(selectedUnit).length > 0 && (
+                  <div className="rounded border border-slate-800 bg-slate-800/40 p-2 text-xs text-slate-200">
+                    <div className="text-slate-400 text-[11px]">Abilities</div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {unitAbilities(selectedUnit).map((ability) =>
+                        ABILITY_HANDLERS[ability].activate &&
+                        selectedUnit.owner === "player" &&
+                        (phase === "battle" || phase === "deployment") ? (
+                          <button
+                            key={ability}
+                            type="button"
+                            title={ABILITY_HANDLERS[ability].description}
+                            onClick={() => void handleAbility(ability)}
+                            disabled={phase === "battle" && (selectedUnit.hasMoved || activeSide !== "player")}
+                            className="rounded bg-slate-700 px-1.5 py-0.5 text-[10px] hover:bg-slate-600 disabled:opacity-40"
+                          >
+                            {ability === "dismount" && selectedUnit.dismounted ? "Mount" : ABILITY_HANDLERS[ability].label}
+                          </button>
+                        ) : (
+                          <span
+                            key={ability}
+                            title={ABILITY_HANDLERS[ability].description}
+                            className="cursor-help rounded bg-slate-700/60 px-1.5 py-0.5 text-[10px]"
+                          >
+                            {ABILITY_HANDLERS[ability].label}
+                          </span>
+                        )
+                      )}
+                    </div>
+                    {selectedUnit.dismounted && (
+                      <div className="mt-1 text-[11px] text-amber-200">Dismounted, fighting on foot.</div>
+                    )}
+                  </div>
+                )}
+                {/* // 145a2) Dziala: zaprzodkowane maszeruja, odprzodkowane strzelaja. */}
+                {selectedUnit.limberRequired && (
+                  <div className="rounded border border-slate-800 bg-slate-800/40 p-2 text-xs text-slate-200">
+                    <div className="flex justify-between text-[11px]">
+                      <span className="text-slate-400">Guns</span>
+                      <span className={selectedUnit.unlimbered ? "font-semibold text-emerald-300" : "font-semibold text-amber-300"}>
+                        {selectedUnit.unlimbered ? "unlimbered (can fire)" : "limbered (can move)"}
+                      </span>
+                    </div>
+                    {(selectedUnit.indirectFire || selectedUnit.splashChance) && (
+                      <div className="text-[11px] text-slate-300">
+                        {selectedUnit.indirectFire && "Indirect fire, ignores line of sight. "}
+                        {selectedUnit.splashChance
+                          ? `Splash: ${Math.round(selectedUnit.splashChance * 100)}% per adjacent enemy, ${Math.round(
+                              (selectedUnit.splashDamage ?? 0) * 100
+                            )}% damage.`
+                          : ""}
+                      </div>
+                    )}
+                    {selectedUnit.owner === "player" && (phase === "battle" || phase === "deployment") && (
+                      <button
+                        type="button"
+                        onClick={() => void handleLimber(!selectedUnit.unlimbered)}
+                        disabled={
+                          phase === "battle" &&
+                          (activeSide !== "player" ||
+                            (selectedUnit.unlimbered ? selectedUnit.hasActed : selectedUnit.hasMoved))
+                        }
+                        className="mt-2 w-full rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-50 py-1 text-[11px] font-semibold text-slate-50"
+                      >
+                        {selectedUnit.unlimbered ? "Limber (uses the action)" : "Unlimber (uses the move)"}
+                      </button>
+                    )}
+                  </div>
+                )}
+                {/* // 145a1) Szyk piechoty; zmiana w bitwie zuzywa ruch w tej turze. */}
+                {selectedStats?.formation && selectedStats.modifier && (
+                  <div className="rounded border border-slate-800 bg-slate-800/40 p-2 text-xs text-slate-200">
+                    <div className="text-slate-400 text-[11px]">
+                      Formation: {selectedStats.formation}
+                    </div>
+                    <div className="text-[11px] text-slate-300">
+                      Fire x{selectedStats.modifier.rangedMultiplier}
+                      {selectedStats.modifier.defenseAgainst.cavalry !== 0 &&
+                        `, vs cavalry ${selectedStats.modifier.defenseAgainst.cavalry > 0 ? "+" : ""}${
+                          selectedStats.modifier.defenseAgainst.cavalry
+                        } def`}
+                      {selectedStats.modifier.defenseAgainst.artillery !== 0 &&
+                        `, vs artillery ${
+                          selectedStats.modifier.defenseAgainst.artillery > 0 ? "+" : ""
+                        }${selectedStats.modifier.defenseAgainst.artillery} def`}
+                    </div>
+                    {selectedUnit.owner === "player" && (phase === "battle" || phase === "deployment") && (
+                      <div className="mt-1 grid grid-cols-3 gap-1">
+                        {FORMATIONS.map((formation) => (
+                          <button
+                            key={formation}
+                            type="button"
+                            onClick={() => void handleFormation(formation)}
+                            disabled={
+                              formation === selectedStats.formation ||
+                              (phase === "battle" && (selectedUnit.hasMoved || activeSide !== "player"))
+                            }
+                            className="rounded bg-slate-700 px-1 py-0.5 text-[10px] capitalize hover:bg-slate-600 disabled:opacity-40"
+                          >
+                            {formation}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {/* // 145a) Front jednostki; obrot w miejscu zuzywa ruch w tej turze. */}
+                <div className="rounded border border-slate-800 bg-slate-800/40 p-2 text-xs text-slate-200">
+                  <div className="text-slate-400 text-[11px]">
+                    Facing: {FACING_LABELS[selectedUnit.facing]}
+                  </div>
+                  {selectedUnit.owner === "player" && phase === "battle" && (
+                    <div className="mt-1 grid grid-cols-6 gap-1">
+                      {FACING_LABELS.map((label, direction) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => void handleFace(direction)}
+                          disabled={
+                            selectedUnit.hasMoved ||
+                            activeSide !== "player" ||
+                            direction === selectedUnit.facing
+                          }
+                          className="rounded bg-slate-700 px-1 py-0.5 text-[10px] hover:bg-slate-600 disabled:opacity-40"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {/* // 145b) Modyfikatory terenu pod jednostka. */}
+                {selectedTerrain && (
+                  <div className="rounded border border-slate-800 bg-slate-800/40 p-2 text-xs text-slate-200">
+                    <div className="text-slate-400 text-[11px]">Terrain: {selectedTerrain.terrain}</div>
+                    <div className="flex justify-between">
+                      <span>Defense bonus</span>
+                      <span className="font-semibold">
+                        {selectedTerrain.modifier.defense >= 0 ? "+" : ""}
+                        {selectedTerrain.modifier.defense}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Attack</span>
+                      <span className="font-semibold">
+                        x{selectedTerrain.modifier.attackMultiplier}
+                      </span>
+                    </div>
+                    {selectedTerrain.range !== selectedUnit.attackRange && (
+                      <div className="flex justify-between">
+                        <span>Range bonus</span>
+                        <span className="font-semibold">
+                          +{selectedTerrain.range - selectedUnit.attackRange}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {/* // 145c) Podglad obrazen dla celow w zasiegu. */}
+                {attackOptions.length > 0 && (
+                  <div className="space-y-1">
+                    <div className="text-slate-400 text-[11px]">Targets in range</div>
+                    {attackOptions.map(({ key, name, preview, retaliation }) => (
+                      <div
+                        key={key}
+                        className="rounded border border-red-500/40 bg-red-900/20 px-2 py-1 text-xs text-slate-100"
+                      >
+                        <div className="flex justify-between">
+                          <span>{name}</span>
+                          <span className="font-semibold text-red-200">-{preview.damageApplied}</span>
+                        </div>
+                        <div className="text-[11px] text-slate-400">
+                          {preview.isRanged ? "ranged" : "melee"} {preview.baseDamage}
+                          {preview.attackMultiplier !== 1 && ` x${preview.attackMultiplier}`}
+                          {preview.terrainDefense !== 0 &&
+                            ` ${preview.terrainDefense > 0 ? "-" : "+"}${Math.abs(
+                              preview.terrainDefense
+                            )} cover`}
+                          {preview.chargeMultiplier !== 1 && ` charge x${preview.chargeMultiplier}`}
+                          {preview.arc !== "front" && ` ${preview.arc} x${preview.arcMultiplier}`}
+                        </div>
+                        {retaliation && (
+                          <div className="text-[11px] text-amber-300">
+                            Retaliation -{retaliation.damageApplied}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <p className="text-sm text-slate-400">Select a unit to see its stats.</p>
@@ -1526,70 +2367,148 @@ function BoardPageContent() {
               panMoved.current = false;
             }}
           >
-            {/* // 147) Grid kafelkow dla wszystkich wspolrzednych. */}
+            {/* // 147) Heksy planszy rozmieszczone w ukladzie pointy-top. */}
             <div
-              className="grid gap-1"
-              style={{
-                gridTemplateColumns: `repeat(${columns.length}, 3rem)`,
-              }}
+              className="relative"
+              style={{ width: hexLayout.width, height: hexLayout.height }}
+              onMouseLeave={() => setHoverCoords(null)}
             >
-              {rows.flatMap((r) =>
-                columns.map((q) => {
-                  const tile = tileByCoord.get(`${q},${r}`);
-                  const occupant = occupiedMap.get(`${q},${r}`);
-                  const isSelected = occupant && occupant.uniqueId === selectedUnitId;
-                  const isPath = pathKeys.has(`${q},${r}`);
-                  const visuals = tileVisual(tile);
-                  const badge = visuals.label;
-                  const canDrop =
-                    phase === "deployment" &&
-                    allowedDeployColumns.has(q) &&
-                    canDropOnTile(q, r);
-
-                  return (
-                    <div
-                      key={`${q},${r}`}
-                      draggable={false}
-                      onClick={() => {
-                        if (panMoved.current) {
-                          panMoved.current = false;
-                          return;
-                        }
-                        if (phase === "battle" && activeSide !== "player") {
-                          return;
-                        }
-                        if (occupant) {
-                          if (selectedUnit && occupant.owner !== selectedUnit.owner) {
-                            void handleAttack(occupant);
+              {hexLayout.cells.map(({ tile, left, top }) => {
+                const { q, r } = tile.coords;
+                const occupant = occupiedMap.get(`${q},${r}`);
+                const ghost = occupant ? undefined : ghostMap.get(`${q},${r}`);
+                const isHidden = fogView != null && !fogView.tiles.has(`${q},${r}`);
+                const objective = objectiveByKey.get(`${q},${r}`);
+                const isSelected = occupant && occupant.uniqueId === selectedUnitId;
+                const isPath = pathKeys.has(`${q},${r}`);
+                const isTargetable = targetableKeys.has(`${q},${r}`);
+                const moveAttack = moveAttackOptions.get(`${q},${r}`);
+                const isHoverPath = hoverPathKeys.has(`${q},${r}`);
+                const moveCost = movementField?.costs.get(`${q},${r}`);
+                const isReachable = moveCost != null && moveCost > 0;
+                const visuals = tileVisual(tile);
+                const badge = visuals.label;
+                const canDrop =
+                  phase === "deployment" &&
+                  deployZone.has(`${q},${r}`) &&
+                  canDropOnTile(q, r);
+
+                return (
+                  <div
+                    key={`${q},${r}`}
+                    draggable={false}
+                    onClick={() => {
+                      if (panMoved.current) {
+                        panMoved.current = false;
+                        return;
+                      }
+                      if (phase === "battle" && activeSide !== "player") {
+                        return;
+                      }
+                      if (occupant) {
+                        if (selectedUnit && occupant.owner !== selectedUnit.owner) {
+                          if (moveAttack) {
+                            void handleMoveAndAttack(occupant, moveAttack);
                           } else {
-                            selectUnit(occupant);
+                            void handleAttack(occupant);
                           }
-                        } else if (selectedUnit) {
-                          void handleMoveTo(q, r);
+                        } else {
+                          selectUnit(occupant);
                         }
-                      }}
-                      onDragOver={(e) => {
-                        if (canDrop) e.preventDefault();
-                      }}
-                      onDrop={(e) => onTileDrop(e, q, r)}
-                      className={`w-12 aspect-square ${visuals.className} ${tileClass(
-                        tile
-                      )} rounded-md border overflow-hidden flex items-center justify-center text-[10px] leading-tight relative ${
-                        canDrop ? "border-amber-300" : "border-slate-900"
-                      } ${isSelected ? "ring-2 ring-amber-400" : ""} ${
-                        isPath ? "outline outline-2 outline-cyan-300" : ""
-                      }`}
-                      style={visuals.style}
-                      title={
-                        tile
-                          ? `q=${tile.coords.q}, r=${tile.coords.r}, terrain=${tile.terrain}`
-                          : `q=${q}, r=${r} (no tile data)`
+                      } else if (selectedUnit) {
+                        void handleMoveTo(q, r);
                       }
+                    }}
+                    onDragOver={(e) => {
+                      if (canDrop) e.preventDefault();
+                    }}
+                    onDrop={(e) => onTileDrop(e, q, r)}
+                    onMouseEnter={() => setHoverCoords({ q, r })}
+                    className="absolute"
+                    style={{ left, top, width: HEX_WIDTH, height: HEX_HEIGHT }}
+                    title={`q=${q}, r=${r}, terrain=${tile.terrain}${
+                      isTargetable
+                        ? " (targetable)"
+                        : moveAttack
+                        ? ` (attack after moving, cost ${moveAttack.cost})`
+                        : isReachable
+                        ? ` (move cost ${moveCost})`
+                        : ""
+                    }${zocKeys.has(`${q},${r}`) && !occupant ? " - enemy zone of control" : ""}`}
+                  >
+                    {/* // 148) Wlasciwy heks (przyciety do szesciokata) z terenem i jednostka. */}
+                    <div
+                      className={`absolute inset-[1px] ${visuals.className} ${tileClass(
+                        tile
+                      )} overflow-hidden flex items-center justify-center text-[10px] leading-tight`}
+                      style={{ ...visuals.style, clipPath: HEX_CLIP }}
                     >
-                      {/* // 148) Ikona i pasek zycia jednostki na kafelku. */}
+                      {/* // 148b) Mgla wojny: przyciemnione pola poza zasiegiem wzroku i duchy wrogow. */}
+                      {isHidden && <div className="pointer-events-none absolute inset-0 z-10 bg-slate-950/45" />}
+                      {ghost && (
+                        <Image
+                          src={unitIconSrc(ghost.unit)}
+                          alt={`${ghost.unit.name} (last seen)`}
+                          title={`${ghost.unit.name} last seen on turn ${ghost.turnNumber}`}
+                          width={40}
+                          height={40}
+                          className="pointer-events-none absolute z-20 w-9 h-9 object-contain opacity-35 grayscale"
+                        />
+                      )}
+                      {/* // 148c) Znacznik celu w kolorze wlasciciela. */}
+                      {objective && (
+                        <span
+                          title={`Objective +${objective.value} VP per round (${objective.owner ?? "neutral"})`}
+                          className={`pointer-events-none absolute top-1 left-1/2 z-10 -translate-x-1/2 text-[11px] font-bold ${
+                            objective.owner === "player"
+                              ? "text-red-300"
+                              : objective.owner === "enemy"
+                              ? "text-blue-300"
+                              : "text-slate-100"
+                          }`}
+                        >
+                          &#9873;
+                        </span>
+                      )}
+                      {/* // 148a) Nakladka zaopatrzenia (pod pozostalymi podswietleniami). */}
+                      {supplyOverlay?.tiles.has(`${q},${r}`) && (
+                        <div className="pointer-events-none absolute inset-0 bg-emerald-400/15" />
+                      )}
+                      {supplyOverlay?.sources.has(`${q},${r}`) && (
+                        <span className="pointer-events-none absolute bottom-2 left-1/2 z-10 -translate-x-1/2 rounded bg-emerald-700/80 px-0.5 text-[8px] font-bold text-emerald-50">
+                          SUPPLY
+                        </span>
+                      )}
+                      {/* // 149) Podswietlenie: zaznaczenie, cel w zasiegu, cel po ruchu, podglad
+                          sciezki, sciezka, zasieg ruchu, pole rozstawienia. */}
+                      {(isSelected ||
+                        isTargetable ||
+                        moveAttack ||
+                        isHoverPath ||
+                        isPath ||
+                        isReachable ||
+                        canDrop) && (
+                        <div
+                          className={`pointer-events-none absolute inset-0 ${
+                            isSelected
+                              ? "bg-amber-400/45"
+                              : isTargetable
+                              ? "bg-red-500/45"
+                              : moveAttack
+                              ? "bg-orange-400/35"
+                              : isHoverPath
+                              ? "bg-cyan-200/50"
+                              : isPath
+                              ? "bg-cyan-300/40"
+                              : isReachable
+                              ? "bg-sky-400/20"
+                              : "bg-amber-300/25"
+                          }`}
+                        />
+                      )}
                       {occupant && (
                         <>
-                          <div className="absolute top-1 left-1 right-1 z-20 h-1 rounded-full bg-black/50 overflow-hidden border border-slate-900/60">
+                          <div className="absolute top-3 left-2 right-2 z-20 h-1 rounded-full bg-black/50 overflow-hidden border border-slate-900/60">
                             <div
                               className="h-full bg-emerald-400"
                               style={{
@@ -1600,8 +2519,27 @@ function BoardPageContent() {
                               }}
                             />
                           </div>
+                          {/* // 149a) Pasek morale pod paskiem HP i znacznik rozbicia. */}
+                          <div className="absolute top-[17px] left-3 right-3 z-20 h-0.5 rounded-full bg-black/50 overflow-hidden">
+                            <div
+                              className={`h-full ${occupant.moraleStatus === "routed" ? "bg-red-400" : "bg-amber-300"}`}
+                              style={{ width: `${Math.max(0, Math.min(100, occupant.morale))}%` }}
+                            />
+                          </div>
+                          {occupant.moraleStatus === "routed" && (
+                            <span className="pointer-events-none absolute top-5 right-2 z-30 rounded bg-slate-100 px-0.5 text-[8px] font-bold text-slate-900">
+                              ROUT
+                            </span>
+                          )}
+                          {/* // 149b) Wskaznik frontu: trojkat przy krawedzi, w ktora patrzy jednostka. */}
                           <div
-                            className={`absolute inset-0 z-10 rounded-md bg-black/25 flex items-center justify-center px-1 text-center pointer-events-none ${
+                            className="pointer-events-none absolute inset-0 z-20"
+                            style={{ transform: `rotate(${-60 * occupant.facing}deg)` }}
+                          >
+                            <div className="absolute right-0.5 top-1/2 h-0 w-0 -translate-y-1/2 border-y-[5px] border-l-[7px] border-y-transparent border-l-amber-200" />
+                          </div>
+                          <div
+                            className={`absolute inset-0 z-10 bg-black/25 flex items-center justify-center px-1 text-center pointer-events-none ${
                               occupant.owner === "player" ? "text-red-100" : "text-blue-100"
                             }`}
                           >
@@ -1615,27 +2553,27 @@ function BoardPageContent() {
                           </div>
                         </>
                       )}
-                      {/* // 149) Etykieta terenu w rogu kafelka. */}
+                      {/* // 150) Etykieta terenu u dolu heksu. */}
                       {badge && (
-                        <span className="pointer-events-none absolute bottom-0.5 right-0.5 z-30 rounded bg-slate-900/70 px-1 text-[9px] font-semibold tracking-tight text-slate-50 shadow-sm backdrop-blur">
+                        <span className="pointer-events-none absolute bottom-2 left-1/2 -translate-x-1/2 z-30 rounded bg-slate-900/70 px-1 text-[9px] font-semibold tracking-tight text-slate-50 shadow-sm backdrop-blur">
                           {badge}
                         </span>
                       )}
-                      {/* // 150) Tymczasowe markery obrazen. */}
-                      {damageMarkers
-                        .filter((m) => m.coords.q === q && m.coords.r === r)
-                        .map((m) => (
-                          <div
-                            key={m.id}
-                            className="pointer-events-none absolute -top-6 left-1/2 z-40 -translate-x-1/2 text-xs font-bold text-red-300 animate-bounce"
-                          >
-                            -{m.amount}
-                          </div>
-                        ))}
                     </div>
-                  );
-                })
-              )}
+                    {/* // 150b) Tymczasowe markery obrazen (poza przycieciem heksu). */}
+                    {damageMarkers
+                      .filter((m) => m.coords.q === q && m.coords.r === r)
+                      .map((m) => (
+                        <div
+                          key={m.id}
+                          className="pointer-events-none absolute -top-4 left-1/2 z-40 -translate-x-1/2 text-xs font-bold text-red-300 animate-bounce"
+                        >
+                          -{m.amount}
+                        </div>
+                      ))}
+                  </div>
+                );
+              })}
             </div>
           </div>
 
@@ -1645,7 +2583,7 @@ function BoardPageContent() {
               <h2 className="text-lg font-semibold text-slate-100">Units panel</h2>
               <p className="text-sm text-slate-400">
                 {phase === "deployment"
-                  ? "Drag player units onto the first 3 columns on the left."
+                  ? "Drag player units into your deployment zone (first 3 columns by default)."
                   : `Active side: ${activeSide === "player" ? "player" : "enemy"}. Player moves only; enemy acts automatically after end turn.`}
               </p>
             </div>
@@ -1653,17 +2591,12 @@ function BoardPageContent() {
             {/* // 152) Lista jednostek (filtrowana wg fazy/aktywnej strony). */}
             <div className="space-y-3">
               {[...playerUnits, ...enemyUnits]
-                .filter((u) => u.currentHp > 0 && (phase === "deployment" ? u.owner === "player" : true))
+                .filter(
+                  (u) => u.currentHp > 0 && (phase === "deployment" ? u.owner === "player" : isShown(u))
+                )
                 .map((unit) => {
                   const isSelected = selectedUnitId === unit.uniqueId;
-                  const hasActed =
-                    unit.owner === "player"
-                      ? acted.player.has(unit.uniqueId)
-                      : acted.enemy.has(unit.uniqueId);
-                  const hasMoved =
-                    unit.owner === "player"
-                      ? moved.player.has(unit.uniqueId)
-                      : moved.enemy.has(unit.uniqueId);
+                  const { hasActed, hasMoved } = unit;
 
                   return (
                     <div
@@ -1803,11 +2736,26 @@ function BoardPageContent() {
 
       {/* // 157) Instrukcje dla gracza (deployment, battle, panning). */}
       <p className="text-xs text-slate-400">
-        Deployment: drag player units only onto the first 3 columns. After &quot;Continue&quot; the enemy is
-        mirrored on the right. In battle: each unit may attack once and move once per turn, in any
-        order - use this to fall back after firing or charge after moving. Pick the victory mode above
-        (points = manual finish, elimination = auto when one side dies, turn limit = auto after
-        chosen rounds). You can pan the map with scrollbars or by click-dragging the map.
+        Deployment: drag player units only into your deployment zone. After &quot;Continue&quot; the enemy
+        deploys its own army in its zone (the AI, or the other player in hot-seat and lobby games). In battle: each unit may move once and attack once per turn. Attacking
+        ends its movement, so move first and then fire or charge; only skirmishers can still fall back
+        after firing. Enemies highlighted in red are in range and in sight of the selected unit;
+        forests and cities block ranged fire unless the shooter or target stands on a hill. Blue tiles show where the selected unit can move;
+        orange enemies can be attacked after moving - click one to move and attack in one go. Hover a
+        tile to preview the path. Entering a tile next to an enemy ends the move, and leaving such a
+        tile costs one extra movement point. Units turn to face the way they moved (or pivot in place
+        from the unit panel); attacks into the flank or rear hit harder. Casualties, flank hits and
+        nearby losses drain morale (amber bar); a routed unit flees towards its own edge and cannot
+        move or attack until it rallies away from the enemy. Infantry can switch formation: line fires harder,
+        column marches faster, square holds off cavalry but suffers under artillery. Guns must be
+        unlimbered to fire and limbered to move; howitzers lob shells over obstacles but not at close
+        range, and cannon shot can splash onto enemies next to the target. Shooting uses ammunition, which
+        refills at the end of your turn within reach of a friendly city or baggage train; units cut
+        off from supply lose morale instead. Hover an ability for details. With fog of war on,
+        enemies outside your units&apos; sight (shorter into forests, longer from hills) are hidden or
+        shown where last seen. The victory mode is chosen when the game is created and stays locked; the
+        panel above shows it (points = manual finish, elimination = auto when one side dies, turn limit
+        = auto after chosen rounds). You can pan the map with scrollbars or by click-dragging the map.
       </p>
       {buildSha && (
         <p className="text-[10px] text-slate-500">Build: {buildSha.slice(0, 8)}</p>
@@ -0,0 +1,16 @@
+import ScenarioEditor from "@/features/editor/ScenarioEditor";
+
+export default function EditorPage() {
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold text-white">Scenario editor</h1>
+        <p className="text-sm text-slate-300">
+          Paint terrain, mark deployment zones and objectives, then save the map as JSON and load it
+          when starting a new game.
+        </p>
+      </div>
+      <ScenarioEditor />
+    </div>
+  );
+}
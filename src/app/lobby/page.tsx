@@ -0,0 +1,16 @@
+import Lobby from "@/features/lobby/Lobby";
+
+export default function LobbyPage() {
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold text-white">Lobby</h1>
+        <p className="text-sm text-slate-300">
+          Create a player-vs-player game or join an open one. Each player builds an army, then both
+          confirm they are ready before deployment.
+        </p>
+      </div>
+      <Lobby />
+    </div>
+  );
+}
@@ -7,20 +7,29 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/features/auth/AuthProvider";
 import type { Player } from "@/shared/player";
 import type { UnitDto } from "@/shared/unit";
-import type { GameState } from "@/shared/game";
+import type { GameState, VictorySettings } from "@/shared/game";
+import { createLocalGame, saveLocalGame, saveLocalUnits } from "@/shared/localGame";
+import type { LobbyGame } from "@/shared/lobby";
+import { generatePresetBoard } from "@/shared/mapGenerator";
+import { normalizeVictorySettings } from "@/shared/rules";
+import { applyScenario, parseScenario, scenarioFromBoard } from "@/shared/scenario";
+import type { Scenario } from "@/shared/scenario";
 
 type ArmyBuilderProps = {
   player: Player;
   units: UnitDto[];
+  // gra z lobby (gracz kontra gracz): wlasny budzet, armia zapisywana w lobby zamiast gry solo
+  lobbyGame?: LobbyGame | null;
 };
 
-export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
+export default function ArmyBuilder({ player, units, lobbyGame }: ArmyBuilderProps) {
   const router = useRouter(); // router Next.js do nawigacji po zapisaniu armii (client-side)
   const { authFetch, user } = useAuth(); // authFetch dodaje autoryzacje do fetchy; user to zalogowany uzytkownik
 
   const [selected, setSelected] = useState<Record<string, number>>({}); // mapa unitId -> ilosc wybranych jednostek w armii
   const [error, setError] = useState<string | null>(null); // komunikat o bledach walidacji lub zapisu
   const [isSaving, setIsSaving] = useState(false); // blokada UI na czas zapisu/fechowania
+  const budget = lobbyGame?.settings.budget ?? player.budget; // budzet gry z lobby ma pierwszenstwo
 
   function addUnit(unitId: string) {
     // zwiekszamy licznik wybranego unitu; inicjalnie 0 gdy nie ma w mapie
@@ -61,6 +70,54 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
     );
   }, [selected, units]);
 
+  // przepisujemy mape selected (unitId -> count) na tablice obiektow
+  function armyUnitList() {
+    return Object.entries(selected).map(([unitId, count]) => ({ unitId, count }));
+  }
+
+  // walidacja skladu armii wspolna dla gry z backendem i offline; null = armia poprawna
+  function armyError(): string | null {
+    if (armyUnitList().length === 0) return "Army is empty";
+    // walidacja budzetu: nie mozna przekroczyc maksymalnej kwoty gracza
+    if (totalCost > budget) return "Army cost exceeds budget";
+    return null;
+  }
+
+  // ustawienia nowej gry z formularza: warunki zwyciestwa (albo domyslne), mgla wojny i zwolnienie
+  // kawalerii ze stref kontroli (domyslnie wylaczone) oraz opcjonalna mapa z edytora
+  function newGameSettings(): {
+    victory: VictorySettings;
+    fogOfWar: boolean;
+    cavalryIgnoresZoc: boolean;
+    scenario: Scenario | null;
+  } {
+    const storedVictory =
+      typeof window !== "undefined" ? sessionStorage.getItem("newGameVictory") : null;
+    const storedFog =
+      typeof window !== "undefined" ? sessionStorage.getItem("newGameFogOfWar") : null;
+    const storedCavalryZoc =
+      typeof window !== "undefined" ? sessionStorage.getItem("newGameCavalryIgnoresZoc") : null;
+    const storedScenario =
+      typeof window !== "undefined" ? sessionStorage.getItem("newGameScenario") : null;
+    return {
+      victory: normalizeVictorySettings(storedVictory ? JSON.parse(storedVictory) : null),
+      fogOfWar: storedFog === "true",
+      cavalryIgnoresZoc: storedCavalryZoc === "true",
+      scenario: storedScenario ? parseScenario(storedScenario) : null,
+    };
+  }
+
+  // zapisujemy stan gry w sessionStorage, zeby ekran planszy mial dane po przejsciu,
+  // i przechodzimy do planszy z gameId w query
+  function openBoard(game: GameState) {
+    if (typeof window !== "undefined") {
+      sessionStorage.setItem("currentGameState", JSON.stringify(game));
+      sessionStorage.setItem("currentGameId", game.gameId);
+      sessionStorage.setItem("localPlayerId", String(player.id));
+    }
+    router.push(`/board?gameId=${game.gameId}`);
+  }
+
   async function resetUnits(playerId: number) {
     // usuwamy cala armie gracza na backendzie, by nadpisac ja nowa konfiguracja
     const res = await authFetch(`/players/${playerId}/units`, { method: "DELETE" });
@@ -74,21 +131,10 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
       setIsSaving(true);
       setError(null);
 
-      // przepisujemy mape selected (unitId -> count) na tablice obiektow
-      const armyUnits = Object.entries(selected).map(([unitId, count]) => ({
-        unitId,
-        count,
-      }));
-
-      if (armyUnits.length === 0) {
-        setError("Army is empty");
-        setIsSaving(false);
-        return;
-      }
-
-      if (totalCost > player.budget) {
-        // walidacja budzetu: nie mozna przekroczyc maksymalnej kwoty gracza
-        setError("Army cost exceeds budget");
+      const armyUnits = armyUnitList();
+      const invalid = armyError();
+      if (invalid) {
+        setError(invalid);
         setIsSaving(false);
         return;
       }
@@ -98,6 +144,21 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
         return;
       }
 
+      // gra z lobby: kazdy gracz zapisuje wlasna armie dla tej gry (backend jej nie lustrzy),
+      // a potem wraca do lobby potwierdzic gotowosc
+      if (lobbyGame) {
+        const res = await authFetch(`/lobby/games/${encodeURIComponent(lobbyGame.lobbyId)}/army`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ units: armyUnits }),
+        });
+        if (!res.ok) {
+          throw new Error(`Failed to save army for the lobby game. Status: ${res.status}`);
+        }
+        router.push("/lobby");
+        return;
+      }
+
       // clear player's army before adding new units
       await resetUnits(player.id);
 
@@ -117,32 +178,35 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
         }
       }
 
+      const { victory, fogOfWar, cavalryIgnoresZoc, scenario } = newGameSettings();
+
       // tworzymy gre solo; backend zestawia przeciwnika i zwraca stan
+      // (ustawienia zwyciestwa, mgle wojny, reguly i mape scenariusza dopisujemy do stanu, jesli backend ich nie przechowuje)
       const createStatefulGame = async (): Promise<GameState> => {
         const res = await authFetch("/game/state/solo", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ playerId: player.id }),
+          body: JSON.stringify({ playerId: player.id, victory, fogOfWar, cavalryIgnoresZoc, scenario }),
         });
         if (!res.ok) {
           throw new Error(`Failed to create game. Status: ${res.status}`);
         }
-        return (await res.json()) as GameState;
+        const created = (await res.json()) as GameState;
+        const withVictory = {
+          ...created,
+          victory: created.victory ?? victory,
+          fogOfWar: created.fogOfWar ?? fogOfWar,
+          cavalryIgnoresZoc: created.cavalryIgnoresZoc ?? cavalryIgnoresZoc,
+        };
+        return scenario && !created.scenario ? applyScenario(withVictory, scenario) : withVictory;
       };
 
       const game = await createStatefulGame();
 
-      if (typeof window !== "undefined") {
-        // zapisujemy stan gry w sessionStorage, zeby ekran planszy mial dane po przejsciu
-        sessionStorage.setItem("currentGameState", JSON.stringify(game));
-        sessionStorage.setItem("currentGameId", game.gameId);
-        sessionStorage.setItem("localPlayerId", String(player.id));
-      }
-
-      // po pomyslnym zapisie i utworzeniu gry przechodzimy do planszy z gameId w query
-      router.push(`/board?gameId=${game.gameId}`);
+      // po pomyslnym zapisie i utworzeniu gry przechodzimy do planszy
+      openBoard(game);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : "Unknown error while saving army");
     } finally {
@@ -150,14 +214,53 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
     }
   }
 
+  // gra offline na jednym ekranie (hot-seat): bez backendu, stan i zasady w przegladarce;
+  // drugi gracz dostaje lustrzana armie, a mapa to scenariusz albo wygenerowana plansza
+  function handleStartOffline() {
+    try {
+      setError(null);
+      const invalid = armyError();
+      if (invalid) {
+        setError(invalid);
+        return;
+      }
+      const { victory, fogOfWar, cavalryIgnoresZoc, scenario } = newGameSettings();
+      const map = scenario ?? scenarioFromBoard("Open plains", generatePresetBoard("open-plains", Date.now()));
+      const army = armyUnitList().flatMap(({ unitId, count }) => Array<string>(count).fill(unitId));
+      const rivalId = player.id + 1;
+      const game = createLocalGame({
+        players: [
+          { playerId: player.id, name: player.name, color: player.color },
+          { playerId: rivalId, name: "Player 2", color: player.color === "blue" ? "red" : "blue" },
+        ],
+        armies: { [player.id]: army, [rivalId]: army },
+        templates: units,
+        tiles: map.tiles,
+        victory,
+        hotSeat: true,
+        fogOfWar,
+        cavalryIgnoresZoc,
+        scenario: scenario?.name,
+      });
+      saveLocalUnits(units, localStorage);
+      saveLocalGame(game, localStorage);
+      openBoard(game);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Unknown error while starting offline game");
+    }
+  }
+
   return (
     <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
       <div className="space-y-3">
         <h1 className="text-2xl font-semibold mb-2">
           Army for {player.name} ({player.color})
         </h1>
+        {lobbyGame && (
+          <p className="text-sm text-emerald-300">Player-vs-player game: {lobbyGame.name}</p>
+        )}
         <p className="text-slate-300 mb-1">
-          Budget: {player.budget} | Current cost: {totalCost}
+          Budget: {budget} | Current cost: {totalCost}
         </p>
         {error && (
           <p className="text-sm text-red-400 mb-2">
@@ -214,7 +317,7 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
           Player: {player.name} ({player.color})
         </p>
         <p className="text-sm text-slate-300">
-          Budget: {player.budget}
+          Budget: {budget}
         </p>
         <p className="text-sm text-slate-300 mb-4">
           Current cost: {totalCost}
@@ -224,10 +327,20 @@ export default function ArmyBuilder({ player, units }: ArmyBuilderProps) {
           type="button"
           onClick={handleSaveArmy}
           className="w-full rounded-lg bg-emerald-600 hover:bg-emerald-500 py-2 text-sm font-medium text-white disabled:opacity-50"
-          disabled={totalCost === 0 || totalCost > player.budget || isSaving}
+          disabled={totalCost === 0 || totalCost > budget || isSaving}
         >
-          {isSaving ? "Saving..." : "Save army & go to board"}
+          {isSaving ? "Saving..." : lobbyGame ? "Save army & back to lobby" : "Save army & go to board"}
         </button>
+        {!lobbyGame && (
+          <button
+            type="button"
+            onClick={handleStartOffline}
+            className="mt-2 w-full rounded-lg border border-slate-500 py-2 text-sm font-medium text-slate-100 hover:bg-slate-700 disabled:opacity-50"
+            disabled={totalCost === 0 || totalCost > budget || isSaving}
+          >
+            Play offline (hot-seat)
+          </button>
+        )}
       </aside>
     </div>
   );
@@ -9,7 +9,9 @@ import { useAuth } from "./AuthProvider";
 const navLinks = [
   { href: "/", label: "Home" },
   { href: "/new-game", label: "New Game" },
+  { href: "/lobby", label: "Lobby" },
   { href: "/units", label: "Units" },
+  { href: "/editor", label: "Editor" },
   { href: "/stats", label: "Stats" },
 ];
 
@@ -0,0 +1,334 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import type { HexCoords, TerrainType } from "@/shared/board";
+import type { HexTileState } from "@/shared/game";
+import { hexToPixel } from "@/shared/hex";
+import {
+  MAX_SCENARIO_SIZE,
+  MIN_SCENARIO_SIZE,
+  TERRAIN_TYPES,
+  createScenario,
+  paintTerrain,
+  parseScenario,
+  resizeScenario,
+  serializeScenario,
+  updateScenarioTile,
+} from "@/shared/scenario";
+import type { Scenario } from "@/shared/scenario";
+
+// Geometria heksow (pointy-top), troche mniejsze niz na planszy bitwy.
+const HEX_SIZE = 22;
+const HEX_WIDTH = Math.sqrt(3) * HEX_SIZE;
+const HEX_HEIGHT = 2 * HEX_SIZE;
+const HEX_CLIP = "polygon(50% 0, 100% 25%, 100% 75%, 50% 100%, 0 75%, 0 25%)";
+
+// Kolory terenu w edytorze.
+const TERRAIN_COLORS: Record<TerrainType, string> = {
+  plain: "#65a30d",
+  road: "#a8a29e",
+  forest: "#166534",
+  hill: "#a16207",
+  city: "#64748b",
+  swamp: "#3f6212",
+  ford: "#38bdf8",
+  bridge: "#b45309",
+  water: "#0284c7",
+};
+
+// Kolory stref rozstawienia wg kolejnosci gracza.
+const ZONE_COLORS = ["#ef4444", "#3b82f6"];
+
+// Narzedzie pedzla: teren, przelaczanie przejezdnosci, koszt ruchu, strefa rozstawienia, cel.
+type Tool =
+  | { kind: "terrain"; terrain: TerrainType }
+  | { kind: "passable" }
+  | { kind: "cost"; value: number }
+  | { kind: "zone"; seat: number | null }
+  | { kind: "objective"; value: number };
+
+function applyTool(scenario: Scenario, coords: HexCoords, tool: Tool): Scenario {
+  const tile = scenario.tiles.find((t) => t.q === coords.q && t.r === coords.r);
+  if (!tile) return scenario;
+  switch (tool.kind) {
+    case "terrain":
+      return paintTerrain(scenario, coords, tool.terrain);
+    case "passable":
+      return updateScenarioTile(scenario, coords, { passable: !tile.passable });
+    case "cost":
+      return updateScenarioTile(scenario, coords, { movementCost: tool.value });
+    case "zone":
+      return updateScenarioTile(scenario, coords, { deploymentZone: tool.seat ?? undefined });
+    case "objective":
+      return updateScenarioTile(scenario, coords, { objective: tool.value > 0 ? tool.value : undefined });
+  }
+}
+
+export default function ScenarioEditor() {
+  const [scenario, setScenario] = useState<Scenario>(() => createScenario("New scenario", 12, 8));
+  const [tool, setTool] = useState<Tool>({ kind: "terrain", terrain: "forest" });
+  const [costValue, setCostValue] = useState(2);
+  const [objectiveValue, setObjectiveValue] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  // Malowanie przeciaganiem: wcisniety przycisk myszy (przelaczanie przejezdnosci tylko klikiem).
+  const isPainting = useRef(false);
+
+  const layout = useMemo(() => {
+    const centers = scenario.tiles.map((tile) => ({ tile, ...hexToPixel(tile, HEX_SIZE) }));
+    const minX = Math.min(...centers.map((c) => c.x));
+    const maxX = Math.max(...centers.map((c) => c.x));
+    const minY = Math.min(...centers.map((c) => c.y));
+    const maxY = Math.max(...centers.map((c) => c.y));
+    return {
+      cells: centers.map((c) => ({ tile: c.tile, left: c.x - minX, top: c.y - minY })),
+      width: maxX - minX + HEX_WIDTH,
+      height: maxY - minY + HEX_HEIGHT,
+    };
+  }, [scenario.tiles]);
+
+  // Podsumowanie: liczba pol w strefach obu stron i suma wartosci celow.
+  const summary = useMemo(() => {
+    const zones = [0, 1].map((seat) => scenario.tiles.filter((t) => t.deploymentZone === seat).length);
+    const objectives = scenario.tiles.filter((t) => (t.objective ?? 0) > 0);
+    return { zones, objectives: objectives.length };
+  }, [scenario.tiles]);
+
+  function paint(tile: HexTileState, dragging: boolean) {
+    if (dragging && (!isPainting.current || tool.kind === "passable")) return;
+    setScenario((prev) => applyTool(prev, tile, tool));
+  }
+
+  function handleResize(width: number, height: number) {
+    if (!Number.isFinite(width) || !Number.isFinite(height)) return;
+    setScenario((prev) => resizeScenario(prev, width, height));
+  }
+
+  function handleSave() {
+    const blob = new Blob([serializeScenario(scenario)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${scenario.name.trim().replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "scenario"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleLoad(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setScenario(parseScenario(await file.text()));
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to read scenario.");
+    }
+  }
+
+  const toolButton = (active: boolean) =>
+    `rounded px-2 py-1 text-xs font-semibold ${
+      active ? "bg-emerald-600 text-white" : "bg-slate-800 text-slate-200 hover:bg-slate-700"
+    }`;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[280px,1fr]">
+      <div className="space-y-4">
+        {/* Nazwa i rozmiar mapy */}
+        <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 space-y-2">
+          <label className="block text-xs text-slate-300">
+            Name
+            <input
+              value={scenario.name}
+              onChange={(e) => setScenario((prev) => ({ ...prev, name: e.target.value }))}
+              className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs text-slate-300">
+              Width
+              <input
+                type="number"
+                min={MIN_SCENARIO_SIZE}
+                max={MAX_SCENARIO_SIZE}
+                value={scenario.width}
+                onChange={(e) => handleResize(Number(e.target.value), scenario.height)}
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+              />
+            </label>
+            <label className="block text-xs text-slate-300">
+              Height
+              <input
+                type="number"
+                min={MIN_SCENARIO_SIZE}
+                max={MAX_SCENARIO_SIZE}
+                value={scenario.height}
+                onChange={(e) => handleResize(scenario.width, Number(e.target.value))}
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Pedzle */}
+        <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 space-y-3">
+          <div>
+            <div className="text-xs text-slate-400 mb-1">Terrain</div>
+            <div className="flex flex-wrap gap-1">
+              {TERRAIN_TYPES.map((terrain) => (
+                <button
+                  key={terrain}
+                  type="button"
+                  onClick={() => setTool({ kind: "terrain", terrain })}
+                  className={toolButton(tool.kind === "terrain" && tool.terrain === terrain)}
+                >
+                  <span
+                    className="mr-1 inline-block h-2 w-2 rounded-full"
+                    style={{ backgroundColor: TERRAIN_COLORS[terrain] }}
+                  />
+                  {terrain}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              type="button"
+              onClick={() => setTool({ kind: "passable" })}
+              className={toolButton(tool.kind === "passable")}
+            >
+              Toggle passable
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setTool({ kind: "cost", value: costValue })}
+              className={toolButton(tool.kind === "cost")}
+            >
+              Movement cost
+            </button>
+            <input
+              type="number"
+              min={1}
+              value={costValue}
+              onChange={(e) => {
+                const value = Math.max(1, Number(e.target.value) || 1);
+                setCostValue(value);
+                setTool({ kind: "cost", value });
+              }}
+              className="w-16 rounded border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-100"
+            />
+          </div>
+          <div>
+            <div className="text-xs text-slate-400 mb-1">Deployment zone</div>
+            <div className="flex flex-wrap gap-1">
+              {[0, 1].map((seat) => (
+                <button
+                  key={seat}
+                  type="button"
+                  onClick={() => setTool({ kind: "zone", seat })}
+                  className={toolButton(tool.kind === "zone" && tool.seat === seat)}
+                >
+                  Player {seat + 1} ({summary.zones[seat]})
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setTool({ kind: "zone", seat: null })}
+                className={toolButton(tool.kind === "zone" && tool.seat === null)}
+              >
+                Clear zone
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setTool({ kind: "objective", value: objectiveValue })}
+              className={toolButton(tool.kind === "objective")}
+            >
+              Objective
+            </button>
+            <input
+              type="number"
+              min={0}
+              value={objectiveValue}
+              onChange={(e) => {
+                const value = Math.max(0, Number(e.target.value) || 0);
+                setObjectiveValue(value);
+                setTool({ kind: "objective", value });
+              }}
+              className="w-16 rounded border border-slate-700 bg-slate-800 px-2 py-1 text-xs text-slate-100"
+            />
+            <span className="text-[11px] text-slate-400">VP (0 clears)</span>
+          </div>
+          <p className="text-[11px] text-slate-400">
+            Without zones players deploy in the first 3 columns from their edge; cities count as
+            objectives unless set otherwise. Objectives on the map: {summary.objectives}.
+          </p>
+        </div>
+
+        {/* Zapis i odczyt pliku scenariusza */}
+        <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4 space-y-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            className="w-full rounded-lg bg-emerald-600 hover:bg-emerald-500 py-2 text-sm font-semibold text-white"
+          >
+            Save scenario JSON
+          </button>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => void handleLoad(e)}
+            className="block w-full text-xs text-slate-300 file:mr-2 file:rounded file:border-0 file:bg-slate-700 file:px-2 file:py-1 file:text-slate-100"
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+
+      {/* Mapa: klik lub przeciaganie maluje wybranym narzedziem */}
+      <div
+        className="overflow-auto rounded-xl border border-slate-800 bg-slate-950/60 p-4"
+        onMouseLeave={() => (isPainting.current = false)}
+        onMouseUp={() => (isPainting.current = false)}
+      >
+        <div className="relative select-none" style={{ width: layout.width, height: layout.height }}>
+          {layout.cells.map(({ tile, left, top }) => {
+            const zoneColor = tile.deploymentZone != null ? ZONE_COLORS[tile.deploymentZone] : undefined;
+            return (
+              <div
+                key={`${tile.q},${tile.r}`}
+                onMouseDown={() => {
+                  isPainting.current = true;
+                  paint(tile, false);
+                }}
+                onMouseEnter={() => paint(tile, true)}
+                title={`q=${tile.q}, r=${tile.r}, ${tile.terrain}, cost ${tile.movementCost}${
+                  tile.passable ? "" : ", impassable"
+                }`}
+                className="absolute cursor-pointer"
+                style={{ left, top, width: HEX_WIDTH, height: HEX_HEIGHT }}
+              >
+                <div
+                  className={`absolute inset-[1px] flex flex-col items-center justify-center text-[9px] leading-tight text-white ${
+                    tile.passable ? "" : "opacity-50"
+                  }`}
+                  style={{
+                    backgroundColor: TERRAIN_COLORS[tile.terrain],
+                    boxShadow: zoneColor ? `inset 0 0 0 4px ${zoneColor}` : undefined,
+                    clipPath: HEX_CLIP,
+                  }}
+                >
+                  {(tile.objective ?? 0) > 0 && <span className="font-bold">⚑{tile.objective}</span>}
+                  <span>{tile.passable ? tile.movementCost : "X"}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
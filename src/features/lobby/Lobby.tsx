@@ -0,0 +1,310 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/features/auth/AuthProvider";
+import type { VictoryMode } from "@/shared/game";
+import {
+  DEFAULT_LOBBY_SETTINGS,
+  MIN_LOBBY_BUDGET,
+  canJoinLobbyGame,
+  canMarkReady,
+  lobbySeat,
+  lobbyStatusLabel,
+  normalizeLobbySettings,
+  postLobbyAction,
+} from "@/shared/lobby";
+import type { LobbyGame, LobbySettings } from "@/shared/lobby";
+import { MAP_PRESETS, generatePresetBoard } from "@/shared/mapGenerator";
+import type { MapPresetId } from "@/shared/mapGenerator";
+import { VICTORY_MODES, VICTORY_MODE_LABELS, hasTurnLimit } from "@/shared/rules";
+import { scenarioFromBoard } from "@/shared/scenario";
+
+// Co ile odswiezamy liste gier (dolaczenie przeciwnika, jego armia i gotowosc).
+const LOBBY_POLL_MS = 3000;
+
+export default function Lobby() {
+  const router = useRouter();
+  const { user, isReady, authFetch } = useAuth();
+  const [games, setGames] = useState<LobbyGame[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  // Formularz nowej gry: nazwa i ustawienia (mapa, budzet, tryb zwyciestwa, mgla wojny, reguly).
+  const [name, setName] = useState("");
+  const [settings, setSettings] = useState<LobbySettings>(DEFAULT_LOBBY_SETTINGS);
+
+  // Pobranie listy gier lobby.
+  const loadGames = useCallback(async () => {
+    const res = await authFetch("/lobby/games", { cache: "no-store" });
+    if (!res.ok) {
+      throw new Error(`Failed to load lobby. Status: ${res.status}`);
+    }
+    const data = (await res.json()) as LobbyGame[];
+    setGames(data.map((g) => ({ ...g, settings: normalizeLobbySettings(g.settings) })));
+  }, [authFetch]);
+
+  // Lista gier na starcie i cyklicznie, dopoki jestesmy na stronie.
+  useEffect(() => {
+    if (!isReady || !user) return;
+    let isMounted = true;
+    const refresh = () =>
+      loadGames()
+        .then(() => isMounted && setError(null))
+        .catch((e: unknown) => isMounted && setError(e instanceof Error ? e.message : "Failed to load lobby."))
+        .finally(() => isMounted && setIsLoading(false));
+    void refresh();
+    const timer = setInterval(() => void refresh(), LOBBY_POLL_MS);
+    return () => {
+      isMounted = false;
+      clearInterval(timer);
+    };
+  }, [isReady, loadGames, user]);
+
+  // Wspolna obsluga akcji lobby: POST, podmiana gry na liscie, komunikat bledu.
+  async function postLobby(path: string, body: unknown, failure: string): Promise<LobbyGame | null> {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const game = await postLobbyAction(authFetch, path, body, failure);
+      setGames((prev) => [game, ...prev.filter((g) => g.lobbyId !== game.lobbyId)]);
+      return game;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : failure);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  // Nowa gra; mapa z generatora powstaje od razu, zeby obaj gracze dostali te sama plansze.
+  async function handleCreate() {
+    const scenario =
+      settings.map === "default"
+        ? undefined
+        : scenarioFromBoard(MAP_PRESETS[settings.map].label, generatePresetBoard(settings.map, settings.seed));
+    await postLobby(
+      "/lobby/games",
+      { name: name.trim() || `${user?.displayName ?? "Player"}'s game`, settings: { ...settings, scenario } },
+      "Failed to create game."
+    );
+    setName("");
+  }
+
+  function openArmyBuilder(game: LobbyGame) {
+    router.push(`/army?lobbyId=${encodeURIComponent(game.lobbyId)}`);
+  }
+
+  // Wejscie na plansze wystartowanej gry (stan gry pobierze ekran planszy).
+  function openBoard(game: LobbyGame) {
+    if (!game.gameId || !user) return;
+    sessionStorage.setItem("currentGameId", game.gameId);
+    sessionStorage.setItem("localPlayerId", String(user.id));
+    sessionStorage.removeItem("currentGameState");
+    router.push(`/board?gameId=${game.gameId}`);
+  }
+
+  if (!isReady) {
+    return <p className="text-sm text-slate-300">Checking login status...</p>;
+  }
+  if (!user) {
+    return <p className="text-sm text-slate-300">Log in to create or join player-vs-player games.</p>;
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr,2fr]">
+      {/* Formularz nowej gry */}
+      <div className="space-y-2 rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+        <h2 className="text-lg font-semibold text-white">Create game</h2>
+        <label className="block text-xs text-slate-300">
+          Name
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`${user.displayName}'s game`}
+            className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+          />
+        </label>
+        <div className="flex gap-2">
+          <label className="block flex-1 text-xs text-slate-300">
+            Map
+            <select
+              value={settings.map}
+              onChange={(e) => setSettings((prev) => ({ ...prev, map: e.target.value as MapPresetId | "default" }))}
+              className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+            >
+              <option value="default">Server map</option>
+              {(Object.keys(MAP_PRESETS) as MapPresetId[]).map((id) => (
+                <option key={id} value={id}>
+                  {MAP_PRESETS[id].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {settings.map !== "default" && (
+            <label className="block w-20 text-xs text-slate-300">
+              Seed
+              <input
+                type="number"
+                value={settings.seed}
+                onChange={(e) => setSettings((prev) => ({ ...prev, seed: Math.floor(Number(e.target.value) || 0) }))}
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+              />
+            </label>
+          )}
+        </div>
+        <label className="block text-xs text-slate-300">
+          Budget per player
+          <input
+            type="number"
+            min={MIN_LOBBY_BUDGET}
+            step={50}
+            value={settings.budget}
+            onChange={(e) =>
+              setSettings((prev) => ({ ...prev, budget: Math.max(MIN_LOBBY_BUDGET, Number(e.target.value) || 0) }))
+            }
+            className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+          />
+        </label>
+        <div className="flex gap-2">
+          <label className="block flex-1 text-xs text-slate-300">
+            Victory mode
+            <select
+              value={settings.victory.mode}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, victory: { ...prev.victory, mode: e.target.value as VictoryMode } }))
+              }
+              className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+            >
+              {VICTORY_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {VICTORY_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {hasTurnLimit(settings.victory) && (
+            <label className="block w-20 text-xs text-slate-300">
+              Rounds
+              <input
+                type="number"
+                min={1}
+                value={settings.victory.turnLimit}
+                onChange={(e) =>
+                  setSettings((prev) => ({
+                    ...prev,
+                    victory: { ...prev.victory, turnLimit: Math.max(1, Number(e.target.value) || 1) },
+                  }))
+                }
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+              />
+            </label>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={settings.fogOfWar}
+            onChange={(e) => setSettings((prev) => ({ ...prev, fogOfWar: e.target.checked }))}
+          />
+          Fog of war
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={settings.cavalryIgnoresZoc}
+            onChange={(e) => setSettings((prev) => ({ ...prev, cavalryIgnoresZoc: e.target.checked }))}
+          />
+          Cavalry ignores enemy zones of control
+        </label>
+        <button
+          type="button"
+          onClick={() => void handleCreate()}
+          disabled={isBusy}
+          className="w-full rounded-lg bg-emerald-600 hover:bg-emerald-500 py-2 text-sm font-semibold text-white disabled:opacity-50"
+        >
+          Create game
+        </button>
+      </div>
+
+      {/* Lista gier: dolaczanie, armia, gotowosc i wejscie na plansze */}
+      <div className="space-y-2 rounded-xl border border-slate-800 bg-slate-900/60 p-4">
+        <h2 className="text-lg font-semibold text-white">Games</h2>
+        {isLoading && <p className="text-sm text-slate-300">Loading games...</p>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!isLoading && games.length === 0 && (
+          <p className="text-sm text-slate-400">No open games yet. Create one and wait for an opponent.</p>
+        )}
+        {games.map((game) => {
+          const seat = lobbySeat(game, user.id);
+          return (
+            <div key={game.lobbyId} className="rounded-lg border border-slate-800 bg-slate-800/40 px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-semibold text-slate-100">{game.name}</div>
+                <div className="text-xs text-slate-300">{lobbyStatusLabel(game, user.id)}</div>
+              </div>
+              <div className="text-xs text-slate-400">
+                {game.settings.map === "default" ? "Server map" : MAP_PRESETS[game.settings.map].label} | Budget{" "}
+                {game.settings.budget} | {VICTORY_MODE_LABELS[game.settings.victory.mode]}
+                {hasTurnLimit(game.settings.victory) ? ` (${game.settings.victory.turnLimit} rounds)` : ""}
+                {game.settings.fogOfWar ? " | Fog of war" : ""}
+                {game.settings.cavalryIgnoresZoc ? " | Cavalry ignores ZOC" : ""}
+              </div>
+              <ul className="text-xs text-slate-300">
+                {game.seats.map((s) => (
+                  <li key={s.playerId}>
+                    {s.name}: {s.armyReady ? "army ready" : "building army"}
+                    {s.ready ? ", ready" : ""}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap gap-2 pt-1">
+                {canJoinLobbyGame(game, user.id) && (
+                  <button
+                    type="button"
+                    onClick={() => void postLobby(`/lobby/games/${game.lobbyId}/join`, {}, "Failed to join game.")}
+                    disabled={isBusy}
+                    className="rounded bg-emerald-700 px-2 py-1 text-xs text-white hover:bg-emerald-600 disabled:opacity-50"
+                  >
+                    Join
+                  </button>
+                )}
+                {seat && game.status !== "started" && (
+                  <button
+                    type="button"
+                    onClick={() => openArmyBuilder(game)}
+                    disabled={isBusy || seat.ready}
+                    className="rounded bg-slate-700 px-2 py-1 text-xs text-slate-100 hover:bg-slate-600 disabled:opacity-50"
+                  >
+                    {seat.armyReady ? "Edit army" : "Build army"}
+                  </button>
+                )}
+                {seat && game.status !== "started" && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      void postLobby(`/lobby/games/${game.lobbyId}/ready`, { ready: !seat.ready }, "Failed to update ready check.")
+                    }
+                    disabled={isBusy || !canMarkReady(game, user.id)}
+                    className="rounded border border-emerald-500/60 px-2 py-1 text-xs text-emerald-200 hover:bg-emerald-600/20 disabled:opacity-50"
+                  >
+                    {seat.ready ? "Not ready" : "Ready"}
+                  </button>
+                )}
+                {seat && game.status === "started" && game.gameId && (
+                  <button
+                    type="button"
+                    onClick={() => openBoard(game)}
+                    className="rounded bg-emerald-600 px-2 py-1 text-xs font-semibold text-white hover:bg-emerald-500"
+                  >
+                    Go to board
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,20 @@
 
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
+import type { ChangeEvent } from "react";
 import { useAuth } from "@/features/auth/AuthProvider";
+import type { VictoryMode, VictorySettings } from "@/shared/game";
+import { MAP_PRESETS, generatePresetBoard } from "@/shared/mapGenerator";
+import type { MapPresetId } from "@/shared/mapGenerator";
 import type { Player } from "@/shared/player";
+import {
+  DEFAULT_VICTORY_SETTINGS,
+  VICTORY_MODES,
+  VICTORY_MODE_LABELS,
+  hasTurnLimit,
+} from "@/shared/rules";
+import { parseScenario, scenarioFromBoard } from "@/shared/scenario";
+import type { Scenario } from "@/shared/scenario";
 
 export default function NewGameForm() {
   const router = useRouter(); // useRouter: hook Next.js do client-side nawigacji (router.push/replace itp.)
@@ -12,6 +24,18 @@ export default function NewGameForm() {
   const [player, setPlayer] = useState<Player | null>(null);
   const [error, setError] = useState<string | null>(null); // useState dla error: trzyma tresc ostatniego bledu (null = brak bledu), setError nadpisuje ja po nieudanym fetchu
   const [isLoading, setIsLoading] = useState(true); // isLoading: flaga informujaca UI o trwajacym fetchu; true podczas pobierania danych gracza
+  // Warunki zwyciestwa nowej gry; trafiaja do GameState przy jej tworzeniu (ekran /army).
+  const [victory, setVictory] = useState<VictorySettings>(DEFAULT_VICTORY_SETTINGS);
+  // Mgla wojny w nowej grze (ustawienie gry, nie do zmiany w trakcie bitwy).
+  const [fogOfWar, setFogOfWar] = useState(true);
+  // Opcjonalna regula: kawaleria ignoruje strefy kontroli wroga (tez zapisywana w stanie gry).
+  const [cavalryIgnoresZoc, setCavalryIgnoresZoc] = useState(false);
+  // Opcjonalny scenariusz (mapa z /editor) wczytany z pliku JSON; brak = mapa z backendu.
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  // Parametry generatora map: preset i ziarno (ten sam seed = ta sama mapa).
+  const [preset, setPreset] = useState<MapPresetId>("river-crossing");
+  const [seed, setSeed] = useState(1);
 
   useEffect(() => {
     // Czekamy az provider auth sie zainicjuje; bez tego user moze byc tymczasowo nullem.
@@ -43,6 +67,39 @@ export default function NewGameForm() {
     void loadPlayer();
   }, [authFetch, isReady, user]);
 
+  // Wczytanie pliku scenariusza; bledny plik zostawia poprzedni wybor.
+  async function handleScenarioFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setScenario(parseScenario(await file.text()));
+      setScenarioError(null);
+    } catch (err: unknown) {
+      setScenarioError(err instanceof Error ? err.message : "Failed to read scenario.");
+    }
+  }
+
+  // Mapa z generatora jako scenariusz (dalej ta sama sciezka co plik z edytora).
+  function handleGenerateMap() {
+    const board = generatePresetBoard(preset, seed);
+    setScenario(scenarioFromBoard(`${MAP_PRESETS[preset].label} #${seed}`, board));
+    setScenarioError(null);
+  }
+
+  // Zapamietujemy wybrane warunki zwyciestwa, mgle wojny, reguly i scenariusz, po czym przechodzimy do budowy armii.
+  function handleBuildArmy() {
+    sessionStorage.setItem("newGameVictory", JSON.stringify(victory));
+    sessionStorage.setItem("newGameFogOfWar", String(fogOfWar));
+    sessionStorage.setItem("newGameCavalryIgnoresZoc", String(cavalryIgnoresZoc));
+    if (scenario) {
+      sessionStorage.setItem("newGameScenario", JSON.stringify(scenario));
+    } else {
+      sessionStorage.removeItem("newGameScenario");
+    }
+    router.push("/army");
+  }
+
   // W trakcie inicjalizacji auth pokazujemy info diagnostyczne.
   if (!isReady) {
     return <p className="text-sm text-slate-300">Checking login status...</p>;
@@ -99,13 +156,125 @@ export default function NewGameForm() {
             </div>
             <div className="text-sm text-slate-200">Budget: {player.budget}</div>
           </div>
+          {/* Warunki zwyciestwa zapisywane w stanie gry (nie do zmiany po starcie) */}
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className="block text-xs text-slate-300">
+              Victory mode
+              <select
+                value={victory.mode}
+                onChange={(e) => setVictory((prev) => ({ ...prev, mode: e.target.value as VictoryMode }))}
+                className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+              >
+                {VICTORY_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {VICTORY_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {hasTurnLimit(victory) && (
+              <label className="block text-xs text-slate-300">
+                Number of rounds (player+enemy)
+                <input
+                  type="number"
+                  min={1}
+                  value={victory.turnLimit}
+                  onChange={(e) =>
+                    setVictory((prev) => ({ ...prev, turnLimit: Math.max(1, Number(e.target.value) || 1) }))
+                  }
+                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-xs text-slate-300 sm:col-span-2">
+              <input type="checkbox" checked={fogOfWar} onChange={(e) => setFogOfWar(e.target.checked)} />
+              Fog of war (enemies are visible only within your units&apos; sight)
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-300 sm:col-span-2">
+              <input
+                type="checkbox"
+                checked={cavalryIgnoresZoc}
+                onChange={(e) => setCavalryIgnoresZoc(e.target.checked)}
+              />
+              Cavalry ignores enemy zones of control
+            </label>
+          </div>
+          {/* Mapa ze scenariusza (plik JSON z edytora) zamiast mapy backendu */}
+          <div className="rounded-lg border border-slate-800 bg-slate-800/40 px-3 py-2 space-y-1">
+            <div className="flex items-center justify-between text-xs text-slate-300">
+              <span>
+                Map:{" "}
+                <span className="font-semibold text-slate-100">
+                  {scenario ? `${scenario.name} (${scenario.width}x${scenario.height})` : "default"}
+                </span>
+              </span>
+              {scenario && (
+                <button
+                  type="button"
+                  onClick={() => setScenario(null)}
+                  className="text-slate-400 hover:text-slate-100"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => void handleScenarioFile(e)}
+              className="block w-full text-xs text-slate-300 file:mr-2 file:rounded file:border-0 file:bg-slate-700 file:px-2 file:py-1 file:text-slate-100"
+            />
+            {scenarioError && <p className="text-xs text-red-400">{scenarioError}</p>}
+            {/* Generator map: preset + seed */}
+            <div className="flex items-end gap-2 pt-1">
+              <label className="block flex-1 text-xs text-slate-300">
+                Generated map
+                <select
+                  value={preset}
+                  onChange={(e) => setPreset(e.target.value as MapPresetId)}
+                  title={MAP_PRESETS[preset].description}
+                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+                >
+                  {(Object.keys(MAP_PRESETS) as MapPresetId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {MAP_PRESETS[id].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block w-20 text-xs text-slate-300">
+                Seed
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(Math.floor(Number(e.target.value) || 0))}
+                  className="mt-1 w-full rounded border border-slate-700 bg-slate-800 px-2 py-1 text-sm text-slate-100"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={handleGenerateMap}
+                className="rounded bg-slate-700 px-2 py-1 text-sm text-slate-100 hover:bg-slate-600"
+              >
+                Generate
+              </button>
+            </div>
+          </div>
           <button
             type="button"
-            onClick={() => router.push("/army")}
+            onClick={handleBuildArmy}
             className="w-full rounded-lg bg-emerald-600 hover:bg-emerald-500 py-2 text-sm font-semibold text-white"
           >
             Build army
           </button>
+          {/* Gra z drugim graczem: ustawienia i armie obu stron w lobby */}
+          <button
+            type="button"
+            onClick={() => router.push("/lobby")}
+            className="w-full rounded-lg border border-emerald-500/60 py-2 text-sm font-semibold text-emerald-200 hover:bg-emerald-600/20"
+          >
+            Play against a player (lobby)
+          </button>
         </div>
       )}
     </div>
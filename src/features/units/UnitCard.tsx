@@ -1,3 +1,4 @@
+import { ABILITY_HANDLERS, unitAbilities } from "@/shared/rules";
 import { UnitDto } from "@/shared/unit";
 import Image from "next/image";
 
@@ -18,6 +19,9 @@ export default function UnitCard({ unit }: UnitCardProps) {
         { label: "Cost", value: unit.cost },
         ];
 
+    // Zdolnosci specjalne z opisem w podpowiedzi.
+    const abilities = unitAbilities(unit);
+
     return <div className="rounded-2xl border border-slate-700 bg-slate-800/60 p-4 flex flex-col gap-3">
         <Image
             src={iconPath}
@@ -35,6 +39,19 @@ export default function UnitCard({ unit }: UnitCardProps) {
             </div>
         ))}
         </dl>
+        {abilities.length > 0 && (
+            <ul className="flex flex-wrap gap-1">
+            {abilities.map((ability) => (
+                <li
+                key={ability}
+                title={ABILITY_HANDLERS[ability].description}
+                className="cursor-help rounded bg-slate-700 px-2 py-0.5 text-xs text-slate-200"
+                >
+                {ABILITY_HANDLERS[ability].label}
+                </li>
+            ))}
+            </ul>
+        )}
 
     </div>
 };
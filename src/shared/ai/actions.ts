@@ -0,0 +1,50 @@
+// Lista legalnych akcji gracza: kandydaci (ruchy, ataki, zbiorka, przodkowanie) sprawdzeni w silniku zasad.
+import type { ApplyActionDto, GameState, UnitOnBoardState } from "../game";
+import { parseHexKey } from "../hex";
+import {
+  applyAction,
+  isAlive,
+  reachableTiles,
+  readNumber,
+  targetableUnits,
+  unitTemplate,
+} from "../rules";
+import type { RulesContext } from "../rules";
+import type { LegalAction } from "./types";
+
+// Id jednostki w payloadzie jak w akcjach gracza (liczba, jesli id jest liczbowe).
+export function payloadUnitId(unit: UnitOnBoardState): string | number {
+  return readNumber(unit.unitId) ?? unit.unitId;
+}
+
+function candidates(state: GameState, unit: UnitOnBoardState, ctx: RulesContext): ApplyActionDto[] {
+  const playerId = unit.ownerPlayerId;
+  const unitId = payloadUnitId(unit);
+  if (unit.routed) return [{ type: "RALLY", playerId, payload: { unitId } }];
+
+  const actions: ApplyActionDto[] = [];
+  if (!unit.hasActed) {
+    targetableUnits(state, unit, ctx).forEach((target) =>
+      actions.push({ type: "ATTACK", playerId, payload: { unitId, targetUnitId: payloadUnitId(target) } })
+    );
+  }
+  reachableTiles(state, unit, ctx).costs.forEach((cost, key) => {
+    if (cost > 0) actions.push({ type: "MOVE", playerId, payload: { unitId, ...parseHexKey(key) } });
+  });
+  if (unitTemplate(ctx, unit).limberRequired) {
+    actions.push({ type: unit.unlimbered ? "LIMBER" : "UNLIMBER", playerId, payload: { unitId } });
+  }
+  return actions;
+}
+
+// Wszystkie akcje jednostek gracza, ktore silnik zasad przyjmuje w tym stanie (bez END_TURN).
+export function legalActions(state: GameState, playerId: number, ctx: RulesContext): LegalAction[] {
+  if (state.status === "finished" || state.currentPlayerId !== playerId) return [];
+  return state.units
+    .filter((u) => u.ownerPlayerId === playerId && isAlive(u))
+    .flatMap((unit) => candidates(state, unit, ctx))
+    .flatMap((action) => {
+      const result = applyAction(state, action, ctx);
+      return result.ok ? [{ action, state: result.state, events: result.events }] : [];
+    });
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { hexDistance } from "../hex";
+import { applyAction, deploymentZone, findUnit } from "../rules";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeTiles, makeUnit } from "../rules/fixtures";
+import { AI_STRATEGIES, evaluateState, legalActions, planDeployment, planTurn } from "./index";
+import type { AiDifficulty } from "./index";
+
+describe("ai", () => {
+  const skirmish = () =>
+    makeState({
+      units: [
+        makeUnit({ unitId: "1", template: "light-cavalry", q: 0, r: 2 }),
+        makeUnit({ unitId: "2", q: 3, r: 2, ownerPlayerId: PLAYER_B, currentHP: 3 }),
+        makeUnit({ unitId: "3", q: 5, r: 5, ownerPlayerId: PLAYER_B }),
+      ],
+    });
+
+  it("lists only actions the rules engine accepts", () => {
+    const state = skirmish();
+    const options = legalActions(state, PLAYER_A, ctx);
+    expect(options.length).toBeGreaterThan(0);
+    options.forEach((option) => expect(applyAction(state, option.action, ctx).ok).toBe(true));
+    expect(legalActions(state, PLAYER_B, ctx)).toEqual([]);
+  });
+
+  it("scores material and distance from the player's point of view", () => {
+    const state = skirmish();
+    expect(evaluateState(state, PLAYER_A, ctx)).toBeLessThan(evaluateState(state, PLAYER_B, ctx));
+    const finished = { ...state, status: "finished" as const, outcome: { winner: PLAYER_A, reason: "Test", points: {} } };
+    expect(evaluateState(finished, PLAYER_A, ctx)).toBeGreaterThan(evaluateState(state, PLAYER_A, ctx));
+  });
+
+  it("focuses the greedy attack on the weakest target in reach", () => {
+    const state = makeState({
+      units: [
+        makeUnit({ unitId: "1", q: 2, r: 2 }),
+        makeUnit({ unitId: "2", q: 3, r: 2, ownerPlayerId: PLAYER_B }),
+        makeUnit({ unitId: "3", q: 2, r: 3, ownerPlayerId: PLAYER_B, currentHP: 2 }),
+      ],
+    });
+    const choice = AI_STRATEGIES.greedy.chooseAction({
+      state,
+      playerId: PLAYER_A,
+      options: legalActions(state, PLAYER_A, ctx),
+      ctx,
+      random: () => 0,
+    });
+    expect(choice?.action).toMatchObject({ type: "ATTACK", payload: { targetUnitId: 3 } });
+  });
+
+  it.each<AiDifficulty>(["random", "greedy", "twoStep"])(
+    "plans a %s turn that ends with END_TURN",
+    (difficulty) => {
+      const plan = planTurn(skirmish(), PLAYER_A, ctx, { difficulty, seed: 7 });
+      expect(plan.steps.at(-1)?.action.type).toBe("END_TURN");
+      expect(plan.state.currentPlayerId).toBe(PLAYER_B);
+      // Kazdy krok jest legalny w stanie po poprzednim.
+      let state = skirmish();
+      plan.steps.forEach((step) => {
+        const result = applyAction(state, step.action, ctx);
+        expect(result.ok).toBe(true);
+        state = step.state;
+      });
+    }
+  );
+
+  it("repeats the same plan for the same seed", () => {
+    const a = planTurn(skirmish(), PLAYER_A, ctx, { difficulty: "random", seed: 3 });
+    const b = planTurn(skirmish(), PLAYER_A, ctx, { difficulty: "random", seed: 3 });
+    expect(a.steps.map((s) => s.action)).toEqual(b.steps.map((s) => s.action));
+  });
+
+  it("deploys a different army inside its own map-defined zone", () => {
+    // Strefa drugiego gracza (seat 1) to dwie kolumny przy prawej krawedzi, a nie domyslne 3 kolumny.
+    const zone: Record<string, { deploymentZone: number }> = {};
+    for (let r = 0; r < 6; r++) {
+      zone[`4,${r}`] = { deploymentZone: 1 };
+      zone[`5,${r}`] = { deploymentZone: 1 };
+      zone[`0,${r}`] = { deploymentZone: 0 };
+    }
+    const state = makeState({
+      status: "not_started",
+      tiles: makeTiles(6, 6, zone),
+      units: [
+        makeUnit({ unitId: "1", q: 0, r: 2 }),
+        makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, template: "six-pounder-cannon" }),
+        makeUnit({ unitId: "3", ownerPlayerId: PLAYER_B, template: "light-cavalry" }),
+        makeUnit({ unitId: "4", ownerPlayerId: PLAYER_B }),
+      ],
+    });
+    const plan = planDeployment(state, PLAYER_B, ctx, ["2", "3", "4"]);
+    expect(plan.steps).toHaveLength(3);
+
+    const allowed = deploymentZone(state, PLAYER_B);
+    const placed = ["2", "3", "4"].map((id) => findUnit(plan.state, id)!);
+    placed.forEach((u) => expect(allowed.has(`${u.q},${u.r}`)).toBe(true));
+    expect(new Set(placed.map((u) => `${u.q},${u.r}`)).size).toBe(3);
+
+    const [cannon, , infantry] = placed;
+    const enemy = { q: 0, r: 2 };
+    expect(hexDistance(infantry, enemy)).toBeLessThan(hexDistance(cannon, enemy));
+
+    // Faze rozstawienia podaje plansza, nawet gdy backend ma juz status bitwy.
+    const started = { ...state, status: "in_progress" as const };
+    expect(planDeployment(started, PLAYER_B, ctx, ["2", "3", "4"]).steps).toEqual([]);
+    const forced = planDeployment(started, PLAYER_B, ctx, ["2", "3", "4"], true);
+    expect(forced.steps).toHaveLength(3);
+    expect(forced.state.status).toBe("in_progress");
+  });
+
+  it("leaves units without a step when the zone has no free tiles", () => {
+    const tiles = makeTiles(6, 6, { "5,0": { deploymentZone: 1 }, "0,0": { deploymentZone: 0 } });
+    const state = makeState({
+      status: "not_started",
+      tiles,
+      units: [makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B }), makeUnit({ unitId: "3", ownerPlayerId: PLAYER_B })],
+    });
+    expect(planDeployment(state, PLAYER_B, ctx).steps).toHaveLength(1);
+  });
+});
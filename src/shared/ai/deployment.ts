@@ -0,0 +1,111 @@
+// Planer rozstawienia AI: jednostki gracza na polach jego strefy z mapy, wedlug roli -
+// piechota w pierwszej linii posrodku, kawaleria na skrzydlach, artyleria z tylu (najchetniej na wzgorzach).
+import type { GameState, HexTileState, UnitOnBoardState } from "../game";
+import { hexDistance, parseHexKey } from "../hex";
+import {
+  ELEVATED_TERRAIN,
+  applyAction,
+  coordsKey,
+  deploymentZone,
+  homeEdgeQ,
+  isAlive,
+  isDeployment,
+  unitCategory,
+  unitTemplate,
+} from "../rules";
+import type { RulesContext } from "../rules";
+import type { UnitCategory } from "../unit";
+import { payloadUnitId } from "./actions";
+import type { AiPlan, AiStep } from "./types";
+
+// Kolejnosc rozstawiania: najpierw linia frontu, potem dziala za nia, na koncu skrzydla.
+const ROLE_ORDER: UnitCategory[] = ["infantry", "artillery", "cavalry"];
+
+function deploymentRole(unit: UnitOnBoardState, ctx: RulesContext): UnitCategory {
+  return unitCategory(unitTemplate(ctx, unit));
+}
+
+// Ocena pola dla roli (mniej = lepiej); depth = odleglosc od strefy wroga, flank = odleglosc od srodka.
+function tileScore(role: UnitCategory, tile: HexTileState, depth: number, flank: number): number {
+  switch (role) {
+    case "infantry":
+      return depth * 10 + flank;
+    case "cavalry":
+      return depth * 5 - flank * 3;
+    case "artillery":
+      return -depth * 10 + flank + (ELEVATED_TERRAIN.has(tile.terrain) ? -15 : 0);
+  }
+}
+
+// Plan rozstawienia gracza: ruchy MOVE (jak przy recznym rozstawieniu) z przewidzianym stanem.
+// `unitIds` = jednostki do rozstawienia (domyslnie wszystkie zywe jednostki gracza), `deploying` =
+// czy trwa faza rozstawienia (plansza prowadzi ja sama, nawet gdy backend ma juz status bitwy).
+// Przy braku wolnych pol w strefie czesc jednostek zostaje bez ruchu - wywolujacy to sprawdza.
+export function planDeployment(
+  state: GameState,
+  playerId: number,
+  ctx: RulesContext,
+  unitIds?: string[],
+  deploying = isDeployment(state)
+): AiPlan {
+  if (!deploying) return { steps: [], state };
+  const placing = state.units.filter(
+    (u) => u.ownerPlayerId === playerId && isAlive(u) && (!unitIds || unitIds.includes(u.unitId))
+  );
+  const placingIds = new Set(placing.map((u) => u.unitId));
+  const occupied = new Set(
+    state.units.filter((u) => !placingIds.has(u.unitId) && isAlive(u)).map(coordsKey)
+  );
+
+  const zone = deploymentZone(state, playerId);
+  const tiles = state.tiles.filter((t) => t.passable && zone.has(coordsKey(t)) && !occupied.has(coordsKey(t)));
+  const enemyZone = state.players
+    .filter((p) => p.playerId !== playerId)
+    .flatMap((p) => [...deploymentZone(state, p.playerId)].map(parseHexKey));
+  const enemyEdge = state.players.find((p) => p.playerId !== playerId);
+  const depthOf = (tile: HexTileState) =>
+    enemyZone.length
+      ? Math.min(...enemyZone.map((c) => hexDistance(tile, c)))
+      : enemyEdge
+      ? Math.abs(tile.q - homeEdgeQ(state, enemyEdge.playerId))
+      : 0;
+  const rows = tiles.map((t) => t.r);
+  const midR = rows.length ? (Math.min(...rows) + Math.max(...rows)) / 2 : 0;
+  const candidates = tiles.map((tile) => ({ tile, depth: depthOf(tile), flank: Math.abs(tile.r - midR) }));
+
+  const ordered = [...placing].sort(
+    (a, b) =>
+      ROLE_ORDER.indexOf(deploymentRole(a, ctx)) - ROLE_ORDER.indexOf(deploymentRole(b, ctx)) ||
+      a.unitId.localeCompare(b.unitId, undefined, { numeric: true })
+  );
+
+  const taken = new Set<string>();
+  const steps: AiStep[] = [];
+  // Silnik zasad ustawia jednostki (bez limitu ruchu) tylko w fazie rozstawienia, wiec ja symulujemy;
+  // przewidziane stany wracaja ze statusem z wejscia.
+  const withStatus = (next: GameState): GameState => ({ ...next, status: state.status });
+  let current: GameState = isDeployment(state) ? state : { ...state, status: "not_started" };
+  ordered.forEach((unit) => {
+    const role = deploymentRole(unit, ctx);
+    const best = candidates
+      .filter((c) => !taken.has(coordsKey(c.tile)))
+      .sort(
+        (a, b) =>
+          tileScore(role, a.tile, a.depth, a.flank) - tileScore(role, b.tile, b.depth, b.flank) ||
+          a.tile.r - b.tile.r ||
+          a.tile.q - b.tile.q
+      )[0];
+    if (!best) return;
+    const action = {
+      type: "MOVE" as const,
+      playerId,
+      payload: { unitId: payloadUnitId(unit), q: best.tile.q, r: best.tile.r },
+    };
+    const result = applyAction(current, action, ctx);
+    if (!result.ok) return;
+    taken.add(coordsKey(best.tile));
+    steps.push({ action, state: withStatus(result.state), events: result.events });
+    current = result.state;
+  });
+  return { steps, state: withStatus(current) };
+}
@@ -0,0 +1,54 @@
+// Ocena stanu z perspektywy gracza: sila armii, cele, morale, dystans do wroga i wynik gry.
+import type { GameState, UnitOnBoardState } from "../game";
+import { hexDistance } from "../hex";
+import { controlledObjectiveValue, isAlive, unitTemplate } from "../rules";
+import type { RulesContext } from "../rules";
+
+// Wagi skladnikow oceny.
+export const EVALUATION_WEIGHTS = {
+  // Za kazdy punkt wartosci celu kontrolowanego na koniec akcji.
+  objective: 15,
+  // Rozbita jednostka liczy sie jako ulamek swojej wartosci.
+  routedFactor: 0.5,
+  // Kara za kazde pole odleglosci jednostki od najblizszego wroga (zacheca do natarcia).
+  distance: 0.5,
+  win: 100000,
+};
+
+// Wartosc jednostki: koszt (min. 1) przeskalowany przez pozostale HP.
+function unitValue(unit: UnitOnBoardState, ctx: RulesContext): number {
+  const template = unitTemplate(ctx, unit);
+  const health = Math.max(0, unit.currentHP) / Math.max(1, template.maxHp);
+  const value = Math.max(1, template.cost) * health;
+  return unit.routed ? value * EVALUATION_WEIGHTS.routedFactor : value;
+}
+
+export function evaluateState(state: GameState, playerId: number, ctx: RulesContext): number {
+  if (state.outcome) {
+    if (state.outcome.winner === playerId) return EVALUATION_WEIGHTS.win;
+    if (state.outcome.winner !== "draw") return -EVALUATION_WEIGHTS.win;
+  }
+  const alive = state.units.filter(isAlive);
+  const own = alive.filter((u) => u.ownerPlayerId === playerId);
+  const enemies = alive.filter((u) => u.ownerPlayerId !== playerId);
+
+  const material =
+    own.reduce((sum, u) => sum + unitValue(u, ctx), 0) -
+    enemies.reduce((sum, u) => sum + unitValue(u, ctx), 0);
+
+  const control = controlledObjectiveValue(state);
+  const objectives = Object.entries(control).reduce(
+    (sum, [owner, value]) => sum + (Number(owner) === playerId ? value : -value),
+    0
+  );
+
+  const distance = enemies.length
+    ? own.reduce((sum, u) => sum + Math.min(...enemies.map((e) => hexDistance(u, e))), 0)
+    : 0;
+
+  return (
+    material +
+    objectives * EVALUATION_WEIGHTS.objective -
+    distance * EVALUATION_WEIGHTS.distance
+  );
+}
@@ -0,0 +1,7 @@
+// AI przeciwnika po stronie klienta - publiczne API modulu.
+export { legalActions, payloadUnitId } from "./actions";
+export { planDeployment } from "./deployment";
+export { EVALUATION_WEIGHTS, evaluateState } from "./evaluate";
+export { DEFAULT_MAX_AI_ACTIONS, planTurn } from "./plan";
+export { AI_STRATEGIES, TWO_STEP_BEAM } from "./strategies";
+export type { AiDecision, AiDifficulty, AiOptions, AiPlan, AiStep, AiStrategy, LegalAction } from "./types";
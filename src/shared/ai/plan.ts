@@ -0,0 +1,54 @@
+// Planowanie tury AI: strategia wybiera kolejne legalne akcje, a silnik zasad je rozlicza;
+// na koncu END_TURN. Kazdy krok ma akcje gotowa dla backendu i przewidziany stan.
+import type { GameState } from "../game";
+import { createRandom, seedFromString } from "../random";
+import { applyAction, reportedAction, rulesContextFor } from "../rules";
+import type { RulesContext } from "../rules";
+import { legalActions } from "./actions";
+import { AI_STRATEGIES } from "./strategies";
+import type { AiOptions, AiPlan, AiStep } from "./types";
+
+export const DEFAULT_MAX_AI_ACTIONS = 60;
+
+export function planTurn(
+  state: GameState,
+  playerId: number,
+  ctx: RulesContext,
+  options: AiOptions
+): AiPlan {
+  // Opcjonalne reguly bierzemy ze stanu gry, zeby AI liczylo ruchy tak jak plansza i serwer.
+  const rules = rulesContextFor(state, ctx.templates);
+  const strategy = AI_STRATEGIES[options.difficulty];
+  const random = createRandom(
+    options.seed ?? seedFromString(`${state.gameId}:${state.turnNumber}:${playerId}`)
+  );
+  const maxActions = options.maxActions ?? DEFAULT_MAX_AI_ACTIONS;
+  const steps: AiStep[] = [];
+  let current = state;
+
+  while (steps.length < maxActions && current.status !== "finished") {
+    const choice = strategy.chooseAction({
+      state: current,
+      playerId,
+      options: legalActions(current, playerId, rules),
+      ctx: rules,
+      random,
+    });
+    if (!choice) break;
+    steps.push({ ...choice, action: reportedAction(choice.action, choice.events) });
+    current = choice.state;
+  }
+
+  if (current.status !== "finished") {
+    const end = applyAction(current, { type: "END_TURN", playerId }, rules);
+    if (end.ok) {
+      steps.push({
+        action: reportedAction({ type: "END_TURN", playerId }, end.events),
+        state: end.state,
+        events: end.events,
+      });
+      current = end.state;
+    }
+  }
+  return { steps, state: current };
+}
@@ -0,0 +1,111 @@
+// Strategie AI: losowa, zachlanna (skupienie ognia) i dwukrokowa (ocena wlasnej pozycji dwie akcje
+// naprzod; odpowiedzi przeciwnika nie symuluje).
+import type { GameState } from "../game";
+import { hexDistance } from "../hex";
+import { findUnit, isAlive, targetableUnits } from "../rules";
+import type { RulesContext } from "../rules";
+import { legalActions } from "./actions";
+import { evaluateState } from "./evaluate";
+import type { AiDecision, AiDifficulty, AiStrategy, LegalAction } from "./types";
+
+// Ile najlepszych akcji strategia dwukrokowa rozwija o kolejna wlasna akcje.
+export const TWO_STEP_BEAM = 4;
+// Minimalna poprawa oceny, dla ktorej warto wykonac akcje zamiast konczyc ture.
+const MIN_GAIN = 0.01;
+
+function damageTo(option: LegalAction, unitId: string): number {
+  return option.events.reduce(
+    (sum, ev) => (ev.type === "UNIT_DAMAGED" && ev.unitId === unitId ? sum + ev.amount : sum),
+    0
+  );
+}
+
+function nearestEnemyDistance(state: GameState, unitId: string): number {
+  const unit = findUnit(state, unitId);
+  if (!unit) return Infinity;
+  const enemies = state.units.filter((u) => u.ownerPlayerId !== unit.ownerPlayerId && isAlive(u));
+  return enemies.length ? Math.min(...enemies.map((e) => hexDistance(unit, e))) : Infinity;
+}
+
+function canStrikeAfter(option: LegalAction, unitId: string, ctx: RulesContext): boolean {
+  const unit = findUnit(option.state, unitId);
+  return !!unit && targetableUnits(option.state, unit, ctx).length > 0;
+}
+
+// Ocena zachlanna: zbiorka, potem ataki (dobijanie i najslabsze cele), potem zblizanie sie do wroga.
+function greedyScore(option: LegalAction, decision: AiDecision): number {
+  const unitId = String(option.action.payload?.unitId);
+  switch (option.action.type) {
+    case "RALLY":
+      return 1000;
+    case "ATTACK": {
+      const targetId = String(option.action.payload?.targetUnitId);
+      const target = findUnit(option.state, targetId);
+      const destroyed = !!target && !isAlive(target);
+      const remaining = target ? Math.max(0, target.currentHP) : 0;
+      return 100 + damageTo(option, targetId) + (destroyed ? 50 : 0) - remaining * 0.5 - damageTo(option, unitId) * 0.5;
+    }
+    case "UNLIMBER":
+      return canStrikeAfter(option, unitId, decision.ctx) ? 60 : -1;
+    case "MOVE": {
+      const gain =
+        nearestEnemyDistance(decision.state, unitId) - nearestEnemyDistance(option.state, unitId);
+      return (canStrikeAfter(option, unitId, decision.ctx) ? 40 : 0) + gain;
+    }
+    default:
+      return -1;
+  }
+}
+
+function bestBy(
+  options: LegalAction[],
+  score: (option: LegalAction) => number
+): { option: LegalAction; score: number } | null {
+  if (!options.length) return null;
+  let best: { option: LegalAction; score: number } | null = null;
+  for (const option of options) {
+    const value = score(option);
+    if (!best || value > best.score) best = { option, score: value };
+  }
+  return best;
+}
+
+export const AI_STRATEGIES: Record<AiDifficulty, AiStrategy> = {
+  random: {
+    label: "Random",
+    description: "Picks any legal action at random.",
+    chooseAction: ({ options, random }) =>
+      options.length ? options[Math.floor(random() * options.length)] : null,
+  },
+  greedy: {
+    label: "Greedy",
+    description: "Focuses fire on the weakest targets in reach, otherwise advances.",
+    chooseAction: (decision) => {
+      const best = bestBy(decision.options, (option) => greedyScore(option, decision));
+      return best && best.score > 0 ? best.option : null;
+    },
+  },
+  // Przeszukuje tylko wlasne akcje w tej turze: pierwsza akcja i najlepsza kolejna; ruchy
+  // przeciwnika nie sa brane pod uwage.
+  twoStep: {
+    label: "Two-step",
+    description: "Scores its own position two actions ahead (ignoring enemy replies) and plays the best pair.",
+    chooseAction: ({ state, playerId, options, ctx }) => {
+      const base = evaluateState(state, playerId, ctx);
+      const scored = options
+        .map((option) => ({ option, score: evaluateState(option.state, playerId, ctx) }))
+        .sort((a, b) => b.score - a.score);
+      const best = bestBy(
+        scored.slice(0, TWO_STEP_BEAM).map((s) => s.option),
+        (option) => {
+          const first = scored.find((s) => s.option === option)?.score ?? -Infinity;
+          const follow = legalActions(option.state, playerId, ctx).map((next) =>
+            evaluateState(next.state, playerId, ctx)
+          );
+          return Math.max(first, ...follow);
+        }
+      );
+      return best && best.score > base + MIN_GAIN ? best.option : null;
+    },
+  },
+};
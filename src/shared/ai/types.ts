@@ -0,0 +1,49 @@
+// Typy modulu AI: strategie wybierajace kolejne akcje z listy legalnych ruchow.
+import type { ApplyActionDto, GameState } from "../game";
+import type { RuleEvent, RulesContext } from "../rules";
+
+// Poziomy trudnosci (kazdy to osobna strategia).
+export type AiDifficulty = "random" | "greedy" | "twoStep";
+
+// Akcja zaakceptowana przez silnik zasad razem z jej skutkiem.
+export interface LegalAction {
+  action: ApplyActionDto;
+  state: GameState;
+  events: RuleEvent[];
+}
+
+// Wejscie strategii: stan przed akcja, gracz AI, legalne akcje i generator losowy.
+export interface AiDecision {
+  state: GameState;
+  playerId: number;
+  options: LegalAction[];
+  ctx: RulesContext;
+  random: () => number;
+}
+
+export interface AiStrategy {
+  label: string;
+  description: string;
+  // Kolejna akcja albo null = koniec tury.
+  chooseAction(decision: AiDecision): LegalAction | null;
+}
+
+// Krok planu: akcja gotowa do wyslania na backend i stan przewidziany po niej.
+export interface AiStep {
+  action: ApplyActionDto;
+  state: GameState;
+  events: RuleEvent[];
+}
+
+export interface AiPlan {
+  steps: AiStep[];
+  state: GameState;
+}
+
+export interface AiOptions {
+  difficulty: AiDifficulty;
+  // Ziarno losowania; brak = z gameId, rundy i gracza (ta sama tura = ten sam plan).
+  seed?: number;
+  // Limit akcji w turze (zabezpieczenie przed zapetleniem).
+  maxActions?: number;
+}
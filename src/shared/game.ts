@@ -7,7 +7,18 @@ import type { TerrainType } from "./board";
 export type GameStatus = "not_started" | "in_progress" | "finished" | "paused";
 
 // Dozwolone typy akcji, ktore gracz moze wykonac w turze.
-export type GameActionType = "MOVE" | "ATTACK" | "END_TURN";
+export type GameActionType =
+  | "MOVE"
+  | "ATTACK"
+  | "RALLY"
+  | "CHANGE_FORMATION"
+  | "LIMBER"
+  | "UNLIMBER"
+  | "USE_ABILITY"
+  | "END_TURN";
+
+// Szyki piechoty (linia, kolumna marszowa, czworobok).
+export type Formation = "line" | "column" | "square";
 
 // Dowolny ksztalt danych przenoszacych szczegoly akcji.
 // W praktyce to luzny slownik (np. dla MOVE: { unitId, from: {q,r}, to: {q,r} }).
@@ -30,6 +41,48 @@ export interface GameState {
   players: GamePlayerState[];
   units: UnitOnBoardState[];
   tiles: HexTileState[];
+  // Stan generatora losowego walki (mulberry32); brak = walka bez losowosci.
+  rngState?: number;
+  // Kontrola celow ("q,r" -> gracz i runda przejecia) oraz punkty za wczesniej utrzymane cele.
+  objectives?: Record<string, ObjectiveHold>;
+  objectivePoints?: Record<Player["id"], number>;
+  // Warunki zwyciestwa wybrane przy tworzeniu gry (brak = domyslne) i rozstrzygniecie po jej koncu.
+  victory?: VictorySettings;
+  outcome?: VictoryOutcome;
+  // Nazwa scenariusza z edytora, z ktorego pochodzi plansza (brak = mapa backendu).
+  scenario?: string;
+  // Gra offline na jednym ekranie: gracze zmieniaja sie przy komputerze po kazdym END_TURN.
+  hotSeat?: boolean;
+  // Gra dwoch graczy z lobby: tury przeciwnika przychodza z serwera, a nie od AI.
+  pvp?: boolean;
+  // Gracze z lobby, ktorzy zakonczyli rozstawienie (bitwa rusza, gdy serwer potwierdzi obu).
+  deploymentDone?: Player["id"][];
+  // Mgla wojny wybrana przy tworzeniu gry: w trakcie bitwy gracz dostaje tylko widziane jednostki wroga.
+  fogOfWar?: boolean;
+  // Opcjonalna regula wybrana przy tworzeniu gry: kawaleria nie zatrzymuje sie w strefach kontroli.
+  cavalryIgnoresZoc?: boolean;
+}
+
+// Tryb zwyciestwa w grze.
+export type VictoryMode = "points" | "elimination" | "turns" | "objectives";
+
+// Ustawienia warunkow zwyciestwa.
+export interface VictorySettings {
+  mode: VictoryMode;
+  turnLimit: number;
+}
+
+// Rozstrzygniecie gry: zwyciezca (id gracza lub remis), powod i punkty stron.
+export interface VictoryOutcome {
+  winner: Player["id"] | "draw";
+  reason: string;
+  points: Record<Player["id"], number>;
+}
+
+// Kto utrzymuje cel i od ktorej rundy.
+export interface ObjectiveHold {
+  playerId: Player["id"];
+  since: number;
 }
 
 // Minimalny stan dotyczacy gracza bioracego udzial w partii.
@@ -47,6 +100,24 @@ export interface UnitOnBoardState {
   currentHP: number;
   q: number;
   r: number;
+  // Flagi biezacej tury (ruch / atak juz wykonany); czyszczone przy END_TURN.
+  hasMoved?: boolean;
+  hasActed?: boolean;
+  // Kierunek frontu (indeks 0-5 w HEX_DIRECTIONS, 0 = wschod); brak = domyslny dla strony.
+  facing?: number;
+  // Morale 0-100 (brak = pelne) i flaga rozbicia: rozbita jednostka nie atakuje, dopoki sie nie zbierze.
+  morale?: number;
+  routed?: boolean;
+  // Szyk piechoty; brak = linia.
+  formation?: Formation;
+  // Artyleria gotowa do strzalu (odprzodkowana); brak = zaprzodkowana, gotowa do marszu.
+  unlimbered?: boolean;
+  // Pozostala amunicja; brak = pelny zapas.
+  ammo?: number;
+  // Dragoni walczacy pieszo.
+  dismounted?: boolean;
+  // Elitarna jednostka wykorzystala juz odpornosc na pierwsze rozbicie.
+  routResisted?: boolean;
 }
 
 // Stan hexa na planszy (typ terenu, ruchliwosc).
@@ -56,4 +127,8 @@ export interface HexTileState {
   terrain: TerrainType;
   passable: boolean;
   movementCost: number;
+  // Punkty zwyciestwa za ture utrzymania pola (brak = domyslnie tylko miasta).
+  objective?: number;
+  // Strefa rozstawienia: kolejnosc gracza w state.players (brak = domyslne kolumny przy krawedzi).
+  deploymentZone?: number;
 }
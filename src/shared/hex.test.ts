@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  hexDistance,
+  hexLine,
+  hexNeighbors,
+  hexRing,
+  hexRound,
+  hexSpiral,
+  hexToPixel,
+  pixelToHex,
+} from "./hex";
+
+describe("hex geometry", () => {
+  it("returns six neighbours, all at distance one", () => {
+    const center = { q: 2, r: -1 };
+    const neighbors = hexNeighbors(center);
+    expect(neighbors).toHaveLength(6);
+    expect(new Set(neighbors.map((n) => `${n.q},${n.r}`)).size).toBe(6);
+    neighbors.forEach((n) => expect(hexDistance(center, n)).toBe(1));
+  });
+
+  it("measures cube distance including diagonal axial steps", () => {
+    expect(hexDistance({ q: 0, r: 0 }, { q: 3, r: 0 })).toBe(3);
+    expect(hexDistance({ q: 0, r: 0 }, { q: 2, r: -2 })).toBe(2);
+    expect(hexDistance({ q: 0, r: 0 }, { q: 2, r: 2 })).toBe(4);
+  });
+
+  it("builds rings and spirals of the expected size", () => {
+    expect(hexRing({ q: 0, r: 0 }, 0)).toEqual([{ q: 0, r: 0 }]);
+    const ring = hexRing({ q: 1, r: 1 }, 2);
+    expect(ring).toHaveLength(12);
+    ring.forEach((c) => expect(hexDistance({ q: 1, r: 1 }, c)).toBe(2));
+    expect(hexSpiral({ q: 0, r: 0 }, 2)).toHaveLength(19);
+  });
+
+  it("draws contiguous lines between hexes", () => {
+    const line = hexLine({ q: 0, r: 0 }, { q: 4, r: -2 });
+    expect(line).toHaveLength(5);
+    expect(line[0]).toEqual({ q: 0, r: 0 });
+    expect(line[4]).toEqual({ q: 4, r: -2 });
+    for (let i = 1; i < line.length; i++) {
+      expect(hexDistance(line[i - 1], line[i])).toBe(1);
+    }
+  });
+
+  it("rounds fractional coordinates and round-trips pixel positions", () => {
+    expect(hexRound({ q: 0.4, r: 0.4 })).toEqual({ q: 0, r: 1 });
+    const c = { q: -3, r: 5 };
+    expect(pixelToHex(hexToPixel(c, 28), 28)).toEqual(c);
+  });
+});
@@ -0,0 +1,159 @@
+// Geometria heksow we wspolrzednych axial (q, r); trzecia os cube to s = -q - r.
+// Uklad "pointy-top": wiersze r przesuniete o pol heksa wzgledem poprzedniego.
+import type { HexCoords } from "./board";
+
+// Wspolrzedne cube (q + r + s = 0) - wygodne do odleglosci i zaokraglania.
+export type CubeCoords = {
+  q: number;
+  r: number;
+  s: number;
+};
+
+// Szesc kierunkow sasiedztwa, zgodnie z ruchem wskazowek zegara od wschodu.
+export const HEX_DIRECTIONS: readonly HexCoords[] = [
+  { q: 1, r: 0 },
+  { q: 1, r: -1 },
+  { q: 0, r: -1 },
+  { q: -1, r: 0 },
+  { q: -1, r: 1 },
+  { q: 0, r: 1 },
+];
+
+// Klucz "q,r" do map i zbiorow pol.
+export function hexKey(c: HexCoords): string {
+  return `${c.q},${c.r}`;
+}
+
+export function parseHexKey(key: string): HexCoords {
+  const [q, r] = key.split(",").map(Number);
+  return { q, r };
+}
+
+export function axialToCube(c: HexCoords): CubeCoords {
+  return { q: c.q, r: c.r, s: -c.q - c.r };
+}
+
+export function cubeToAxial(c: CubeCoords): HexCoords {
+  return { q: c.q, r: c.r };
+}
+
+export function hexEquals(a: HexCoords, b: HexCoords): boolean {
+  return a.q === b.q && a.r === b.r;
+}
+
+export function hexAdd(a: HexCoords, b: HexCoords): HexCoords {
+  return { q: a.q + b.q, r: a.r + b.r };
+}
+
+export function hexScale(a: HexCoords, k: number): HexCoords {
+  return { q: a.q * k, r: a.r * k };
+}
+
+// Sasiad w danym kierunku (indeks 0-5 w HEX_DIRECTIONS, dowolna liczba calkowita modulo 6).
+export function hexNeighbor(c: HexCoords, direction: number): HexCoords {
+  return hexAdd(c, HEX_DIRECTIONS[((direction % 6) + 6) % 6]);
+}
+
+// Wszyscy sasiedzi pola (bez filtrowania po planszy).
+export function hexNeighbors(c: HexCoords): HexCoords[] {
+  return HEX_DIRECTIONS.map((d) => hexAdd(c, d));
+}
+
+// Odleglosc w krokach miedzy heksami (metryka cube).
+export function hexDistance(a: HexCoords, b: HexCoords): number {
+  const dq = a.q - b.q;
+  const dr = a.r - b.r;
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+}
+
+// Kierunek (indeks w HEX_DIRECTIONS) najlepiej wskazujacy od `from` do `to`;
+// null dla tego samego pola. Przy remisie wygrywa nizszy indeks.
+export function hexDirectionTowards(from: HexCoords, to: HexCoords): number | null {
+  const v = axialToCube({ q: to.q - from.q, r: to.r - from.r });
+  if (v.q === 0 && v.r === 0) return null;
+  let best = 0;
+  let bestDot = -Infinity;
+  HEX_DIRECTIONS.forEach((d, index) => {
+    const c = axialToCube(d);
+    const dot = v.q * c.q + v.r * c.r + v.s * c.s;
+    if (dot > bestDot) {
+      best = index;
+      bestDot = dot;
+    }
+  });
+  return best;
+}
+
+// Pierscien heksow w odleglosci radius od srodka (radius 0 -> sam srodek).
+export function hexRing(center: HexCoords, radius: number): HexCoords[] {
+  if (radius <= 0) return [{ ...center }];
+  const ring: HexCoords[] = [];
+  let current = hexAdd(center, hexScale(HEX_DIRECTIONS[4], radius));
+  for (let side = 0; side < 6; side++) {
+    for (let step = 0; step < radius; step++) {
+      ring.push(current);
+      current = hexNeighbor(current, side);
+    }
+  }
+  return ring;
+}
+
+// Spirala: srodek i kolejne pierscienie az do radius wlacznie.
+export function hexSpiral(center: HexCoords, radius: number): HexCoords[] {
+  const result: HexCoords[] = [];
+  for (let k = 0; k <= radius; k++) {
+    result.push(...hexRing(center, k));
+  }
+  return result;
+}
+
+// Zaokraglenie ulamkowych wspolrzednych do najblizszego heksa.
+export function hexRound(c: { q: number; r: number }): HexCoords {
+  const s = -c.q - c.r;
+  let q = Math.round(c.q);
+  let r = Math.round(c.r);
+  const rs = Math.round(s);
+  const dq = Math.abs(q - c.q);
+  const dr = Math.abs(r - c.r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) {
+    q = -r - rs;
+  } else if (dr > ds) {
+    r = -q - rs;
+  }
+  // Unikamy -0 w kluczach "q,r".
+  return { q: q + 0, r: r + 0 };
+}
+
+// Linia heksow od a do b wlacznie (interpolacja z lekkim przesunieciem,
+// zeby przy przejsciu dokladnie po krawedzi wybierac zawsze ta sama strone).
+export function hexLine(a: HexCoords, b: HexCoords): HexCoords[] {
+  const n = hexDistance(a, b);
+  if (n === 0) return [{ ...a }];
+  const eps = 1e-6;
+  const aq = a.q + eps;
+  const ar = a.r + eps;
+  const bq = b.q + eps;
+  const br = b.r + eps;
+  const line: HexCoords[] = [];
+  for (let i = 0; i <= n; i++) {
+    const t = i / n;
+    line.push(hexRound({ q: aq + (bq - aq) * t, r: ar + (br - ar) * t }));
+  }
+  return line;
+}
+
+// Srodek heksa w pikselach dla ukladu pointy-top (size = promien opisany).
+export function hexToPixel(c: HexCoords, size: number): { x: number; y: number } {
+  return {
+    x: size * Math.sqrt(3) * (c.q + c.r / 2),
+    y: size * 1.5 * c.r,
+  };
+}
+
+// Odwrotnosc hexToPixel: heks zawierajacy dany punkt.
+export function pixelToHex(point: { x: number; y: number }, size: number): HexCoords {
+  const q = ((Math.sqrt(3) / 3) * point.x - point.y / 3) / size;
+  const r = ((2 / 3) * point.y) / size;
+  return hexRound({ q, r });
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "./game";
+import {
+  DEFAULT_LOBBY_BUDGET,
+  DEFAULT_LOBBY_SETTINGS,
+  LOBBY_SEATS,
+  MIN_LOBBY_BUDGET,
+  allSeatsReady,
+  awaitsOpponentDeployment,
+  canJoinLobbyGame,
+  canMarkReady,
+  finishLobbyDeployment,
+  lobbyStatusLabel,
+  normalizeLobbySettings,
+  postLobbyAction,
+} from "./lobby";
+import type { LobbyFetch, LobbyGame, LobbySeat } from "./lobby";
+import { makeState } from "./rules/fixtures";
+
+const seat = (playerId: number, overrides: Partial<LobbySeat> = {}): LobbySeat => ({
+  playerId,
+  name: `Player ${playerId}`,
+  armyReady: false,
+  ready: false,
+  ...overrides,
+});
+
+const game = (seats: LobbySeat[], status: LobbyGame["status"] = seats.length > 1 ? "full" : "open"): LobbyGame => ({
+  lobbyId: "l1",
+  name: "Duel",
+  hostPlayerId: 1,
+  settings: normalizeLobbySettings(null),
+  seats,
+  status,
+});
+
+// Atrapa serwera wedlug kontraktu lobby: gotowosc obu stron tworzy gre, a bitwa rusza
+// dopiero po rozstawieniu obu graczy. Zwraca fetch zalogowanego gracza.
+function lobbyServer(initial: LobbyGame): (playerId: number) => LobbyFetch {
+  let lobby = initial;
+  let state: GameState | null = null;
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+  return (playerId) => async (input, init) => {
+    const body = JSON.parse(String(init?.body ?? "{}")) as { ready?: boolean; playerId?: number };
+    if (input === `/lobby/games/${lobby.lobbyId}/ready`) {
+      lobby = {
+        ...lobby,
+        seats: lobby.seats.map((s) => (s.playerId === playerId ? { ...s, ready: !!body.ready } : s)),
+      };
+      if (allSeatsReady(lobby)) {
+        lobby = { ...lobby, status: "started", gameId: "g1" };
+        state = makeState({ gameId: "g1", status: "not_started", pvp: true });
+      }
+      return json(lobby);
+    }
+    if (state && input === `/game/${state.gameId}/deployment/done` && body.playerId === playerId) {
+      const done = [...new Set([...(state.deploymentDone ?? []), playerId])];
+      state = { ...state, deploymentDone: done, status: done.length === LOBBY_SEATS ? "in_progress" : "not_started" };
+      return json(state);
+    }
+    return json({ message: "Not found" }, 404);
+  };
+}
+
+describe("lobby", () => {
+  it("normalizes settings from the form or the server", () => {
+    expect(normalizeLobbySettings(null)).toMatchObject({ map: "default", budget: DEFAULT_LOBBY_BUDGET });
+    expect(normalizeLobbySettings({ budget: 5, seed: 2.7, map: "open-plains", fogOfWar: false })).toMatchObject({
+      budget: MIN_LOBBY_BUDGET,
+      seed: 2,
+      map: "open-plains",
+      fogOfWar: false,
+    });
+    expect(normalizeLobbySettings({ map: "atlantis", seed: "7", scenario: "broken" })).toEqual(DEFAULT_LOBBY_SETTINGS);
+    expect(normalizeLobbySettings({ map: "toString" }).map).toBe("default");
+  });
+
+  it("lets a second player join an open game once", () => {
+    expect(canJoinLobbyGame(game([seat(1)]), 2)).toBe(true);
+    expect(canJoinLobbyGame(game([seat(1)]), 1)).toBe(false);
+    expect(canJoinLobbyGame(game([seat(1), seat(2)]), 3)).toBe(false);
+  });
+
+  it("requires both armies and both ready checks before deployment", () => {
+    const waiting = game([seat(1, { armyReady: true, ready: true }), seat(2)]);
+    expect(canMarkReady(waiting, 2)).toBe(false);
+    expect(lobbyStatusLabel(waiting, 2)).toBe("Build your army");
+    expect(allSeatsReady(waiting)).toBe(false);
+
+    const armed = game([seat(1, { armyReady: true, ready: true }), seat(2, { armyReady: true })]);
+    expect(canMarkReady(armed, 2)).toBe(true);
+    expect(lobbyStatusLabel(armed, 1)).toBe("Waiting for opponent");
+    expect(allSeatsReady({ ...armed, seats: armed.seats.map((s) => ({ ...s, ready: true })) })).toBe(true);
+  });
+
+  it("starts the game after both ready checks and the battle after both deployments", async () => {
+    const as = lobbyServer(game([seat(1, { armyReady: true }), seat(2, { armyReady: true })]));
+    const first = await postLobbyAction(as(1), "/lobby/games/l1/ready", { ready: true }, "Failed.");
+    expect(first.status).toBe("full");
+    expect(lobbyStatusLabel(first, 1)).toBe("Waiting for opponent");
+    const started = await postLobbyAction(as(2), "/lobby/games/l1/ready", { ready: true }, "Failed.");
+    expect(started).toMatchObject({ status: "started", gameId: "g1" });
+
+    const deployed = await finishLobbyDeployment(as(1), "g1", 1);
+    expect(deployed.status).toBe("not_started");
+    expect(awaitsOpponentDeployment(deployed, 1)).toBe(true);
+    expect(awaitsOpponentDeployment(deployed, 2)).toBe(false);
+    const battle = await finishLobbyDeployment(as(2), "g1", 2);
+    expect(battle.status).toBe("in_progress");
+    expect(awaitsOpponentDeployment(battle, 1)).toBe(false);
+    await expect(finishLobbyDeployment(as(1), "missing", 1)).rejects.toThrow("Status: 404");
+  });
+});
@@ -0,0 +1,188 @@
+// Lobby gier gracz-kontra-gracz (/lobby): otwarte gry, dolaczanie drugiego gracza,
+// osobne armie obu stron i gotowosc przed rozstawieniem.
+//
+// Kontrakt API lobby:
+//   GET  /lobby/games                  -> LobbyGame[] (gry, w ktorych mozna grac lub ktore sa nasze)
+//   POST /lobby/games                  { name, settings } -> LobbyGame (tworca zajmuje pierwsze miejsce)
+//   GET  /lobby/games/{id}             -> LobbyGame
+//   POST /lobby/games/{id}/join        -> LobbyGame (drugie miejsce)
+//   POST /lobby/games/{id}/army        { units: { unitId, count }[] } -> LobbyGame (armyReady)
+//   POST /lobby/games/{id}/ready       { ready } -> LobbyGame; gdy obie strony gotowe, serwer
+//                                         tworzy gre (status "started", gameId, GameState.pvp,
+//                                         GameState.fogOfWar i cavalryIgnoresZoc z ustawien; przy mgle wojny kazdy
+//                                         gracz dostaje stan bitwy przefiltrowany stateForViewer)
+//   POST /game/{id}/deployment/done    { playerId } -> GameState; serwer dopisuje gracza do
+//                                         GameState.deploymentDone, a gdy rozstawia sie obaj,
+//                                         zmienia status na "in_progress" i wypycha stan obu graczom
+import type { GameState, VictorySettings } from "./game";
+import { isMapPresetId } from "./mapGenerator";
+import type { MapPresetId } from "./mapGenerator";
+import type { Player } from "./player";
+import { normalizeVictorySettings } from "./rules";
+import type { Scenario } from "./scenario";
+
+export const LOBBY_SEATS = 2;
+export const DEFAULT_LOBBY_BUDGET = 1000;
+export const MIN_LOBBY_BUDGET = 100;
+
+export type LobbyGameStatus = "open" | "full" | "started";
+
+export interface LobbySettings {
+  // Mapa: preset generatora z ziarnem albo domyslna mapa serwera.
+  map: MapPresetId | "default";
+  seed: number;
+  budget: number;
+  victory: VictorySettings;
+  fogOfWar: boolean;
+  // Opcjonalna regula: kawaleria ignoruje strefy kontroli (obie strony licza ruch tak samo).
+  cavalryIgnoresZoc: boolean;
+  // Mapa wygenerowana przy tworzeniu gry (ta sama dla obu graczy).
+  scenario?: Scenario;
+}
+
+export interface LobbySeat {
+  playerId: Player["id"];
+  name: string;
+  color?: string;
+  // Armia zbudowana i zapisana dla tej gry.
+  armyReady: boolean;
+  // Gracz potwierdzil gotowosc do rozstawienia.
+  ready: boolean;
+}
+
+export interface LobbyGame {
+  lobbyId: string;
+  name: string;
+  hostPlayerId: Player["id"];
+  settings: LobbySettings;
+  seats: LobbySeat[];
+  status: LobbyGameStatus;
+  // Id gry na planszy po starcie.
+  gameId?: string;
+}
+
+export interface LobbyArmyEntry {
+  unitId: string;
+  count: number;
+}
+
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = {
+  map: "default",
+  seed: 1,
+  budget: DEFAULT_LOBBY_BUDGET,
+  victory: normalizeVictorySettings(null),
+  fogOfWar: true,
+  cavalryIgnoresZoc: false,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Mapa z edytora w ustawieniach; pola sprawdza dokladnie parseScenario przy zapisie.
+function isScenario(value: unknown): value is Scenario {
+  return (
+    isRecord(value) &&
+    typeof value.name === "string" &&
+    typeof value.width === "number" &&
+    typeof value.height === "number" &&
+    Array.isArray(value.tiles)
+  );
+}
+
+// Ustawienia z formularza lub serwera z bezpiecznymi wartosciami domyslnymi
+// (nieznana mapa = domyslna mapa serwera).
+export function normalizeLobbySettings(raw: unknown): LobbySettings {
+  const data = isRecord(raw) ? raw : {};
+  const budget = Number(data.budget);
+  return {
+    map: data.map === "default" || isMapPresetId(data.map) ? data.map : DEFAULT_LOBBY_SETTINGS.map,
+    seed:
+      typeof data.seed === "number" && Number.isFinite(data.seed)
+        ? Math.floor(data.seed)
+        : DEFAULT_LOBBY_SETTINGS.seed,
+    budget: Number.isFinite(budget) ? Math.max(MIN_LOBBY_BUDGET, Math.floor(budget)) : DEFAULT_LOBBY_BUDGET,
+    victory: normalizeVictorySettings(data.victory),
+    fogOfWar: typeof data.fogOfWar === "boolean" ? data.fogOfWar : DEFAULT_LOBBY_SETTINGS.fogOfWar,
+    cavalryIgnoresZoc:
+      typeof data.cavalryIgnoresZoc === "boolean"
+        ? data.cavalryIgnoresZoc
+        : DEFAULT_LOBBY_SETTINGS.cavalryIgnoresZoc,
+    ...(isScenario(data.scenario) ? { scenario: data.scenario } : {}),
+  };
+}
+
+export function lobbySeat(game: LobbyGame, playerId: number | null | undefined): LobbySeat | null {
+  return game.seats.find((s) => s.playerId === playerId) ?? null;
+}
+
+export function canJoinLobbyGame(game: LobbyGame, playerId: number): boolean {
+  return game.status === "open" && game.seats.length < LOBBY_SEATS && !lobbySeat(game, playerId);
+}
+
+// Gotowosc mozna zglosic dopiero z zapisana armia i gdy sa obaj gracze.
+export function canMarkReady(game: LobbyGame, playerId: number): boolean {
+  const seat = lobbySeat(game, playerId);
+  return game.status === "full" && !!seat?.armyReady;
+}
+
+export function allSeatsReady(game: LobbyGame): boolean {
+  return game.seats.length === LOBBY_SEATS && game.seats.every((s) => s.armyReady && s.ready);
+}
+
+// Gracz z lobby zglosil koniec rozstawienia, a serwer jeszcze nie zaczal bitwy (czekamy na drugiego).
+export function awaitsOpponentDeployment(state: GameState, playerId: number | null): boolean {
+  return (
+    !!state.pvp &&
+    state.status === "not_started" &&
+    playerId != null &&
+    !!state.deploymentDone?.includes(playerId)
+  );
+}
+
+// Zapytanie do API z autoryzacja (authFetch albo atrapa serwera w testach).
+export type LobbyFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+async function postJson<T>(fetcher: LobbyFetch, path: string, body: unknown, failure: string): Promise<T> {
+  const res = await fetcher(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new Error(`${failure} Status: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+// Akcja w lobby (dolaczenie, armia, gotowosc); zwraca zaktualizowana gre.
+export async function postLobbyAction(
+  fetcher: LobbyFetch,
+  path: string,
+  body: unknown,
+  failure: string
+): Promise<LobbyGame> {
+  const game = await postJson<LobbyGame>(fetcher, path, body, failure);
+  return { ...game, settings: normalizeLobbySettings(game.settings) };
+}
+
+// Koniec rozstawienia w grze z lobby (odpowiednik gotowosci w lobby); zwraca stan gry z serwera.
+export function finishLobbyDeployment(fetcher: LobbyFetch, gameId: string, playerId: number): Promise<GameState> {
+  return postJson<GameState>(
+    fetcher,
+    `/game/${encodeURIComponent(gameId)}/deployment/done`,
+    { playerId },
+    "Failed to finish deployment."
+  );
+}
+
+// Krotki opis stanu gry w liscie lobby z perspektywy gracza.
+export function lobbyStatusLabel(game: LobbyGame, playerId: number | null): string {
+  const seat = lobbySeat(game, playerId);
+  if (game.status === "started") return seat ? "Started - open the board" : "In progress";
+  if (game.status === "open") return seat ? "Waiting for an opponent" : "Open";
+  if (!seat) return "Full";
+  if (!seat.armyReady) return "Build your army";
+  if (!seat.ready) return "Confirm ready";
+  return allSeatsReady(game) ? "Starting..." : "Waiting for opponent";
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "./game";
+import {
+  createLocalGame,
+  isLocalGameId,
+  loadLocalGame,
+  localGameFetch,
+  saveLocalGame,
+  saveLocalUnits,
+} from "./localGame";
+import type { LocalGameStorage } from "./localGame";
+import { DEFAULT_VICTORY_SETTINGS } from "./rules";
+import { PLAYER_A, PLAYER_B, makeTiles, templates } from "./rules/fixtures";
+
+function memoryStorage(): LocalGameStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+function setup(storage: LocalGameStorage, fogOfWar = false): GameState {
+  const game = createLocalGame(
+    {
+      players: [
+        { playerId: PLAYER_A, name: "Red", color: "red" },
+        { playerId: PLAYER_B, name: "Blue", color: "blue" },
+      ],
+      armies: { [PLAYER_A]: ["line-infantry"], [PLAYER_B]: ["light-cavalry"] },
+      templates,
+      tiles: makeTiles(6, 6),
+      victory: DEFAULT_VICTORY_SETTINGS,
+      hotSeat: true,
+      fogOfWar,
+      cavalryIgnoresZoc: false,
+    },
+    "local-test"
+  );
+  saveLocalGame(game, storage);
+  saveLocalUnits(templates, storage);
+  return game;
+}
+
+async function post(path: string, body: unknown, storage: LocalGameStorage) {
+  return localGameFetch(path, { method: "POST", body: JSON.stringify(body) }, storage);
+}
+
+describe("local game", () => {
+  it("creates a deployment-phase game with one unit per army entry", () => {
+    const game = setup(memoryStorage());
+    expect(isLocalGameId(game.gameId)).toBe(true);
+    expect(isLocalGameId("42")).toBe(false);
+    expect(game.status).toBe("not_started");
+    expect(game.units.map((u) => [u.unitId, u.ownerPlayerId, u.currentHP])).toEqual([
+      ["1", PLAYER_A, 10],
+      ["2", PLAYER_B, 10],
+    ]);
+  });
+
+  it("applies actions through the /game/{id}/actions contract and passes turns", async () => {
+    const storage = memoryStorage();
+    setup(storage);
+    await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_A, payload: { unitId: 1, q: 1, r: 1 } }, storage);
+    await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_B, payload: { unitId: 2, q: 4, r: 1 } }, storage);
+    expect((await post("/game/local-test/start", {}, storage)).ok).toBe(true);
+
+    const moved = await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_A, payload: { unitId: 1, q: 2, r: 1 } }, storage);
+    expect(((await moved.json()) as GameState).units[0]).toMatchObject({ q: 2, r: 1, hasMoved: true });
+
+    const ended = await post("/game/local-test/actions", { type: "END_TURN", playerId: PLAYER_A }, storage);
+    expect(((await ended.json()) as GameState).currentPlayerId).toBe(PLAYER_B);
+    expect(loadLocalGame("local-test", storage)?.currentPlayerId).toBe(PLAYER_B);
+
+    const state = await localGameFetch("/game/local-test/state", undefined, storage);
+    expect(((await state.json()) as GameState).status).toBe("in_progress");
+  });
+
+  it("answers with HTTP errors like the backend", async () => {
+    const storage = memoryStorage();
+    setup(storage);
+    const early = await post("/game/local-test/start", {}, storage);
+    expect(early.status).toBe(400);
+    expect(await early.json()).toMatchObject({ code: "NOT_DEPLOYED" });
+
+    await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_A, payload: { unitId: 1, q: 1, r: 1 } }, storage);
+    await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_B, payload: { unitId: 2, q: 4, r: 1 } }, storage);
+    expect((await post("/game/local-test/start", {}, storage)).ok).toBe(true);
+    const rejected = await post("/game/local-test/actions", { type: "END_TURN", playerId: PLAYER_B }, storage);
+    expect(rejected.status).toBe(400);
+    expect(await rejected.json()).toMatchObject({ code: "NOT_YOUR_TURN" });
+    expect((await localGameFetch("/game/local-missing/state", undefined, storage)).status).toBe(404);
+  });
+
+  it("rejects malformed action bodies with 400", async () => {
+    const storage = memoryStorage();
+    setup(storage);
+    const broken = await localGameFetch("/game/local-test/actions", { method: "POST", body: "{oops" }, storage);
+    expect(broken.status).toBe(400);
+    expect(await broken.json()).toMatchObject({ code: "INVALID_PAYLOAD" });
+    const wrongShape = await post("/game/local-test/actions", { type: "MOVE", playerId: "1", payload: [] }, storage);
+    expect(wrongShape.status).toBe(400);
+  });
+
+  it("treats corrupt saves as missing instead of throwing", async () => {
+    const storage = memoryStorage();
+    setup(storage);
+    storage.setItem("boardwar.localUnits", "{oops");
+    expect(await (await localGameFetch("/units", undefined, storage)).json()).toEqual([]);
+    storage.setItem("boardwar.localGame.local-test", "{oops");
+    expect(loadLocalGame("local-test", storage)).toBeNull();
+    expect((await localGameFetch("/game/local-test/state", undefined, storage)).status).toBe(404);
+  });
+
+  it("serves the battle only as the player at the screen sees it when fog of war is on", async () => {
+    const storage = memoryStorage();
+    setup(storage, true);
+    await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_A, payload: { unitId: 1, q: 1, r: 0 } }, storage);
+    await post("/game/local-test/actions", { type: "MOVE", playerId: PLAYER_B, payload: { unitId: 2, q: 5, r: 5 } }, storage);
+    const started = (await (await post("/game/local-test/start", {}, storage)).json()) as GameState;
+    expect(started.units.map((u) => u.unitId)).toEqual(["1"]);
+    expect(loadLocalGame("local-test", storage)?.units).toHaveLength(2);
+
+    const ended = await post("/game/local-test/actions", { type: "END_TURN", playerId: PLAYER_A }, storage);
+    expect(((await ended.json()) as GameState).units.map((u) => u.unitId)).toEqual(["2"]);
+  });
+});
@@ -0,0 +1,200 @@
+// Gra offline (hot-seat): stan gry trzymany w przegladarce, a akcje rozliczane lokalnym silnikiem
+// zasad wedlug tego samego kontraktu co backend (POST /game/{id}/actions -> nowy GameState).
+import { planTurn } from "./ai";
+import type { ApplyActionDto, GamePlayerState, GameState, HexTileState, VictorySettings } from "./game";
+import { seedFromString } from "./random";
+import { applyAction, rulesContextFor, stateForViewer, unplacedUnits, withArtilleryTraits } from "./rules";
+import type { RuleRejection, RulesContext } from "./rules";
+import type { UnitDto } from "./unit";
+
+export const LOCAL_GAME_PREFIX = "local-";
+const GAME_KEY_PREFIX = "boardwar.localGame.";
+const UNITS_KEY = "boardwar.localUnits";
+
+// Magazyn gier offline (w przegladarce localStorage, w testach dowolna mapa).
+export type LocalGameStorage = Pick<Storage, "getItem" | "setItem">;
+
+export interface LocalGameSetup {
+  players: GamePlayerState[];
+  // Sklad armii kazdego gracza: id szablonow w kolejnosci jednostek.
+  armies: Record<number, UnitDto["id"][]>;
+  templates: UnitDto[];
+  tiles: HexTileState[];
+  victory: VictorySettings;
+  hotSeat: boolean;
+  fogOfWar: boolean;
+  cavalryIgnoresZoc: boolean;
+  scenario?: string;
+}
+
+export function isLocalGameId(gameId: string | null | undefined): boolean {
+  return !!gameId && gameId.startsWith(LOCAL_GAME_PREFIX);
+}
+
+// Nowa gra offline w fazie rozstawienia (jednostki czekaja na 0,0 jak w grze z backendu).
+export function createLocalGame(
+  setup: LocalGameSetup,
+  gameId = `${LOCAL_GAME_PREFIX}${Date.now().toString(36)}`
+): GameState {
+  const byId = new Map(setup.templates.map((t) => [t.id, t]));
+  let nextUnitId = 1;
+  const units = setup.players.flatMap((p) =>
+    (setup.armies[p.playerId] ?? []).map((template) => ({
+      unitId: String(nextUnitId++),
+      ownerPlayerId: p.playerId,
+      template,
+      currentHP: byId.get(template)?.maxHp ?? 1,
+      q: 0,
+      r: 0,
+    }))
+  );
+  return {
+    gameId,
+    turnNumber: 1,
+    currentPlayerId: setup.players[0]?.playerId ?? 0,
+    status: "not_started",
+    players: setup.players,
+    units,
+    tiles: setup.tiles,
+    rngState: seedFromString(gameId),
+    victory: setup.victory,
+    hotSeat: setup.hotSeat,
+    fogOfWar: setup.fogOfWar,
+    cavalryIgnoresZoc: setup.cavalryIgnoresZoc,
+    ...(setup.scenario ? { scenario: setup.scenario } : {}),
+  };
+}
+
+export function saveLocalGame(state: GameState, storage: LocalGameStorage) {
+  storage.setItem(`${GAME_KEY_PREFIX}${state.gameId}`, JSON.stringify(state));
+}
+
+// Zapis z magazynu; brak wpisu albo uszkodzony JSON = null (jak nieistniejaca gra).
+function readStored(storage: LocalGameStorage, key: string): unknown {
+  const raw = storage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+// Minimalny ksztalt zapisanej gry; reszte pol sprawdza silnik zasad przy akcjach.
+function isStoredGame(value: unknown): value is GameState {
+  return (
+    isRecord(value) &&
+    typeof value.gameId === "string" &&
+    Array.isArray(value.units) &&
+    Array.isArray(value.tiles)
+  );
+}
+
+export function loadLocalGame(gameId: string, storage: LocalGameStorage): GameState | null {
+  const stored = readStored(storage, `${GAME_KEY_PREFIX}${gameId}`);
+  return isStoredGame(stored) ? stored : null;
+}
+
+// Szablony jednostek dla gier offline (odpowiednik GET /units bez backendu).
+export function saveLocalUnits(templates: UnitDto[], storage: LocalGameStorage) {
+  storage.setItem(UNITS_KEY, JSON.stringify(templates));
+}
+
+function loadLocalUnits(storage: LocalGameStorage): UnitDto[] {
+  const stored = readStored(storage, UNITS_KEY);
+  return Array.isArray(stored) ? (stored as UnitDto[]) : [];
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Tresc zadania z JSON-a; brak tresci = pusty obiekt, niepoprawny JSON = null.
+function readBody(init?: RequestInit): unknown {
+  if (typeof init?.body !== "string" || !init.body) return {};
+  try {
+    return JSON.parse(init.body) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+// Ksztalt akcji z kontraktu backendu; sam typ akcji i payload sprawdza dalej silnik zasad.
+function isApplyActionDto(body: unknown): body is ApplyActionDto {
+  return (
+    isRecord(body) &&
+    typeof body.type === "string" &&
+    (body.playerId === undefined || typeof body.playerId === "number") &&
+    (body.payload === undefined || isRecord(body.payload))
+  );
+}
+
+function rejected(rejection: RuleRejection): Response {
+  return jsonResponse(rejection, 400);
+}
+
+// Trasy gry obslugiwane lokalnie; zwraca odpowiedz jak backend (blad = status HTTP).
+function handleLocalRequest(
+  path: string,
+  method: string,
+  init: RequestInit | undefined,
+  storage: LocalGameStorage
+): Response {
+  const templates = loadLocalUnits(storage);
+  if (path === "/units" && method === "GET") return jsonResponse(templates);
+
+  const match = /^\/game\/([^/]+)\/(state|actions|ai\/turn|start)$/.exec(path);
+  const state = match ? loadLocalGame(decodeURIComponent(match[1]), storage) : null;
+  if (!match || !state) return jsonResponse({ message: `Not found: ${path}` }, 404);
+
+  const ctx: RulesContext = rulesContextFor(state, withArtilleryTraits(templates));
+  // Przy ekranie siedzi gracz, ktorego jest tura, wiec to jemu wysylamy stan (z mgla wojny).
+  const serve = (served: GameState) => jsonResponse(stateForViewer(served, served.currentPlayerId, ctx));
+  const save = (next: GameState) => {
+    saveLocalGame(next, storage);
+    return serve(next);
+  };
+  switch (`${method} ${match[2]}`) {
+    case "GET state":
+      return serve(state);
+    case "POST actions": {
+      const body = readBody(init);
+      if (!isApplyActionDto(body)) {
+        return rejected({ code: "INVALID_PAYLOAD", message: "Expected an action with type, playerId and payload." });
+      }
+      const result = applyAction(state, body, ctx);
+      if (!result.ok) return rejected(result.rejection);
+      return save(result.state);
+    }
+    case "POST ai/turn": {
+      const body = readBody(init);
+      const playerId = isRecord(body) && typeof body.playerId === "number" ? body.playerId : state.currentPlayerId;
+      return save(planTurn(state, playerId, ctx, { difficulty: "greedy" }).state);
+    }
+    // Koniec rozstawienia: bitwa zaczyna sie od pierwszego gracza, gdy wszystkie jednostki stoja w strefach.
+    case "POST start":
+      if (unplacedUnits(state).length) {
+        return rejected({ code: "NOT_DEPLOYED", message: "Deploy every unit before the battle starts." });
+      }
+      return save(state.status === "not_started" ? { ...state, status: "in_progress" } : state);
+    default:
+      return jsonResponse({ message: `Method not allowed: ${method} ${path}` }, 405);
+  }
+}
+
+// Lokalny odpowiednik authFetch dla gier offline (ta sama sygnatura, bez sieci).
+export async function localGameFetch(
+  input: string,
+  init?: RequestInit,
+  storage: LocalGameStorage = window.localStorage
+): Promise<Response> {
+  const path = input.startsWith("/") ? input : `/${input}`;
+  return handleLocalRequest(path, (init?.method ?? "GET").toUpperCase(), init, storage);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Board } from "./board";
+import { hexKey } from "./hex";
+import { MAP_PRESETS, generateBoard, generatePresetBoard } from "./mapGenerator";
+import type { MapPresetId } from "./mapGenerator";
+import { dijkstra, nearestTarget } from "./pathfinding";
+
+// Czy z zachodnich kolumn rozstawienia da sie dojsc do wschodnich.
+function zonesConnected(board: Board, width: number): boolean {
+  const tiles = new Map(board.tiles.map((t) => [hexKey(t.coords), t]));
+  const west = board.tiles.filter((t) => t.coords.q < 3 && t.passable).map((t) => t.coords);
+  const east = board.tiles.filter((t) => t.coords.q >= width - 3).map((t) => t.coords);
+  const field = dijkstra(west, (to) => {
+    const tile = tiles.get(hexKey(to));
+    return tile?.passable ? tile.movementCost : null;
+  });
+  return nearestTarget(field, east) != null;
+}
+
+describe("map generator", () => {
+  it("is deterministic for the same seed", () => {
+    expect(generatePresetBoard("village-fight", 7)).toEqual(generatePresetBoard("village-fight", 7));
+    expect(generatePresetBoard("village-fight", 7)).not.toEqual(generatePresetBoard("village-fight", 8));
+  });
+
+  it("crosses rivers with bridges or fords on the road", () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const terrains = generatePresetBoard("river-crossing", seed).tiles.map((t) => t.terrain);
+      expect(terrains).toContain("water");
+      expect(terrains.some((t) => t === "bridge" || t === "ford")).toBe(true);
+    }
+  });
+
+  it("always leaves a passable route between deployment zones", () => {
+    (Object.keys(MAP_PRESETS) as MapPresetId[]).forEach((id) => {
+      for (let seed = 1; seed <= 10; seed++) {
+        expect(zonesConnected(generatePresetBoard(id, seed), MAP_PRESETS[id].options.width)).toBe(true);
+      }
+    });
+    const flooded = generateBoard({
+      seed: 3,
+      width: 12,
+      height: 8,
+      rivers: 4,
+      forestDensity: 0,
+      hillDensity: 0,
+      cities: 0,
+      roads: false,
+    });
+    expect(zonesConnected(flooded, 12)).toBe(true);
+  });
+});
@@ -0,0 +1,269 @@
+// Proceduralny generator map: plansza z ziarna i parametrow (rozmiar, rzeki, lasy, miasta, drogi).
+// Ten sam seed + parametry = ta sama mapa. Miedzy strefami rozstawienia zawsze jest przejezdna droga.
+import type { Board, HexCoords, TerrainType, Tile } from "./board";
+import { hexKey, hexNeighbors, hexSpiral } from "./hex";
+import { aStar, dijkstra, nearestTarget } from "./pathfinding";
+import { createRandom } from "./random";
+import { DEFAULT_DEPLOYMENT_DEPTH } from "./rules/deployment";
+import { TERRAIN_DEFAULTS } from "./scenario";
+
+export interface MapGeneratorOptions {
+  seed: number;
+  width: number;
+  height: number;
+  // Rzeki plynace z polnocy na poludnie przez srodek mapy.
+  rivers: number;
+  // Udzial pol pokrytych lasem (0-1).
+  forestDensity: number;
+  // Udzial pol ze wzgorzami (0-1).
+  hillDensity: number;
+  cities: number;
+  // Drogi miedzy miastami i do krawedzi; na wodzie mosty albo brody.
+  roads: boolean;
+}
+
+export type MapPresetId = "river-crossing" | "open-plains" | "village-fight";
+
+export interface MapPreset {
+  label: string;
+  description: string;
+  options: Omit<MapGeneratorOptions, "seed">;
+}
+
+export const MAP_PRESETS: Record<MapPresetId, MapPreset> = {
+  "river-crossing": {
+    label: "River crossing",
+    description: "A river splits the field; bridges and fords decide the battle.",
+    options: {
+      width: 14,
+      height: 9,
+      rivers: 1,
+      forestDensity: 0.12,
+      hillDensity: 0.06,
+      cities: 2,
+      roads: true,
+    },
+  },
+  "open-plains": {
+    label: "Open plains",
+    description: "Wide open ground with a few copses and hills.",
+    options: {
+      width: 14,
+      height: 9,
+      rivers: 0,
+      forestDensity: 0.06,
+      hillDensity: 0.08,
+      cities: 0,
+      roads: false,
+    },
+  },
+  "village-fight": {
+    label: "Village fight",
+    description: "Villages and woods in the centre linked by roads.",
+    options: {
+      width: 12,
+      height: 9,
+      rivers: 0,
+      forestDensity: 0.2,
+      hillDensity: 0.04,
+      cities: 4,
+      roads: true,
+    },
+  },
+};
+
+export function isMapPresetId(value: unknown): value is MapPresetId {
+  return typeof value === "string" && Object.hasOwn(MAP_PRESETS, value);
+}
+
+// Koszt wyznaczania drog: omija las i wzgorza, przez wode tylko gdy trzeba.
+const ROAD_COST: Partial<Record<TerrainType, number>> = { forest: 3, hill: 3, swamp: 4, water: 6 };
+// Kara za nieprzejezdne pole przy przebijaniu awaryjnego przejscia miedzy strefami.
+const CARVE_COST = 8;
+// Szansa na most (zamiast brodu) tam, gdzie droga przecina rzeke.
+const BRIDGE_CHANCE = 0.6;
+
+type Grid = Map<string, TerrainType>;
+
+function inBounds(c: HexCoords, options: MapGeneratorOptions): boolean {
+  return c.q >= 0 && c.r >= 0 && c.q < options.width && c.r < options.height;
+}
+
+// Kolumny q poza strefami rozstawienia (tam trafiaja rzeki i miasta).
+function middleColumns(options: MapGeneratorOptions): [number, number] {
+  const min = Math.min(DEFAULT_DEPLOYMENT_DEPTH, options.width - 1);
+  const max = Math.max(min, options.width - DEFAULT_DEPLOYMENT_DEPTH - 1);
+  return [min, max];
+}
+
+function pick<T>(rand: () => number, items: T[]): T {
+  return items[Math.floor(rand() * items.length)];
+}
+
+// Skupiska terenu: losowe srodki i wypelnienie okolicy, az pokryja ok. density pol.
+function scatter(
+  grid: Grid,
+  rand: () => number,
+  options: MapGeneratorOptions,
+  terrain: TerrainType,
+  density: number
+) {
+  const target = Math.round(options.width * options.height * density);
+  let placed = 0;
+  for (let attempt = 0; placed < target && attempt < target * 4; attempt++) {
+    const center = { q: Math.floor(rand() * options.width), r: Math.floor(rand() * options.height) };
+    hexSpiral(center, 1).forEach((c) => {
+      if (placed >= target || !inBounds(c, options) || rand() > 0.7) return;
+      if (grid.get(hexKey(c)) !== "plain") return;
+      grid.set(hexKey(c), terrain);
+      placed++;
+    });
+  }
+}
+
+// Rzeka z polnocy na poludnie: kolejne pola sasiaduja, wiec przecina cala mape
+// (w kolejnym rzedzie sasiaduja (q, r+1) i (q-1, r+1); skret na wschod dokleja pole w tym samym rzedzie).
+function carveRiver(grid: Grid, rand: () => number, options: MapGeneratorOptions) {
+  const [minQ, maxQ] = middleColumns(options);
+  let q = minQ + Math.floor(rand() * (maxQ - minQ + 1));
+  const flood = (c: HexCoords) => {
+    grid.set(hexKey(c), "water");
+    hexNeighbors(c).forEach((n) => {
+      if (inBounds(n, options) && grid.get(hexKey(n)) === "plain" && rand() < 0.15) {
+        grid.set(hexKey(n), "swamp");
+      }
+    });
+  };
+  for (let r = 0; r < options.height; r++) {
+    flood({ q, r });
+    const turn = rand();
+    if (turn < 0.3 && q > minQ) {
+      q -= 1;
+    } else if (turn > 0.7 && q < maxQ) {
+      q += 1;
+      flood({ q, r });
+    }
+  }
+}
+
+function placeCities(grid: Grid, rand: () => number, options: MapGeneratorOptions): HexCoords[] {
+  const [minQ, maxQ] = middleColumns(options);
+  const candidates: HexCoords[] = [];
+  grid.forEach((terrain, key) => {
+    const [q, r] = key.split(",").map(Number);
+    if (terrain !== "water" && q >= minQ && q <= maxQ) candidates.push({ q, r });
+  });
+  const cities: HexCoords[] = [];
+  for (let attempt = 0; cities.length < options.cities && attempt < 50; attempt++) {
+    if (!candidates.length) break;
+    const c = pick(rand, candidates);
+    if (cities.some((city) => Math.abs(city.q - c.q) + Math.abs(city.r - c.r) < 3)) continue;
+    grid.set(hexKey(c), "city");
+    cities.push(c);
+  }
+  return cities.sort((a, b) => a.q - b.q || a.r - b.r);
+}
+
+// Droga miedzy dwoma polami; przeciecie wody staje sie mostem albo brodem.
+function buildRoad(
+  grid: Grid,
+  rand: () => number,
+  options: MapGeneratorOptions,
+  from: HexCoords,
+  to: HexCoords
+) {
+  const route = aStar(from, to, (next) => {
+    if (!inBounds(next, options)) return null;
+    const terrain = grid.get(hexKey(next)) as TerrainType;
+    if (terrain === "road" || terrain === "bridge" || terrain === "ford") return 1;
+    return ROAD_COST[terrain] ?? 2;
+  });
+  route?.path.forEach((c) => {
+    const key = hexKey(c);
+    const terrain = grid.get(key);
+    if (terrain === "water") {
+      grid.set(key, rand() < BRIDGE_CHANCE ? "bridge" : "ford");
+    } else if (terrain !== "city" && terrain !== "bridge" && terrain !== "ford") {
+      grid.set(key, "road");
+    }
+  });
+}
+
+// Siec drog: miasta po kolei od zachodu, a skrajne miasta (albo srodek mapy) do obu krawedzi.
+function buildRoads(
+  grid: Grid,
+  rand: () => number,
+  options: MapGeneratorOptions,
+  cities: HexCoords[]
+) {
+  const midR = Math.floor(options.height / 2);
+  const westEdge = { q: 0, r: midR };
+  const eastEdge = { q: options.width - 1, r: midR };
+  const stops = [westEdge, ...cities, eastEdge];
+  for (let i = 1; i < stops.length; i++) {
+    buildRoad(grid, rand, options, stops[i - 1], stops[i]);
+  }
+}
+
+function zoneTiles(options: MapGeneratorOptions, west: boolean): HexCoords[] {
+  const tiles: HexCoords[] = [];
+  for (let r = 0; r < options.height; r++) {
+    for (let q = 0; q < options.width; q++) {
+      const inZone = west
+        ? q < DEFAULT_DEPLOYMENT_DEPTH
+        : q >= options.width - DEFAULT_DEPLOYMENT_DEPTH;
+      if (inZone) tiles.push({ q, r });
+    }
+  }
+  return tiles;
+}
+
+// Gwarancja przejscia: jesli strefy nie sa polaczone, najtansza trasa przez przeszkody
+// zamienia wode w brody, a pozostale nieprzejezdne pola w rowniny.
+function ensureCrossing(grid: Grid, options: MapGeneratorOptions) {
+  const cost = (c: HexCoords, carve: boolean) => {
+    const terrain = grid.get(hexKey(c));
+    if (!terrain) return null;
+    const { passable, movementCost } = TERRAIN_DEFAULTS[terrain];
+    return passable ? movementCost : carve ? CARVE_COST : null;
+  };
+  const west = zoneTiles(options, true);
+  const east = zoneTiles(options, false);
+  const passableWest = west.filter((c) => cost(c, false) != null);
+  if (nearestTarget(dijkstra(passableWest, (next) => cost(next, false)), east)) return;
+
+  const route = nearestTarget(dijkstra(west, (next) => cost(next, true)), east);
+  route?.path.forEach((c) => {
+    const key = hexKey(c);
+    const terrain = grid.get(key) as TerrainType;
+    if (TERRAIN_DEFAULTS[terrain].passable) return;
+    grid.set(key, terrain === "water" ? "ford" : "plain");
+  });
+}
+
+export function generateBoard(options: MapGeneratorOptions): Board {
+  const rand = createRandom(options.seed);
+  const grid: Grid = new Map();
+  for (let r = 0; r < options.height; r++) {
+    for (let q = 0; q < options.width; q++) grid.set(hexKey({ q, r }), "plain");
+  }
+
+  for (let i = 0; i < options.rivers; i++) carveRiver(grid, rand, options);
+  const cities = placeCities(grid, rand, options);
+  scatter(grid, rand, options, "hill", options.hillDensity);
+  scatter(grid, rand, options, "forest", options.forestDensity);
+  if (options.roads) buildRoads(grid, rand, options, cities);
+  ensureCrossing(grid, options);
+
+  const tiles: Tile[] = [];
+  grid.forEach((terrain, key) => {
+    const [q, r] = key.split(",").map(Number);
+    tiles.push({ coords: { q, r }, terrain, ...TERRAIN_DEFAULTS[terrain] });
+  });
+  return { tiles };
+}
+
+// Plansza z presetu (np. do formularza nowej gry).
+export function generatePresetBoard(preset: MapPresetId, seed: number): Board {
+  return generateBoard({ ...MAP_PRESETS[preset].options, seed });
+}
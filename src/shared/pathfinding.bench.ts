@@ -0,0 +1,74 @@
+// Benchmarki wyszukiwania sciezek na duzych, losowo generowanych planszach.
+// Uruchomienie: npm run bench
+import { bench, describe } from "vitest";
+import type { HexCoords } from "./board";
+import { hexKey, hexNeighbors } from "./hex";
+import { aStar, dijkstra, nearestTarget } from "./pathfinding";
+import type { StepCost } from "./pathfinding";
+import { createRandom } from "./random";
+
+// Plansza size x size: ok. 10% pol nieprzejezdnych, 20% kosztuje 2 (las, wzgorza).
+function generateBoard(size: number, seed: number): StepCost {
+  const random = createRandom(seed);
+  const costs = new Map<string, number | null>();
+  for (let r = 0; r < size; r++) {
+    for (let q = 0; q < size; q++) {
+      const roll = random();
+      costs.set(hexKey({ q, r }), roll < 0.1 ? null : roll < 0.3 ? 2 : 1);
+    }
+  }
+  // Rogi zawsze przejezdne, zeby start i cel istnialy.
+  costs.set(hexKey({ q: 0, r: 0 }), 1);
+  costs.set(hexKey({ q: size - 1, r: size - 1 }), 1);
+  return (to) => costs.get(hexKey(to)) ?? null;
+}
+
+// Dawna implementacja z sortowaniem kolejki przy kazdym pobraniu (punkt odniesienia).
+function sortQueueDijkstra(start: HexCoords, stepCost: StepCost): Map<string, number> {
+  const dist = new Map<string, number>([[hexKey(start), 0]]);
+  const queue: { coords: HexCoords; cost: number }[] = [{ coords: start, cost: 0 }];
+  while (queue.length) {
+    queue.sort((a, b) => a.cost - b.cost);
+    const current = queue.shift() as { coords: HexCoords; cost: number };
+    for (const next of hexNeighbors(current.coords)) {
+      const step = stepCost(next, current.coords);
+      if (step == null) continue;
+      const key = hexKey(next);
+      const tentative = current.cost + step;
+      const known = dist.get(key);
+      if (known == null || tentative < known) {
+        dist.set(key, tentative);
+        queue.push({ coords: next, cost: tentative });
+      }
+    }
+  }
+  return dist;
+}
+
+describe("distance field, 60x60 board", () => {
+  const board = generateBoard(60, 1);
+  bench("binary heap dijkstra", () => {
+    dijkstra({ q: 0, r: 0 }, board);
+  });
+  bench("sort-based queue (previous findPath)", () => {
+    sortQueueDijkstra({ q: 0, r: 0 }, board);
+  });
+});
+
+describe("large board, 200x200", () => {
+  const size = 200;
+  const board = generateBoard(size, 2);
+  const start = { q: 0, r: 0 };
+  const goal = { q: size - 1, r: size - 1 };
+  const targets = Array.from({ length: 20 }, (_, i) => ({ q: (i * 37) % size, r: (i * 53) % size }));
+
+  bench("full distance field", () => {
+    dijkstra(start, board);
+  });
+  bench("A* corner to corner", () => {
+    aStar(start, goal, board);
+  });
+  bench("multi-target dijkstra (20 targets)", () => {
+    nearestTarget(dijkstra(start, board, { targets }), targets);
+  });
+});
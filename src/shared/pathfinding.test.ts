@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { HexCoords } from "./board";
+import { hexDistance, hexKey } from "./hex";
+import { aStar, dijkstra, nearestTarget, pathTo } from "./pathfinding";
+import type { StepCost } from "./pathfinding";
+import { createPriorityQueue } from "./priorityQueue";
+
+// Prostokatna plansza 8x8; "walls" to pola nieprzejezdne, "slow" kosztuja 3.
+function gridCost(walls: string[] = [], slow: string[] = []): StepCost {
+  return (to: HexCoords) => {
+    if (to.q < 0 || to.r < 0 || to.q > 7 || to.r > 7) return null;
+    const key = hexKey(to);
+    if (walls.includes(key)) return null;
+    return slow.includes(key) ? 3 : 1;
+  };
+}
+
+describe("priority queue", () => {
+  it("pops items in priority order", () => {
+    const queue = createPriorityQueue<string>();
+    [5, 1, 4, 2, 3, 0].forEach((p) => queue.push(`p${p}`, p));
+    const popped: (string | undefined)[] = [];
+    while (queue.size()) popped.push(queue.pop());
+    expect(popped).toEqual(["p0", "p1", "p2", "p3", "p4", "p5"]);
+    expect(queue.pop()).toBeUndefined();
+  });
+});
+
+describe("pathfinding", () => {
+  it("returns the full distance field within the cost limit", () => {
+    const field = dijkstra({ q: 0, r: 0 }, gridCost(), { maxCost: 3 });
+    field.costs.forEach((cost, key) => {
+      const [q, r] = key.split(",").map(Number);
+      expect(cost).toBe(hexDistance({ q: 0, r: 0 }, { q, r }));
+    });
+    expect(field.costs.get("3,0")).toBe(3);
+    expect(field.costs.has("4,0")).toBe(false);
+  });
+
+  it("supports several sources and stops once all targets are settled", () => {
+    const sources = [
+      { q: 0, r: 0 },
+      { q: 7, r: 7 },
+    ];
+    const field = dijkstra(sources, gridCost(), { targets: [{ q: 1, r: 0 }] });
+    expect(field.costs.get("1,0")).toBe(1);
+    expect(field.costs.size).toBeLessThan(64);
+
+    const full = dijkstra(sources, gridCost());
+    expect(full.costs.get("6,7")).toBe(1);
+    expect(nearestTarget(full, [{ q: 4, r: 0 }, { q: 7, r: 5 }])).toEqual({
+      cost: 2,
+      path: [{ q: 7, r: 7 }, { q: 7, r: 6 }, { q: 7, r: 5 }],
+    });
+  });
+
+  it("finds the same cheapest cost with A* as with Dijkstra around walls and slow terrain", () => {
+    const cost = gridCost(["2,0", "2,1", "2,2", "2,3"], ["1,4", "2,4"]);
+    const start = { q: 0, r: 0 };
+    const goal = { q: 4, r: 1 };
+    const field = dijkstra(start, cost);
+    const path = aStar(start, goal, cost);
+    expect(path?.cost).toBe(field.costs.get(hexKey(goal)));
+    expect(path?.path).toHaveLength(pathTo(field, goal).length);
+    expect(aStar(start, goal, cost, { maxCost: 3 })).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+// Wyszukiwanie sciezek na heksach: Dijkstra (pelne pole odleglosci, wiele zrodel i celow)
+// oraz A* dla pojedynczego celu. Oba na kolejce priorytetowej z kopcem binarnym.
+import type { HexCoords } from "./board";
+import { hexDistance, hexKey, hexNeighbors, parseHexKey } from "./hex";
+import { createPriorityQueue } from "./priorityQueue";
+
+// Koszt wejscia na pole `to` z sasiedniego `from`; null = pole niedostepne.
+export type StepCost = (to: HexCoords, from: HexCoords) => number | null;
+
+// Koszt dotarcia do kazdego odwiedzonego pola i poprzednik na najtanszej sciezce
+// (klucze "q,r"; zrodla maja poprzednika null).
+export type DistanceField = {
+  costs: Map<string, number>;
+  prev: Map<string, string | null>;
+};
+
+// Sciezka od startu do celu wlacznie z jej kosztem.
+export type HexPath = {
+  cost: number;
+  path: HexCoords[];
+};
+
+export type DijkstraOptions = {
+  // Pola drozsze niz limit nie trafiaja do wyniku.
+  maxCost?: number;
+  // Przeszukiwanie konczy sie, gdy wszystkie cele maja juz ostateczny koszt.
+  targets?: HexCoords[];
+};
+
+export type AStarOptions = {
+  maxCost?: number;
+  // Najmniejszy koszt kroku; heurystyka to odleglosc * minStepCost (musi nie przeszacowac).
+  minStepCost?: number;
+};
+
+// Dijkstra od jednego lub wielu pol startowych.
+export function dijkstra(
+  sources: HexCoords | HexCoords[],
+  stepCost: StepCost,
+  options: DijkstraOptions = {}
+): DistanceField {
+  const maxCost = options.maxCost ?? Infinity;
+  const costs = new Map<string, number>();
+  const prev = new Map<string, string | null>();
+  const done = new Set<string>();
+  const queue = createPriorityQueue<HexCoords>();
+  const pending = options.targets ? new Set(options.targets.map(hexKey)) : null;
+
+  (Array.isArray(sources) ? sources : [sources]).forEach((source) => {
+    const key = hexKey(source);
+    if (costs.has(key)) return;
+    costs.set(key, 0);
+    prev.set(key, null);
+    queue.push(source, 0);
+  });
+
+  while (queue.size()) {
+    const current = queue.pop() as HexCoords;
+    const currentKey = hexKey(current);
+    // Przestarzaly wpis w kolejce (pole zostalo juz rozliczone tanszym kosztem).
+    if (done.has(currentKey)) continue;
+    done.add(currentKey);
+    if (pending) {
+      pending.delete(currentKey);
+      if (!pending.size) break;
+    }
+
+    const currentCost = costs.get(currentKey) as number;
+    for (const next of hexNeighbors(current)) {
+      const step = stepCost(next, current);
+      if (step == null) continue;
+      const key = hexKey(next);
+      const tentative = currentCost + step;
+      if (tentative > maxCost) continue;
+      const known = costs.get(key);
+      if (known == null || tentative < known) {
+        costs.set(key, tentative);
+        prev.set(key, currentKey);
+        queue.push(next, tentative);
+      }
+    }
+  }
+
+  return { costs, prev };
+}
+
+// Sciezka (od zrodla) do pola obecnego w polu odleglosci; pusta, gdy pole nieosiagalne.
+export function pathTo(field: DistanceField, target: HexCoords): HexCoords[] {
+  let key: string | null = hexKey(target);
+  if (!field.costs.has(key)) return [];
+  const path: HexCoords[] = [];
+  while (key) {
+    path.push(parseHexKey(key));
+    key = field.prev.get(key) ?? null;
+  }
+  return path.reverse();
+}
+
+// Najtanszy osiagalny cel z listy (np. najblizszy wrog albo wolne pole rozstawienia).
+export function nearestTarget(field: DistanceField, targets: HexCoords[]): HexPath | null {
+  let best: HexCoords | null = null;
+  let bestCost = Infinity;
+  targets.forEach((target) => {
+    const cost = field.costs.get(hexKey(target));
+    if (cost != null && cost < bestCost) {
+      best = target;
+      bestCost = cost;
+    }
+  });
+  return best ? { cost: bestCost, path: pathTo(field, best) } : null;
+}
+
+// A* do jednego celu z heurystyka odleglosci heksowej.
+export function aStar(
+  start: HexCoords,
+  goal: HexCoords,
+  stepCost: StepCost,
+  options: AStarOptions = {}
+): HexPath | null {
+  const maxCost = options.maxCost ?? Infinity;
+  const minStep = options.minStepCost ?? 1;
+  const goalKey = hexKey(goal);
+  const startKey = hexKey(start);
+  const field: DistanceField = {
+    costs: new Map([[startKey, 0]]),
+    prev: new Map([[startKey, null]]),
+  };
+  const done = new Set<string>();
+  const queue = createPriorityQueue<HexCoords>();
+  queue.push(start, hexDistance(start, goal) * minStep);
+
+  while (queue.size()) {
+    const current = queue.pop() as HexCoords;
+    const currentKey = hexKey(current);
+    if (done.has(currentKey)) continue;
+    done.add(currentKey);
+    const currentCost = field.costs.get(currentKey) as number;
+    if (currentKey === goalKey) {
+      return { cost: currentCost, path: pathTo(field, goal) };
+    }
+
+    for (const next of hexNeighbors(current)) {
+      const step = stepCost(next, current);
+      if (step == null) continue;
+      const key = hexKey(next);
+      const tentative = currentCost + step;
+      if (tentative > maxCost) continue;
+      const known = field.costs.get(key);
+      if (known == null || tentative < known) {
+        field.costs.set(key, tentative);
+        field.prev.set(key, currentKey);
+        queue.push(next, tentative + hexDistance(next, goal) * minStep);
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,71 @@
+// Kolejka priorytetowa na kopcu binarnym (min-heap): push i pop w O(log n).
+// Przy rownym priorytecie kolejnosc nie jest gwarantowana.
+
+export type PriorityQueue<T> = {
+  push: (item: T, priority: number) => void;
+  // Element o najmniejszym priorytecie (albo undefined, gdy kolejka jest pusta).
+  pop: () => T | undefined;
+  peekPriority: () => number | undefined;
+  size: () => number;
+};
+
+export function createPriorityQueue<T>(): PriorityQueue<T> {
+  const items: T[] = [];
+  const priorities: number[] = [];
+
+  const swap = (a: number, b: number) => {
+    [items[a], items[b]] = [items[b], items[a]];
+    [priorities[a], priorities[b]] = [priorities[b], priorities[a]];
+  };
+
+  const siftUp = (index: number) => {
+    let i = index;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (priorities[parent] <= priorities[i]) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const siftDown = (index: number) => {
+    let i = index;
+    const n = items.length;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < n && priorities[left] < priorities[smallest]) smallest = left;
+      if (right < n && priorities[right] < priorities[smallest]) smallest = right;
+      if (smallest === i) return;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
+
+  return {
+    push(item, priority) {
+      items.push(item);
+      priorities.push(priority);
+      siftUp(items.length - 1);
+    },
+    pop() {
+      if (!items.length) return undefined;
+      const top = items[0];
+      const lastItem = items.pop() as T;
+      const lastPriority = priorities.pop() as number;
+      if (items.length) {
+        items[0] = lastItem;
+        priorities[0] = lastPriority;
+        siftDown(0);
+      }
+      return top;
+    },
+    peekPriority() {
+      return priorities[0];
+    },
+    size() {
+      return items.length;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// Deterministyczny generator liczb pseudolosowych (mulberry32).
+// Caly stan to jedna liczba 32-bit, wiec mozna go trzymac w GameState i odtwarzac bitwy.
+
+// Kolejna liczba z przedzialu [0, 1) oraz nowy stan generatora.
+export function nextRandom(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return { value, state: next };
+}
+
+// Stabilne ziarno z tekstu (FNV-1a), np. z gameId.
+export function seedFromString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+// Wygodny generator stanowy do kodu, ktory losuje wiele razy pod rzad (np. generator map).
+export function createRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    const roll = nextRandom(state);
+    state = roll.state;
+    return roll.value;
+  };
+}
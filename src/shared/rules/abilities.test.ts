@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHARGE_BONUS,
+  applyAction,
+  applyMoraleLoss,
+  previewAttack,
+  unitAbilities,
+  unitStats,
+} from "./index";
+import { PLAYER_A, PLAYER_B, makeState, makeTemplate, makeUnit } from "./fixtures";
+
+const ctx = {
+  templates: [
+    makeTemplate({ id: "line-infantry", rangedAttack: 3, attackRange: 2, maxHp: 20 }),
+    makeTemplate({ id: "light-infantry", rangedAttack: 3, attackRange: 2 }),
+    makeTemplate({ id: "guard-infantry" }),
+    makeTemplate({ id: "dragon-cavalry", category: "cavalry", meleeAttack: 6, speed: 4 }),
+    makeTemplate({ id: "militia", abilities: ["skirmish", "unknown" as never] }),
+    makeTemplate({ id: "constructor", abilities: ["toString" as never] }),
+  ],
+};
+
+describe("unit abilities", () => {
+  const enemy = makeUnit({ unitId: "9", ownerPlayerId: PLAYER_B, q: 3, r: 1, currentHP: 20 });
+  const fire = (unitId: string) =>
+    ({ type: "ATTACK", playerId: PLAYER_A, payload: { unitId, targetUnitId: "9" } }) as const;
+
+  it("reads abilities from data with catalogue defaults and drops unknown ones", () => {
+    expect(unitAbilities(makeTemplate({ id: "light-infantry" }))).toEqual(["skirmish"]);
+    expect(unitAbilities(makeTemplate({ id: "hussar", category: "cavalry" }))).toEqual(["charge"]);
+    expect(unitAbilities(ctx.templates[4])).toEqual(["skirmish"]);
+  });
+
+  it("ignores prototype keys in ability data and payloads", () => {
+    expect(unitAbilities(ctx.templates[5])).toEqual([]);
+    expect(unitAbilities(makeTemplate({ id: "constructor" }))).toEqual([]);
+    const state = makeState({ units: [makeUnit({ unitId: "1", q: 1, r: 1 })] });
+    const result = applyAction(
+      state,
+      { type: "USE_ABILITY", playerId: PLAYER_A, payload: { unitId: "1", ability: "constructor" } },
+      ctx
+    );
+    expect(result.ok ? null : result.rejection.code).toBe("INVALID_PAYLOAD");
+  });
+
+  it("lets skirmishers move after firing while line infantry stays put", () => {
+    const line = makeUnit({ unitId: "1", q: 1, r: 1 });
+    const light = makeUnit({ unitId: "2", template: "light-infantry", q: 1, r: 2 });
+    const state = makeState({ units: [line, light, enemy] });
+    const lineFire = applyAction(state, fire("1"), ctx);
+    const lightFire = applyAction(state, fire("2"), ctx);
+    if (!lineFire.ok || !lightFire.ok) throw new Error("attack rejected");
+    expect(lineFire.state.units[0].hasMoved).toBe(true);
+    expect(lightFire.state.units[1].hasMoved).toBeFalsy();
+  });
+
+  it("dismounts dragoons into slower, sturdier infantry without a charge", () => {
+    const dragoon = makeUnit({ unitId: "3", template: "dragon-cavalry", q: 2, r: 1 });
+    const state = makeState({ units: [dragoon, enemy] });
+    expect(previewAttack(state, { ...dragoon, hasMoved: true }, enemy, ctx).chargeMultiplier).toBe(CHARGE_BONUS);
+
+    const result = applyAction(
+      state,
+      { type: "USE_ABILITY", playerId: PLAYER_A, payload: { unitId: "3", ability: "dismount" } },
+      ctx
+    );
+    if (!result.ok) throw new Error(result.rejection.message);
+    const dismounted = result.state.units[0];
+    expect(dismounted).toMatchObject({ dismounted: true, hasMoved: true });
+    expect(unitStats(ctx, dismounted)).toMatchObject({ category: "infantry", speed: 2, defense: 2 });
+    expect(previewAttack(result.state, dismounted, enemy, ctx).chargeMultiplier).toBe(1);
+
+    const noAbility = applyAction(
+      makeState({ units: [makeUnit({ unitId: "5", q: 0, r: 0 })] }),
+      { type: "USE_ABILITY", playerId: PLAYER_A, payload: { unitId: "5", ability: "dismount" } },
+      ctx
+    );
+    expect(noAbility.ok ? null : noAbility.rejection.code).toBe("NO_ABILITY");
+  });
+
+  it("keeps elite units steady through their first failed rout check", () => {
+    const guard = makeUnit({ unitId: "4", template: "guard-infantry", q: 2, r: 2, morale: 30 });
+    const first = applyMoraleLoss(makeState({ units: [guard] }), "4", 10, ctx);
+    expect(first.events).toEqual([{ type: "ROUT_RESISTED", unitId: "4" }]);
+    expect(first.state.units[0]).toMatchObject({ morale: 20, routResisted: true });
+    expect(first.state.units[0].routed).toBeFalsy();
+
+    const second = applyMoraleLoss(first.state, "4", 5, ctx);
+    expect(second.state.units[0].routed).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+// Zdolnosci specjalne jednostek: lista z UnitDto.abilities i rejestr obslugujacych je
+// funkcji, z ktorego korzystaja pozostale reguly (walka, ruch, morale, akcja USE_ABILITY).
+import type { GameActionPayload, GameState, UnitOnBoardState } from "../game";
+import type { UnitAbility, UnitDto } from "../unit";
+import {
+  actingPlayerId,
+  checkActingUnit,
+  isDeployment,
+  reject,
+  unitCategory,
+  unitTemplate,
+  updateUnit,
+} from "./state";
+import type { RuleResult, RulesContext } from "./types";
+
+// Mnoznik ataku wrecz kawalerii, ktora w tej turze juz sie ruszyla (szarza).
+export const CHARGE_BONUS = 1.5;
+
+// Spieszeni dragoni: wolniejsi, ale lepiej sie bronia.
+export const DISMOUNTED_SPEED_PENALTY = 2;
+export const DISMOUNTED_DEFENSE_BONUS = 2;
+
+// Obsluga jednej zdolnosci; kazdy hak jest opcjonalny.
+export type AbilityHandler = {
+  label: string;
+  description: string;
+  // Mnoznik ataku przy szarzy.
+  chargeMultiplier?: (unit: UnitOnBoardState, isRanged: boolean) => number;
+  // Zmiana statystyk jednostki (przed szykiem piechoty).
+  modifyStats?: (stats: UnitDto, unit: UnitOnBoardState) => UnitDto;
+  // Czy jednostka moze sie jeszcze ruszyc po ataku.
+  moveAfterAttack?: (isRanged: boolean) => boolean;
+  // Czy jednostka wytrzymuje test rozbicia, ktory powinna oblac.
+  resistsRout?: (unit: UnitOnBoardState) => boolean;
+  // Aktywacja akcja USE_ABILITY.
+  activate?: (state: GameState, unit: UnitOnBoardState) => RuleResult;
+};
+
+export const ABILITY_HANDLERS: Record<UnitAbility, AbilityHandler> = {
+  skirmish: {
+    label: "Skirmish",
+    description: "May still move after firing.",
+    moveAfterAttack: (isRanged) => isRanged,
+  },
+  charge: {
+    label: "Charge",
+    description: `Melee attacks after moving hit x${CHARGE_BONUS} harder.`,
+    chargeMultiplier: (unit, isRanged) =>
+      !isRanged && unit.hasMoved && !unit.dismounted ? CHARGE_BONUS : 1,
+  },
+  dismount: {
+    label: "Dismount",
+    description: `Fights on foot as infantry: -${DISMOUNTED_SPEED_PENALTY} speed, +${DISMOUNTED_DEFENSE_BONUS} defense, no charge. Mounting or dismounting uses the move.`,
+    modifyStats: (stats, unit) =>
+      unit.dismounted
+        ? {
+            ...stats,
+            category: "infantry",
+            speed: Math.max(1, stats.speed - DISMOUNTED_SPEED_PENALTY),
+            defense: stats.defense + DISMOUNTED_DEFENSE_BONUS,
+          }
+        : stats,
+    activate: (state, unit) => {
+      const deployment = isDeployment(state);
+      if (!deployment && unit.hasMoved) {
+        return reject("ALREADY_MOVED", "Mounting or dismounting takes the unit's move.");
+      }
+      const dismounted = !unit.dismounted;
+      return {
+        ok: true,
+        state: updateUnit(state, unit.unitId, deployment ? { dismounted } : { dismounted, hasMoved: true }),
+        events: [{ type: "ABILITY_USED", unitId: unit.unitId, ability: "dismount" }],
+      };
+    },
+  },
+  elite: {
+    label: "Elite",
+    description: "Immune to the first failed rout check.",
+    resistsRout: (unit) => !unit.routResisted,
+  },
+};
+
+// Tylko wlasne klucze - `in` przepuscilby tez "constructor" czy "toString" z prototypu.
+export function isAbility(value: unknown): value is UnitAbility {
+  return typeof value === "string" && Object.hasOwn(ABILITY_HANDLERS, value);
+}
+
+// Domyslne zdolnosci jednostek z katalogu, gdy dane ich nie podaja.
+export const DEFAULT_ABILITIES: Record<string, UnitAbility[]> = {
+  "light-infantry": ["skirmish"],
+  "guard-infantry": ["elite"],
+  "dragon-cavalry": ["charge", "dismount"],
+};
+
+// Zdolnosci szablonu: jawne z danych (nieznane sa pomijane), domyslne dla katalogu,
+// a kawaleria bez danych szarzuje.
+export function unitAbilities(template: UnitDto): UnitAbility[] {
+  if (template.abilities) return template.abilities.filter(isAbility);
+  if (Object.hasOwn(DEFAULT_ABILITIES, template.id)) return DEFAULT_ABILITIES[template.id];
+  return unitCategory(template) === "cavalry" ? ["charge"] : [];
+}
+
+export function abilityHandlers(ctx: RulesContext, unit: UnitOnBoardState): AbilityHandler[] {
+  return unitAbilities(unitTemplate(ctx, unit)).map((ability) => ABILITY_HANDLERS[ability]);
+}
+
+export function hasAbility(ctx: RulesContext, unit: UnitOnBoardState, ability: UnitAbility): boolean {
+  return unitAbilities(unitTemplate(ctx, unit)).includes(ability);
+}
+
+export function abilityStats(ctx: RulesContext, unit: UnitOnBoardState, stats: UnitDto): UnitDto {
+  return abilityHandlers(ctx, unit).reduce(
+    (current, handler) => (handler.modifyStats ? handler.modifyStats(current, unit) : current),
+    stats
+  );
+}
+
+export function abilityChargeMultiplier(
+  ctx: RulesContext,
+  unit: UnitOnBoardState,
+  isRanged: boolean
+): number {
+  return abilityHandlers(ctx, unit).reduce(
+    (multiplier, handler) => multiplier * (handler.chargeMultiplier?.(unit, isRanged) ?? 1),
+    1
+  );
+}
+
+// Atak konczy ruch jednostki, chyba ze ktoras z jej zdolnosci na to pozwala.
+export function canMoveAfterAttack(
+  ctx: RulesContext,
+  unit: UnitOnBoardState,
+  isRanged: boolean
+): boolean {
+  return abilityHandlers(ctx, unit).some((handler) => handler.moveAfterAttack?.(isRanged));
+}
+
+export function resistsRout(ctx: RulesContext, unit: UnitOnBoardState): boolean {
+  return abilityHandlers(ctx, unit).some((handler) => handler.resistsRout?.(unit));
+}
+
+// Akcja USE_ABILITY: aktywacja zdolnosci, ktora ma hak activate (np. spieszenie dragonow).
+export function activateAbility(
+  state: GameState,
+  playerId: number | undefined,
+  payload: GameActionPayload | undefined,
+  ctx: RulesContext
+): RuleResult {
+  const ability = payload?.ability;
+  if (!isAbility(ability)) {
+    return reject("INVALID_PAYLOAD", "USE_ABILITY requires unitId and ability.");
+  }
+  const checked = checkActingUnit(state, payload?.unitId, actingPlayerId(state, playerId));
+  if ("rejected" in checked) return checked.rejected;
+  const { unit } = checked;
+
+  const activate = ABILITY_HANDLERS[ability].activate;
+  if (!hasAbility(ctx, unit, ability) || !activate) {
+    return reject("NO_ABILITY", `This unit cannot use ${ABILITY_HANDLERS[ability].label}.`);
+  }
+  if (unit.routed) {
+    return reject("UNIT_ROUTED", "Routed units cannot use abilities until they rally.");
+  }
+  return activate(state, unit);
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHARGE_BONUS,
+  applyAction,
+  attackableAfterMove,
+  buildTileIndex,
+  carryLocalState,
+  findPath,
+  reachableTiles,
+} from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeTiles, makeUnit } from "./fixtures";
+
+describe("MOVE", () => {
+  it("moves a unit along a path within its speed and marks it as moved", () => {
+    const state = makeState({ units: [makeUnit({ unitId: "1", q: 0, r: 0 })] });
+    const result = applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: 1, q: 2, r: 0 } }, ctx);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.units[0]).toMatchObject({ q: 2, r: 0, hasMoved: true });
+    expect(state.units[0]).toMatchObject({ q: 0, r: 0 });
+  });
+
+  it("rejects targets beyond movement points and second moves", () => {
+    const state = makeState({ units: [makeUnit({ unitId: "1" })] });
+    const far = applyAction(state, { type: "MOVE", payload: { unitId: "1", q: 3, r: 0 } }, ctx);
+    expect(far).toMatchObject({ ok: false, rejection: { code: "UNREACHABLE" } });
+
+    const moved = makeState({ units: [makeUnit({ unitId: "1", hasMoved: true })] });
+    const again = applyAction(moved, { type: "MOVE", payload: { unitId: "1", q: 1, r: 0 } }, ctx);
+    expect(again).toMatchObject({ ok: false, rejection: { code: "ALREADY_MOVED" } });
+  });
+
+  it("rejects moving enemy units or acting out of turn", () => {
+    const state = makeState({
+      units: [makeUnit({ unitId: "1" }), makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 5 })],
+    });
+    const foreign = applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "2", q: 4, r: 0 } }, ctx);
+    expect(foreign).toMatchObject({ ok: false, rejection: { code: "NOT_OWNER" } });
+
+    const outOfTurn = applyAction(state, { type: "MOVE", playerId: PLAYER_B, payload: { unitId: "2", q: 4, r: 0 } }, ctx);
+    expect(outOfTurn).toMatchObject({ ok: false, rejection: { code: "NOT_YOUR_TURN" } });
+  });
+
+  it("places units freely during deployment but not on occupied tiles", () => {
+    const state = makeState({
+      status: "not_started",
+      units: [makeUnit({ unitId: "1" }), makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 4, r: 4 })],
+    });
+    const placed = applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", q: 5, r: 5 } }, ctx);
+    expect(placed.ok).toBe(true);
+
+    const blocked = applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", q: 4, r: 4 } }, ctx);
+    expect(blocked).toMatchObject({ ok: false, rejection: { code: "TILE_BLOCKED" } });
+  });
+});
+
+describe("findPath", () => {
+  it("routes around impassable tiles and falls back to the closest reachable tile", () => {
+    const tiles = buildTileIndex(makeTiles(4, 3, { "1,0": { passable: false }, "1,1": { passable: false } }));
+    const around = findPath(tiles, { q: 0, r: 0 }, { q: 2, r: 0 }, new Set(), 10);
+    expect(around?.path).toHaveLength(6);
+    expect(around?.cost).toBe(5);
+
+    const partial = findPath(tiles, { q: 0, r: 0 }, { q: 2, r: 0 }, new Set(), 4);
+    expect(partial?.path[partial.path.length - 1]).toEqual({ q: 2, r: 1 });
+  });
+});
+
+describe("reachable tiles", () => {
+  it("floods every tile within the unit's speed and nothing after it moved", () => {
+    const unit = makeUnit({ unitId: "1" });
+    const state = makeState({ units: [unit] });
+    expect([...reachableTiles(state, unit, ctx).costs.keys()].sort()).toEqual(
+      ["0,0", "0,1", "0,2", "1,0", "1,1", "2,0"]
+    );
+    expect(reachableTiles(state, { ...unit, hasMoved: true }, ctx).costs.size).toBe(1);
+  });
+
+  it("finds enemies attackable after moving with the cheapest tile to strike from", () => {
+    const cavalry = makeUnit({ unitId: "1", template: "light-cavalry" });
+    const enemy = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 3, r: 0 });
+    const state = makeState({ units: [cavalry, enemy] });
+    expect(attackableAfterMove(state, cavalry, ctx)).toMatchObject([
+      { target: { unitId: "2" }, from: { q: 2, r: 0 }, cost: 2, preview: { chargeMultiplier: CHARGE_BONUS } },
+    ]);
+    expect(attackableAfterMove(state, { ...cavalry, hasActed: true }, ctx)).toEqual([]);
+  });
+});
+
+describe("ATTACK", () => {
+  const attacker = makeUnit({ unitId: "1", template: "line-infantry", q: 0, r: 0 });
+  const target = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 0, currentHP: 10 });
+
+  it("uses ranged attack beyond melee distance and reports the damage", () => {
+    const result = applyAction(
+      makeState({ units: [attacker, target] }),
+      { type: "ATTACK", payload: { unitId: "1", targetUnitId: "2" } },
+      ctx
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    // Piechota domyslnie strzela w linii: 3 x 1.25 -> 4.
+    expect(result.state.units[1].currentHP).toBe(6);
+    expect(result.state.units[0].hasActed).toBe(true);
+    expect(result.events).toContainEqual(expect.objectContaining({ type: "UNIT_DAMAGED", unitId: "2", amount: 4 }));
+  });
+
+  it("rejects out of range targets and friendly fire", () => {
+    const far = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 4, r: 0 });
+    const outOfRange = applyAction(
+      makeState({ units: [attacker, far] }),
+      { type: "ATTACK", payload: { unitId: "1", targetUnitId: "2" } },
+      ctx
+    );
+    expect(outOfRange).toMatchObject({ ok: false, rejection: { code: "OUT_OF_RANGE" } });
+
+    const friend = makeUnit({ unitId: "3", q: 1, r: 0 });
+    const friendly = applyAction(
+      makeState({ units: [attacker, friend] }),
+      { type: "ATTACK", payload: { unitId: "1", targetUnitId: "3" } },
+      ctx
+    );
+    expect(friendly).toMatchObject({ ok: false, rejection: { code: "INVALID_TARGET" } });
+  });
+});
+
+describe("END_TURN", () => {
+  it("passes the turn, clears flags and advances the round after the last player", () => {
+    const state = makeState({ units: [makeUnit({ unitId: "1", hasMoved: true, hasActed: true })] });
+    const first = applyAction(state, { type: "END_TURN", playerId: PLAYER_A }, ctx);
+    expect(first).toMatchObject({ ok: true, state: { currentPlayerId: PLAYER_B, turnNumber: 1 } });
+    if (!first.ok) return;
+    expect(first.state.units[0]).toMatchObject({ hasMoved: false, hasActed: false });
+
+    const second = applyAction(first.state, { type: "END_TURN", playerId: PLAYER_B }, ctx);
+    expect(second).toMatchObject({ ok: true, state: { currentPlayerId: PLAYER_A, turnNumber: 2 } });
+  });
+
+  it("carries local turn flags onto a backend state of the same turn", () => {
+    const predicted = makeState({ units: [makeUnit({ unitId: "1", hasMoved: true })] });
+    const backend = makeState({ units: [makeUnit({ unitId: "1", q: 1 })] });
+    expect(carryLocalState(backend, predicted).units[0]).toMatchObject({ q: 1, hasMoved: true });
+    expect(carryLocalState({ ...backend, turnNumber: 2 }, predicted).units[0].hasMoved).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+// Wejscie silnika zasad: GameState + ApplyActionDto -> nowy GameState albo odrzucenie.
+import type { ApplyActionDto, GameState } from "../game";
+import { activateAbility } from "./abilities";
+import { setLimbered } from "./artillery";
+import { attackUnit } from "./combat";
+import { changeFormation } from "./formation";
+import { rallyUnit } from "./morale";
+import { moveUnit } from "./movement";
+import { updateObjectiveControl } from "./objectives";
+import { reject } from "./state";
+import { endTurn } from "./turn";
+import type { RuleResult, RulesContext } from "./types";
+import { checkVictory } from "./victory";
+
+// Po kazdej udanej akcji jednostki stojace na celach przejmuja nad nimi kontrole,
+// a spelnienie warunkow zwyciestwa z ustawien gry konczy partie.
+export function applyAction(
+  state: GameState,
+  action: ApplyActionDto,
+  ctx: RulesContext
+): RuleResult {
+  if (state.status === "finished") {
+    return reject("GAME_FINISHED", "The game is already finished.");
+  }
+  const result = dispatchAction(state, action, ctx);
+  if (!result.ok) return result;
+  const control = updateObjectiveControl(result.state);
+  const victory = checkVictory(control.state, ctx);
+  return {
+    ok: true,
+    state: victory.state,
+    events: [...result.events, ...control.events, ...victory.events],
+  };
+}
+
+function dispatchAction(state: GameState, action: ApplyActionDto, ctx: RulesContext): RuleResult {
+  switch (action.type) {
+    case "MOVE":
+      return moveUnit(state, action.playerId, action.payload, ctx);
+    case "ATTACK":
+      return attackUnit(state, action.playerId, action.payload, ctx);
+    case "RALLY":
+      return rallyUnit(state, action.playerId, action.payload);
+    case "CHANGE_FORMATION":
+      return changeFormation(state, action.playerId, action.payload, ctx);
+    case "LIMBER":
+      return setLimbered(state, action.playerId, action.payload, ctx, false);
+    case "UNLIMBER":
+      return setLimbered(state, action.playerId, action.payload, ctx, true);
+    case "USE_ABILITY":
+      return activateAbility(state, action.playerId, action.payload, ctx);
+    case "END_TURN":
+      return endTurn(state, action.playerId, ctx);
+    default:
+      return reject("INVALID_PAYLOAD", `Unsupported action: ${String(action.type)}`);
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, resolveSplash, withArtilleryTraits } from "./index";
+import { PLAYER_A, PLAYER_B, makeState, makeTemplate, makeTiles, makeUnit } from "./fixtures";
+
+const ctx = {
+  templates: [
+    makeTemplate({ id: "line-infantry", maxHp: 20 }),
+    makeTemplate({
+      id: "cannon",
+      category: "artillery",
+      rangedAttack: 8,
+      attackRange: 4,
+      limberRequired: true,
+      splashChance: 1,
+      splashDamage: 0.5,
+    }),
+    makeTemplate({
+      id: "howitzer",
+      category: "artillery",
+      rangedAttack: 6,
+      attackRange: 5,
+      limberRequired: true,
+      indirectFire: true,
+      minAttackRange: 3,
+    }),
+  ],
+};
+
+describe("artillery", () => {
+  const cannon = makeUnit({ unitId: "1", template: "cannon", q: 0, r: 2 });
+  const target = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 3, r: 2, currentHP: 20 });
+  const neighbour = makeUnit({ unitId: "3", ownerPlayerId: PLAYER_B, q: 4, r: 2, currentHP: 20 });
+
+  it("fires only unlimbered and marches only limbered", () => {
+    const state = makeState({ units: [cannon, target] });
+    const attack = { type: "ATTACK" as const, playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "2" } };
+    const limbered = applyAction(state, attack, ctx);
+    expect(limbered.ok ? null : limbered.rejection.code).toBe("LIMBERED");
+
+    const unlimber = applyAction(state, { type: "UNLIMBER", playerId: PLAYER_A, payload: { unitId: "1" } }, ctx);
+    if (!unlimber.ok) throw new Error(unlimber.rejection.message);
+    expect(unlimber.state.units[0]).toMatchObject({ unlimbered: true, hasMoved: true });
+    expect(applyAction(unlimber.state, attack, ctx).ok).toBe(true);
+
+    const deployed = makeState({ units: [{ ...cannon, unlimbered: true }, target] });
+    const move = applyAction(deployed, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", q: 1, r: 2 } }, ctx);
+    expect(move.ok ? null : move.rejection.code).toBe("UNLIMBERED");
+  });
+
+  it("lets howitzers fire over forests but not at close range", () => {
+    const howitzer = makeUnit({ unitId: "4", template: "howitzer", q: 0, r: 2, unlimbered: true });
+    const tiles = makeTiles(6, 6, { "1,2": { terrain: "forest" }, "2,2": { terrain: "forest" } });
+    const close = makeUnit({ unitId: "5", ownerPlayerId: PLAYER_B, q: 2, r: 2 });
+    const attack = (targetUnitId: string) =>
+      applyAction(
+        makeState({ tiles, units: [howitzer, target, close] }),
+        { type: "ATTACK", playerId: PLAYER_A, payload: { unitId: "4", targetUnitId } },
+        ctx
+      );
+    expect(attack("2").ok).toBe(true);
+    const tooClose = attack("5");
+    expect(tooClose.ok ? null : tooClose.rejection.code).toBe("OUT_OF_RANGE");
+  });
+
+  it("splashes adjacent enemies only when the generator rolls a hit", () => {
+    const friend = makeUnit({ unitId: "6", q: 2, r: 2 });
+    const state = makeState({ units: [{ ...cannon, unlimbered: true }, target, neighbour, friend], rngState: 7 });
+    const result = applyAction(
+      state,
+      { type: "ATTACK", playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "2" } },
+      ctx
+    );
+    if (!result.ok) throw new Error(result.rejection.message);
+    const damaged = result.events.flatMap((ev) => (ev.type === "UNIT_DAMAGED" ? [ev.unitId] : []));
+    expect(damaged).toEqual(["2", "3"]);
+    const splashed = result.state.units.find((u) => u.unitId === "3");
+    expect(splashed?.currentHP).toBeLessThan(20);
+    expect(splashed?.morale).toBeLessThan(100);
+    expect(result.state.units.find((u) => u.unitId === "6")?.currentHP).toBe(10);
+
+    expect(resolveSplash(state, cannon, target, ctx, undefined).hits).toEqual([]);
+  });
+
+  it("fills in traits for the default guns without overriding data", () => {
+    const [six, custom] = withArtilleryTraits([
+      makeTemplate({ id: "six-pounder-cannon" }),
+      makeTemplate({ id: "howitzer-cannon", minAttackRange: 2 }),
+    ]);
+    expect(six).toMatchObject({ limberRequired: true, splashChance: 0.3 });
+    expect(custom).toMatchObject({ indirectFire: true, minAttackRange: 2 });
+  });
+});
@@ -0,0 +1,99 @@
+// Artyleria: przodkowanie/odprzodkowanie dzial, ogien posredni z minimalnym zasiegiem
+// i odlamki trafiajace jednostki obok celu. Zasady wynikaja z opcjonalnych pol UnitDto.
+import type { GameActionPayload, GameState, UnitOnBoardState } from "../game";
+import { hexDistance } from "../hex";
+import type { UnitDto } from "../unit";
+import {
+  actingPlayerId,
+  checkActingUnit,
+  isAlive,
+  isDeployment,
+  reject,
+  unitTemplate,
+  updateUnit,
+} from "./state";
+import type { RuleResult, RulesContext } from "./types";
+
+// Domyslne cechy dzial z katalogu jednostek, gdy backend ich nie przysyla.
+export const ARTILLERY_TRAITS: Record<string, Partial<UnitDto>> = {
+  "six-pounder-cannon": { limberRequired: true, splashChance: 0.3, splashDamage: 0.5 },
+  "twelve-pounder-cannon": { limberRequired: true, splashChance: 0.4, splashDamage: 0.5 },
+  "howitzer-cannon": { limberRequired: true, indirectFire: true, minAttackRange: 3 },
+};
+
+// Uzupelnia szablony o domyslne cechy artylerii (pola przyslane z danych maja pierwszenstwo).
+export function withArtilleryTraits(templates: UnitDto[]): UnitDto[] {
+  return templates.map((t) => (ARTILLERY_TRAITS[t.id] ? { ...ARTILLERY_TRAITS[t.id], ...t } : t));
+}
+
+// Czy jednostka moze teraz strzelac (dziala odprzodkowane albo jednostka ich nie ma).
+export function canFire(ctx: RulesContext, unit: UnitOnBoardState): boolean {
+  return !unitTemplate(ctx, unit).limberRequired || Boolean(unit.unlimbered);
+}
+
+// Czy jednostka moze sie ruszyc (odprzodkowane dziala stoja w miejscu).
+export function canMarch(ctx: RulesContext, unit: UnitOnBoardState): boolean {
+  return !unitTemplate(ctx, unit).limberRequired || !unit.unlimbered;
+}
+
+export function minAttackRange(ctx: RulesContext, unit: UnitOnBoardState): number {
+  return unitTemplate(ctx, unit).minAttackRange ?? 0;
+}
+
+// Wrogie jednostki obok celu, ktore moga oberwac odlamkami strzalu.
+export function splashCandidates(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  target: UnitOnBoardState,
+  ctx: RulesContext
+): UnitOnBoardState[] {
+  if ((unitTemplate(ctx, attacker).splashChance ?? 0) <= 0) return [];
+  return state.units.filter(
+    (u) =>
+      isAlive(u) &&
+      u.unitId !== target.unitId &&
+      u.ownerPlayerId !== attacker.ownerPlayerId &&
+      hexDistance(u, target) === 1
+  );
+}
+
+// Akcje LIMBER / UNLIMBER. Odprzodkowanie zuzywa ruch jednostki, a zaprzodkowanie
+// jej akcje, wiec dzialo w jednej turze albo strzela, albo maszeruje.
+// W fazie rozstawienia zmiana jest darmowa.
+export function setLimbered(
+  state: GameState,
+  playerId: number | undefined,
+  payload: GameActionPayload | undefined,
+  ctx: RulesContext,
+  unlimbered: boolean
+): RuleResult {
+  const checked = checkActingUnit(state, payload?.unitId, actingPlayerId(state, playerId));
+  if ("rejected" in checked) return checked.rejected;
+  const { unit } = checked;
+
+  if (!unitTemplate(ctx, unit).limberRequired) {
+    return reject("NO_LIMBER", "Only artillery can limber and unlimber.");
+  }
+  if (Boolean(unit.unlimbered) === unlimbered) {
+    return reject("INVALID_PAYLOAD", `The guns are already ${unlimbered ? "unlimbered" : "limbered"}.`);
+  }
+  if (unit.routed) {
+    return reject("UNIT_ROUTED", "Routed units cannot handle their guns until they rally.");
+  }
+
+  let patch: Partial<UnitOnBoardState> = { unlimbered };
+  if (!isDeployment(state)) {
+    if (unlimbered && unit.hasMoved) {
+      return reject("ALREADY_MOVED", "Unlimbering takes the unit's move.");
+    }
+    if (!unlimbered && unit.hasActed) {
+      return reject("ALREADY_ACTED", "Limbering takes the unit's action.");
+    }
+    patch = unlimbered ? { unlimbered, hasMoved: true } : { unlimbered, hasActed: true };
+  }
+  return {
+    ok: true,
+    state: updateUnit(state, unit.unitId, patch),
+    events: [{ type: "UNIT_LIMBERED", unitId: unit.unitId, unlimbered }],
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../game";
+import {
+  CHARGE_BONUS,
+  COMBAT_VARIANCE,
+  applyAction,
+  previewAttack,
+  previewRetaliation,
+  resolveAttack,
+} from "./index";
+import { PLAYER_A, PLAYER_B, makeState, makeTemplate, makeUnit } from "./fixtures";
+
+const ctx = {
+  templates: [
+    makeTemplate({ id: "attacker", meleeAttack: 10 }),
+    makeTemplate({ id: "armored", defense: 10, maxHp: 40 }),
+    makeTemplate({ id: "soft", defense: 0, maxHp: 40 }),
+    makeTemplate({ id: "brawler", meleeAttack: 8, maxHp: 20 }),
+    makeTemplate({ id: "gunner", meleeAttack: 0, rangedAttack: 6, attackRange: 3 }),
+    makeTemplate({ id: "hussar", category: "cavalry", meleeAttack: 6 }),
+  ],
+};
+
+describe("combat resolution", () => {
+  const attacker = makeUnit({ unitId: "1", template: "attacker", q: 1, r: 1 });
+  const armored = makeUnit({ unitId: "2", template: "armored", ownerPlayerId: PLAYER_B, q: 2, r: 1, currentHP: 40 });
+  const soft = makeUnit({ unitId: "3", template: "soft", ownerPlayerId: PLAYER_B, q: 1, r: 2, currentHP: 40 });
+
+  it("reduces damage by the defender's defense stat", () => {
+    const state = makeState({ units: [attacker, armored, soft] });
+    expect(previewAttack(state, attacker, soft, ctx).damage).toBe(10);
+    expect(previewAttack(state, attacker, armored, ctx)).toMatchObject({ unitDefense: 10, damage: 5 });
+  });
+
+  it("is deterministic without a seed and bounded by the variance with one", () => {
+    const plain = makeState({ units: [attacker, soft] });
+    expect(resolveAttack(plain, attacker, soft, ctx)).toEqual({
+      result: expect.objectContaining({ roll: null, varianceFactor: 1, damage: 10 }),
+      retaliation: expect.objectContaining({ roll: null }),
+    });
+
+    const seeded = makeState({ units: [attacker, soft], rngState: 42 });
+    const { result, rngState } = resolveAttack(seeded, attacker, soft, ctx);
+    expect(rngState).not.toBe(42);
+    expect(result.damage).toBeGreaterThanOrEqual(Math.round(10 * (1 - COMBAT_VARIANCE)));
+    expect(result.damage).toBeLessThanOrEqual(Math.round(10 * (1 + COMBAT_VARIANCE)));
+  });
+
+  it("replays the same battle from the same seed", () => {
+    const play = (seed: number) => {
+      let state: GameState = makeState({ units: [attacker, soft], rngState: seed });
+      const damage: number[] = [];
+      for (let turn = 0; turn < 4; turn++) {
+        const attack = applyAction(
+          state,
+          { type: "ATTACK", playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "3" } },
+          ctx
+        );
+        if (!attack.ok) throw new Error(attack.rejection.message);
+        attack.events.forEach((ev) => ev.type === "UNIT_DAMAGED" && damage.push(ev.amount));
+        const endA = applyAction(attack.state, { type: "END_TURN", playerId: PLAYER_A }, ctx);
+        if (!endA.ok) throw new Error(endA.rejection.message);
+        const endB = applyAction(endA.state, { type: "END_TURN", playerId: PLAYER_B }, ctx);
+        if (!endB.ok) throw new Error(endB.rejection.message);
+        state = endB.state;
+      }
+      return { damage, state };
+    };
+
+    const first = play(1234);
+    expect(play(1234)).toEqual(first);
+    expect(play(99).damage).not.toEqual(first.damage);
+  });
+});
+
+describe("retaliation and charges", () => {
+  const attacker = makeUnit({ unitId: "1", template: "attacker", q: 1, r: 1, currentHP: 10 });
+  const brawler = makeUnit({ unitId: "2", template: "brawler", ownerPlayerId: PLAYER_B, q: 2, r: 1, currentHP: 20 });
+
+  it("strikes back with melee attack scaled by the defender's remaining HP", () => {
+    const state = makeState({ units: [attacker, brawler] });
+    expect(previewRetaliation(state, attacker, brawler, 20, ctx)).toMatchObject({ strength: 1, damage: 8 });
+    expect(previewRetaliation(state, attacker, brawler, 10, ctx)).toMatchObject({ strength: 0.5, damage: 4 });
+
+    const result = applyAction(
+      state,
+      { type: "ATTACK", playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "2" } },
+      ctx
+    );
+    if (!result.ok) throw new Error(result.rejection.message);
+    expect(result.state.units.map((u) => u.currentHP)).toEqual([6, 10]);
+    expect(result.events.filter((ev) => ev.type === "UNIT_DAMAGED")).toMatchObject([
+      { unitId: "2", amount: 10 },
+      { unitId: "1", amount: 4 },
+    ]);
+  });
+
+  it("has no retaliation against ranged fire or from destroyed defenders", () => {
+    const gunner = makeUnit({ unitId: "3", template: "gunner", q: 0, r: 1 });
+    const state = makeState({ units: [gunner, brawler] });
+    const { retaliation } = resolveAttack(state, gunner, brawler, ctx);
+    expect(retaliation).toBeNull();
+    expect(previewRetaliation(state, attacker, brawler, 0, ctx)).toBeNull();
+  });
+
+  it("gives cavalry a charge bonus on the first melee attack after moving", () => {
+    const hussar = makeUnit({ unitId: "4", template: "hussar", q: 1, r: 1 });
+    const target = makeUnit({ unitId: "5", template: "soft", ownerPlayerId: PLAYER_B, q: 2, r: 1, currentHP: 40 });
+    const state = makeState({ units: [hussar, target] });
+    expect(previewAttack(state, hussar, target, ctx)).toMatchObject({ chargeMultiplier: 1, damage: 6 });
+    expect(previewAttack(state, { ...hussar, hasMoved: true }, target, ctx)).toMatchObject({
+      chargeMultiplier: CHARGE_BONUS,
+      damage: 9,
+    });
+  });
+});
@@ -0,0 +1,412 @@
+// Walka: zasieg, atak kontra obrona, kontratak wrecz, losowosc z ziarna i akcja ATTACK.
+import type { HexCoords } from "../board";
+import type { GameActionPayload, GameState, UnitOnBoardState } from "../game";
+import { hexDistance } from "../hex";
+import { nextRandom } from "../random";
+import { abilityChargeMultiplier, canMoveAfterAttack } from "./abilities";
+import { canFire, minAttackRange, splashCandidates } from "./artillery";
+import { ARC_ATTACK_MULTIPLIER, attackArc } from "./facing";
+import { formationDefense, unitStats } from "./formation";
+import type { AttackArc } from "./facing";
+import { unitHasLineOfSight } from "./lineOfSight";
+import { applyCombatMorale } from "./morale";
+import {
+  actingPlayerId,
+  checkActingUnit,
+  coordsKey,
+  findUnit,
+  isAlive,
+  isDeployment,
+  reject,
+  unitTemplate,
+  updateUnit,
+} from "./state";
+import { reachableTiles } from "./movement";
+import type { MovementField } from "./movement";
+import { unitAmmo } from "./supply";
+import { effectiveAttackRange, terrainAt, terrainModifier } from "./terrain";
+import type { RuleEvent, RuleResult, RulesContext } from "./types";
+
+// Obrona rowna DEFENSE_SCALE zmniejsza obrazenia o polowe.
+export const DEFENSE_SCALE = 10;
+
+// Maksymalne odchylenie obrazen przy wlaczonej losowosci (+/- 20%).
+export const COMBAT_VARIANCE = 0.2;
+
+// Podglad ataku (wartosc oczekiwana, bez losowania): bazowe obrazenia (po szyku), mnoznik
+// terenu pod atakujacym, szarza, luk ataku (front/flanka/tyl), sila (czesc HP przy
+// kontrataku), obrona jednostki, terenu i szyku celu oraz obrazenia wynikowe.
+export type AttackPreview = {
+  distance: number;
+  isRanged: boolean;
+  baseDamage: number;
+  attackMultiplier: number;
+  chargeMultiplier: number;
+  arc: AttackArc;
+  arcMultiplier: number;
+  strength: number;
+  attack: number;
+  unitDefense: number;
+  terrainDefense: number;
+  formationDefense: number;
+  defense: number;
+  damage: number;
+  damageApplied: number;
+};
+
+// Rozstrzygniety atak: podglad + wynik losowania i zastosowany mnoznik odchylenia.
+export type CombatResult = AttackPreview & {
+  roll: number | null;
+  varianceFactor: number;
+};
+
+// Rozstrzygniecie calej wymiany: atak, ewentualny kontratak i nowy stan generatora.
+export type CombatExchange = {
+  result: CombatResult;
+  retaliation: CombatResult | null;
+  rngState?: number;
+};
+
+// Trafienie odlamkami jednostki stojacej obok celu.
+export type SplashHit = {
+  unitId: string;
+  result: CombatResult;
+};
+
+// Obrazenia z ataku i obrony; jednostka zdolna do ataku zadaje zawsze co najmniej 1 punkt.
+function damageFor(attack: number, defense: number, varianceFactor = 1): number {
+  if (attack <= 0) return 0;
+  const raw = (attack * DEFENSE_SCALE) / (DEFENSE_SCALE + defense);
+  return Math.max(1, Math.round(raw * varianceFactor));
+}
+
+type StrikeOptions = {
+  isRanged: boolean;
+  chargeMultiplier: number;
+  strength: number;
+  targetHP: number;
+};
+
+// Wspolne wyliczenie pojedynczego uderzenia (atak albo kontratak).
+function previewStrike(
+  state: GameState,
+  striker: UnitOnBoardState,
+  target: UnitOnBoardState,
+  ctx: RulesContext,
+  options: StrikeOptions
+): AttackPreview {
+  const stats = unitStats(ctx, striker);
+  const baseDamage = options.isRanged ? stats.rangedAttack : stats.meleeAttack;
+  const { attackMultiplier } = terrainModifier(terrainAt(state, striker));
+  const arc = attackArc(state, striker, target);
+  const arcMultiplier = ARC_ATTACK_MULTIPLIER[arc];
+  const attack =
+    baseDamage * attackMultiplier * options.chargeMultiplier * arcMultiplier * options.strength;
+  const unitDefense = unitStats(ctx, target).defense;
+  const terrainDefense = terrainModifier(terrainAt(state, target)).defense;
+  const formationBonus = formationDefense(ctx, target, striker);
+  const defense = Math.max(0, unitDefense + terrainDefense + formationBonus);
+  const damage = damageFor(attack, defense);
+  return {
+    distance: hexDistance(striker, target),
+    isRanged: options.isRanged,
+    baseDamage,
+    attackMultiplier,
+    chargeMultiplier: options.chargeMultiplier,
+    arc,
+    arcMultiplier,
+    strength: options.strength,
+    attack,
+    unitDefense,
+    terrainDefense,
+    formationDefense: formationBonus,
+    defense,
+    damage,
+    damageApplied: Math.min(damage, Math.max(0, options.targetHP)),
+  };
+}
+
+// Wylicza atak bez zmiany stanu (zasieg nie jest tu sprawdzany).
+export function previewAttack(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  target: UnitOnBoardState,
+  ctx: RulesContext
+): AttackPreview {
+  const stats = unitStats(ctx, attacker);
+  const isRanged = hexDistance(attacker, target) > 1 && stats.rangedAttack > 0;
+  return previewStrike(state, attacker, target, ctx, {
+    isRanged,
+    chargeMultiplier: abilityChargeMultiplier(ctx, attacker, isRanged),
+    strength: 1,
+    targetHP: target.currentHP,
+  });
+}
+
+// Kontratak broniacego sie po ataku wrecz: jego atak wrecz przeskalowany przez
+// pozostale HP. Brak kontrataku po strzale, po zniszczeniu obroncy, od rozbitej
+// jednostki albo gdy obronca nie ma ataku wrecz.
+export function previewRetaliation(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  defender: UnitOnBoardState,
+  defenderHP: number,
+  ctx: RulesContext,
+  attack: AttackPreview = previewAttack(state, attacker, defender, ctx)
+): AttackPreview | null {
+  const stats = unitTemplate(ctx, defender);
+  if (attack.isRanged || defenderHP <= 0 || defender.routed || stats.meleeAttack <= 0) return null;
+  return previewStrike(state, defender, attacker, ctx, {
+    isRanged: false,
+    chargeMultiplier: 1,
+    strength: Math.min(1, defenderHP / Math.max(1, stats.maxHp)),
+    targetHP: attacker.currentHP,
+  });
+}
+
+// Losuje odchylenie obrazen dla podgladu; bez stanu generatora wynik jest oczekiwany.
+function rollStrike(
+  preview: AttackPreview,
+  targetHP: number,
+  rngState: number | undefined
+): { result: CombatResult; rngState?: number } {
+  if (rngState == null) {
+    return { result: { ...preview, roll: null, varianceFactor: 1 } };
+  }
+  const roll = nextRandom(rngState);
+  const varianceFactor = 1 + COMBAT_VARIANCE * (2 * roll.value - 1);
+  const damage = damageFor(preview.attack, preview.defense, varianceFactor);
+  return {
+    result: {
+      ...preview,
+      roll: roll.value,
+      varianceFactor,
+      damage,
+      damageApplied: Math.min(damage, Math.max(0, targetHP)),
+    },
+    rngState: roll.state,
+  };
+}
+
+// Rozstrzyga atak i kontratak: gdy GameState ma stan generatora, obrazenia losowo
+// odchylaja sie o maks. COMBAT_VARIANCE (osobne losowanie dla kazdego uderzenia).
+export function resolveAttack(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  target: UnitOnBoardState,
+  ctx: RulesContext
+): CombatExchange {
+  const preview = previewAttack(state, attacker, target, ctx);
+  const strike = rollStrike(preview, target.currentHP, state.rngState);
+  const remainingHP = target.currentHP - strike.result.damageApplied;
+  const counter = previewRetaliation(state, attacker, target, remainingHP, ctx, preview);
+  if (!counter) {
+    return { result: strike.result, retaliation: null, rngState: strike.rngState };
+  }
+  const back = rollStrike(counter, attacker.currentHP, strike.rngState);
+  return { result: strike.result, retaliation: back.result, rngState: back.rngState };
+}
+
+// Odlamki po strzale artylerii: kazda wroga jednostka obok celu jest trafiona z szansa
+// splashChance i dostaje czesc splashDamage sily strzalu. Bez stanu generatora nie ma losowania,
+// wiec nie ma tez odlamkow.
+export function resolveSplash(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  target: UnitOnBoardState,
+  ctx: RulesContext,
+  rngState: number | undefined
+): { hits: SplashHit[]; rngState?: number } {
+  const stats = unitTemplate(ctx, attacker);
+  const hits: SplashHit[] = [];
+  let rng = rngState;
+  if (rng == null || hexDistance(attacker, target) <= 1) return { hits, rngState: rng };
+  for (const unit of splashCandidates(state, attacker, target, ctx)) {
+    const roll = nextRandom(rng);
+    rng = roll.state;
+    if (roll.value >= (stats.splashChance ?? 0)) continue;
+    const preview = previewStrike(state, attacker, unit, ctx, {
+      isRanged: true,
+      chargeMultiplier: 1,
+      strength: stats.splashDamage ?? 0,
+      targetHP: unit.currentHP,
+    });
+    if (preview.damage <= 0) continue;
+    hits.push({ unitId: unit.unitId, result: { ...preview, roll: roll.value, varianceFactor: 1 } });
+  }
+  return { hits, rngState: rng };
+}
+
+// Obrazenia jednostki: nowe HP oraz zdarzenia UNIT_DAMAGED i ewentualnie UNIT_DESTROYED
+// (wspolne dla celu, kontrataku i odlamkow).
+function applyDamage(
+  state: GameState,
+  unitId: string,
+  sourceUnitId: string,
+  amount: number
+): { state: GameState; events: RuleEvent[] } {
+  const victim = findUnit(state, unitId);
+  if (!victim) return { state, events: [] };
+  const hp = victim.currentHP - amount;
+  const events: RuleEvent[] = [
+    { type: "UNIT_DAMAGED", unitId, sourceUnitId, coords: { q: victim.q, r: victim.r }, amount },
+  ];
+  if (hp <= 0) {
+    events.push({ type: "UNIT_DESTROYED", unitId });
+  }
+  return { state: updateUnit(state, unitId, { currentHP: hp }), events };
+}
+
+// Walidacja ataku jednostki na konkretny cel: wrogi i zywy cel, limit akcji, zasieg
+// (takze minimalny), gotowosc dzial, amunicja, linia wzroku dla strzalow na dystans (poza ogniem
+// posrednim) i niezerowe obrazenia.
+export function validateAttack(
+  state: GameState,
+  unit: UnitOnBoardState,
+  target: UnitOnBoardState | undefined,
+  ctx: RulesContext
+): { target: UnitOnBoardState; preview: AttackPreview } | { rejected: RuleResult } {
+  if (!target || target.ownerPlayerId === unit.ownerPlayerId || !isAlive(target)) {
+    return { rejected: reject("INVALID_TARGET", "Pick a living enemy unit to attack.") };
+  }
+  if (unit.hasActed) {
+    return { rejected: reject("ALREADY_ACTED", "This unit already acted this turn.") };
+  }
+  if (unit.routed) {
+    return { rejected: reject("UNIT_ROUTED", "Routed units cannot attack until they rally.") };
+  }
+  const preview = previewAttack(state, unit, target, ctx);
+  if (preview.distance > effectiveAttackRange(state, unit, ctx)) {
+    return { rejected: reject("OUT_OF_RANGE", "Target out of range.") };
+  }
+  if (preview.isRanged && preview.distance < minAttackRange(ctx, unit)) {
+    return { rejected: reject("OUT_OF_RANGE", "Target is too close for indirect fire.") };
+  }
+  if (preview.isRanged && !canFire(ctx, unit)) {
+    return { rejected: reject("LIMBERED", "Unlimber the guns before firing.") };
+  }
+  if (preview.isRanged && unitAmmo(ctx, unit) <= 0) {
+    return {
+      rejected: reject("OUT_OF_AMMO", "Out of ammunition; resupply near a friendly city or baggage train."),
+    };
+  }
+  if (
+    preview.distance > 1 &&
+    !unitTemplate(ctx, unit).indirectFire &&
+    !unitHasLineOfSight(state, unit, target, ctx)
+  ) {
+    return { rejected: reject("NO_LINE_OF_SIGHT", "No line of sight to the target.") };
+  }
+  if (preview.damage <= 0) {
+    return { rejected: reject("NO_DAMAGE", "This unit cannot deal damage.") };
+  }
+  return { target, preview };
+}
+
+// Wrogie jednostki, ktore wskazana jednostka moze teraz zaatakowac.
+export function targetableUnits(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext
+): UnitOnBoardState[] {
+  return state.units.filter(
+    (u) => u.ownerPlayerId !== unit.ownerPlayerId && "preview" in validateAttack(state, unit, u, ctx)
+  );
+}
+
+// Cel osiagalny po ruchu: najtansze pole, z ktorego mozna go zaatakowac, i koszt dojscia.
+export type MoveAttackOption = {
+  target: UnitOnBoardState;
+  from: HexCoords;
+  cost: number;
+  preview: AttackPreview;
+};
+
+// Wrogowie, ktorych jednostka moze zaatakowac po ruchu na ktores z osiagalnych pol
+// (wlacznie z polem, na ktorym stoi). Dla kazdego celu wybierane jest najtansze pole.
+export function attackableAfterMove(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext,
+  field: MovementField = reachableTiles(state, unit, ctx)
+): MoveAttackOption[] {
+  if (unit.hasActed || unit.routed) return [];
+  const startKey = coordsKey(unit);
+  const options = new Map<string, MoveAttackOption>();
+  const byCost = [...field.costs.entries()].sort((a, b) => a[1] - b[1]);
+  for (const [key, cost] of byCost) {
+    const [q, r] = key.split(",").map(Number);
+    const moved: UnitOnBoardState =
+      key === startKey ? unit : { ...unit, q, r, hasMoved: true };
+    const probe = key === startKey ? state : updateUnit(state, unit.unitId, moved);
+    targetableUnits(probe, moved, ctx).forEach((target) => {
+      if (options.has(target.unitId)) return;
+      options.set(target.unitId, {
+        target,
+        from: { q, r },
+        cost,
+        preview: previewAttack(probe, moved, target, ctx),
+      });
+    });
+  }
+  return [...options.values()];
+}
+
+// Akcja ATTACK: jeden atak na ture, cel musi byc wrogi, zywy, w zasiegu i widoczny.
+// Strzal zuzywa amunicje, a strzal artylerii moze trafic odlamkami sasiadow celu. Po wymianie ciosow obie strony
+// traca morale (moga sie rozbic i uciec), podobnie jak jednostki trafione odlamkami.
+export function attackUnit(
+  state: GameState,
+  playerId: number | undefined,
+  payload: GameActionPayload | undefined,
+  ctx: RulesContext
+): RuleResult {
+  if (isDeployment(state)) {
+    return reject("WRONG_PHASE", "Attacks are not allowed during deployment.");
+  }
+  const checked = checkActingUnit(state, payload?.unitId, actingPlayerId(state, playerId));
+  if ("rejected" in checked) return checked.rejected;
+  const { unit } = checked;
+
+  const validated = validateAttack(state, unit, findUnit(state, payload?.targetUnitId), ctx);
+  if ("rejected" in validated) return validated.rejected;
+  const { target } = validated;
+
+  const exchange = resolveAttack(state, unit, target, ctx);
+  const { result, retaliation } = exchange;
+  const splash = resolveSplash(state, unit, target, ctx, exchange.rngState);
+  // Atak konczy ruch jednostki (poza zdolnosciami typu skirmish).
+  let next = updateUnit(state, unit.unitId, {
+    hasActed: true,
+    hasMoved: unit.hasMoved || !canMoveAfterAttack(ctx, unit, result.isRanged),
+  });
+  if (result.isRanged) {
+    next = updateUnit(next, unit.unitId, { ammo: unitAmmo(ctx, unit) - 1 });
+  }
+  if (splash.rngState != null) {
+    next = { ...next, rngState: splash.rngState };
+  }
+
+  const events: RuleEvent[] = [
+    {
+      type: "COMBAT_RESOLVED",
+      attackerId: unit.unitId,
+      targetId: target.unitId,
+      result,
+      retaliation,
+      splash: splash.hits,
+    },
+  ];
+  const damage = (unitId: string, sourceUnitId: string, amount: number) => {
+    const update = applyDamage(next, unitId, sourceUnitId, amount);
+    next = update.state;
+    events.push(...update.events);
+  };
+  damage(target.unitId, unit.unitId, result.damageApplied);
+  if (retaliation) {
+    damage(unit.unitId, target.unitId, retaliation.damageApplied);
+  }
+  splash.hits.forEach(({ unitId, result: hit }) => damage(unitId, unit.unitId, hit.damageApplied));
+  const morale = applyCombatMorale(next, unit.unitId, target.unitId, result, retaliation, ctx, splash.hits);
+  return { ok: true, state: morale.state, events: [...events, ...morale.events] };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { deploymentZone } from "./index";
+import { PLAYER_A, PLAYER_B, makeState, makeTiles } from "./fixtures";
+
+describe("deployment zones", () => {
+  it("defaults to the first three columns from each player's edge", () => {
+    const state = makeState({ tiles: makeTiles(6, 2) });
+    expect([...deploymentZone(state, PLAYER_A)].sort()).toEqual(["0,0", "0,1", "1,0", "1,1", "2,0", "2,1"]);
+    expect(deploymentZone(state, PLAYER_B).has("5,1")).toBe(true);
+    expect(deploymentZone(state, PLAYER_B).has("2,1")).toBe(false);
+  });
+
+  it("uses zones marked on the map by player order", () => {
+    const state = makeState({
+      tiles: makeTiles(6, 2, { "3,0": { deploymentZone: 0 }, "4,1": { deploymentZone: 1 } }),
+    });
+    expect([...deploymentZone(state, PLAYER_A)]).toEqual(["3,0"]);
+    expect([...deploymentZone(state, PLAYER_B)]).toEqual(["4,1"]);
+  });
+});
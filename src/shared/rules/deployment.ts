@@ -0,0 +1,36 @@
+// Strefy rozstawienia: pola oznaczone na mapie scenariusza (deploymentZone = kolejnosc gracza),
+// a bez nich DEFAULT_DEPLOYMENT_DEPTH kolumn od wlasnej krawedzi planszy.
+import type { GameState, UnitOnBoardState } from "../game";
+import { homeEdgeQ } from "./morale";
+import { coordsKey, isAlive } from "./state";
+
+export const DEFAULT_DEPLOYMENT_DEPTH = 3;
+
+// Kolejnosc gracza w state.players (-1, gdy nie gra).
+export function playerSeat(state: GameState, playerId: number): number {
+  return state.players.findIndex((p) => p.playerId === playerId);
+}
+
+// Klucze "q,r" pol, na ktorych gracz moze rozstawiac jednostki.
+export function deploymentZone(state: GameState, playerId: number): Set<string> {
+  const seat = playerSeat(state, playerId);
+  const marked = state.tiles.filter((t) => t.deploymentZone === seat);
+  if (marked.length) return new Set(marked.map(coordsKey));
+  const edgeQ = homeEdgeQ(state, playerId);
+  return new Set(
+    state.tiles.filter((t) => Math.abs(t.q - edgeQ) < DEFAULT_DEPLOYMENT_DEPTH).map(coordsKey)
+  );
+}
+
+// Zywe jednostki jeszcze nierozstawione przed startem gry: czekaja na 0,0 albo stoja poza
+// strefa wlasciciela. `playerId` zaweza wynik do jednego gracza.
+export function unplacedUnits(state: GameState, playerId?: number): UnitOnBoardState[] {
+  if (state.status !== "not_started") return [];
+  const zones = new Map(state.players.map((p) => [p.playerId, deploymentZone(state, p.playerId)]));
+  return state.units.filter(
+    (u) =>
+      isAlive(u) &&
+      (playerId == null || u.ownerPlayerId === playerId) &&
+      ((u.q === 0 && u.r === 0) || !zones.get(u.ownerPlayerId)?.has(coordsKey(u)))
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { ARC_ATTACK_MULTIPLIER, applyAction, attackArc, previewAttack } from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeUnit } from "./fixtures";
+
+describe("facing", () => {
+  // Cel na (2,2) patrzy na wschod (0).
+  const target = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 2, facing: 0 });
+  const from = (q: number, r: number) => makeUnit({ unitId: "1", template: "light-cavalry", q, r });
+
+  it("classifies attacks into front, flank and rear arcs", () => {
+    const state = makeState({ units: [target] });
+    expect(attackArc(state, from(3, 2), target)).toBe("front");
+    expect(attackArc(state, from(3, 1), target)).toBe("front");
+    expect(attackArc(state, from(2, 1), target)).toBe("flank");
+    expect(attackArc(state, from(1, 3), target)).toBe("flank");
+    expect(attackArc(state, from(1, 2), target)).toBe("rear");
+  });
+
+  it("multiplies attack for flank and rear hits", () => {
+    const front = previewAttack(makeState(), from(3, 2), target, ctx);
+    const rear = previewAttack(makeState(), from(1, 2), target, ctx);
+    expect(rear).toMatchObject({ arc: "rear", arcMultiplier: ARC_ATTACK_MULTIPLIER.rear });
+    expect(rear.attack).toBe(front.attack * ARC_ATTACK_MULTIPLIER.rear);
+  });
+
+  it("turns units towards their last step or to the facing given in MOVE", () => {
+    const state = makeState({ units: [makeUnit({ unitId: "1", q: 1, r: 1 })] });
+    const move = (payload: Record<string, unknown>) =>
+      applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", ...payload } }, ctx);
+
+    const south = move({ q: 1, r: 2 });
+    expect(south.ok && south.state.units[0].facing).toBe(5);
+    const pivot = move({ q: 1, r: 1, facing: 3 });
+    expect(pivot.ok && pivot.state.units[0]).toMatchObject({ q: 1, r: 1, facing: 3, hasMoved: true });
+    expect(move({ q: 1, r: 2, facing: 7 })).toMatchObject({ ok: false, rejection: { code: "INVALID_PAYLOAD" } });
+  });
+});
@@ -0,0 +1,39 @@
+// Front jednostek: kierunek, w ktorym patrzy jednostka, i premie za atak z flanki i tylu.
+import type { GameState, UnitOnBoardState } from "../game";
+import { hexDirectionTowards } from "../hex";
+
+// Luk, z ktorego nadchodzi atak wzgledem frontu broniacego sie.
+export type AttackArc = "front" | "flank" | "rear";
+
+// Mnoznik ataku zaleznie od luku (linia piechoty jest bezbronna z boku i od tylu).
+export const ARC_ATTACK_MULTIPLIER: Record<AttackArc, number> = {
+  front: 1,
+  flank: 1.25,
+  rear: 1.5,
+};
+
+// Poprawny kierunek frontu: indeks 0-5 w HEX_DIRECTIONS.
+export function isFacing(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < 6;
+}
+
+// Front jednostki; bez zapisanego kierunku pierwszy gracz patrzy na wschod (0),
+// pozostali na zachod (3) - strony rozstawiaja sie po przeciwnych krawedziach.
+export function unitFacing(state: GameState, unit: UnitOnBoardState): number {
+  if (isFacing(unit.facing)) return unit.facing;
+  return state.players[0]?.playerId === unit.ownerPlayerId ? 0 : 3;
+}
+
+// Luk ataku: kierunek od celu do atakujacego porownany z frontem celu
+// (roznica 0-1 = front, 2 = flanka, 3 = tyl).
+export function attackArc(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  target: UnitOnBoardState
+): AttackArc {
+  const direction = hexDirectionTowards(target, attacker);
+  if (direction == null) return "front";
+  const raw = Math.abs(direction - unitFacing(state, target));
+  const difference = Math.min(raw, 6 - raw);
+  return difference >= 3 ? "rear" : difference === 2 ? "flank" : "front";
+}
@@ -0,0 +1,81 @@
+// Budowanie malych stanow gry na potrzeby testow regul.
+import type { TerrainType } from "../board";
+import type { GameState, HexTileState, UnitOnBoardState } from "../game";
+import type { UnitDto } from "../unit";
+import type { RulesContext } from "./types";
+
+export const PLAYER_A = 1;
+export const PLAYER_B = 2;
+
+export function makeTemplate(overrides: Partial<UnitDto> & Pick<UnitDto, "id">): UnitDto {
+  return {
+    name: overrides.id,
+    maxHp: 10,
+    meleeAttack: 3,
+    rangedAttack: 0,
+    attackRange: 1,
+    defense: 0,
+    speed: 3,
+    cost: 10,
+    ...overrides,
+  };
+}
+
+export function makeUnit(
+  overrides: Partial<UnitOnBoardState> & Pick<UnitOnBoardState, "unitId">
+): UnitOnBoardState {
+  return {
+    ownerPlayerId: PLAYER_A,
+    template: "line-infantry",
+    currentHP: 10,
+    q: 0,
+    r: 0,
+    ...overrides,
+  };
+}
+
+// Prostokatna plansza width x height z opcjonalnym terenem dla wybranych pol ("q,r").
+export function makeTiles(
+  width: number,
+  height: number,
+  terrain: Record<string, Partial<HexTileState> & { terrain?: TerrainType }> = {}
+): HexTileState[] {
+  const tiles: HexTileState[] = [];
+  for (let r = 0; r < height; r++) {
+    for (let q = 0; q < width; q++) {
+      tiles.push({
+        q,
+        r,
+        terrain: "plain",
+        passable: true,
+        movementCost: 1,
+        ...terrain[`${q},${r}`],
+      });
+    }
+  }
+  return tiles;
+}
+
+export function makeState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    gameId: "test",
+    turnNumber: 1,
+    currentPlayerId: PLAYER_A,
+    status: "in_progress",
+    players: [
+      { playerId: PLAYER_A, name: "Red", color: "red" },
+      { playerId: PLAYER_B, name: "Blue", color: "blue" },
+    ],
+    units: [],
+    tiles: makeTiles(6, 6),
+    ...overrides,
+  };
+}
+
+export const templates: UnitDto[] = [
+  makeTemplate({ id: "line-infantry", meleeAttack: 4, rangedAttack: 3, attackRange: 2, speed: 2 }),
+  makeTemplate({ id: "light-cavalry", meleeAttack: 5, speed: 4 }),
+  makeTemplate({ id: "six-pounder-cannon", meleeAttack: 1, rangedAttack: 6, attackRange: 4, speed: 1 }),
+];
+
+export const ctx: RulesContext = { templates };
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, previewAttack, reachableTiles, unitStats } from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeUnit } from "./fixtures";
+
+describe("infantry formations", () => {
+  const infantry = makeUnit({ unitId: "1", q: 2, r: 2 });
+  const hussar = makeUnit({ unitId: "2", template: "light-cavalry", ownerPlayerId: PLAYER_B, q: 3, r: 2 });
+  const cannon = makeUnit({ unitId: "3", template: "six-pounder-cannon", ownerPlayerId: PLAYER_B, q: 5, r: 2 });
+
+  it("trades firepower for speed in column", () => {
+    expect(unitStats(ctx, infantry)).toMatchObject({ speed: 2, rangedAttack: 4 });
+    const column = { ...infantry, formation: "column" as const };
+    expect(unitStats(ctx, column)).toMatchObject({ speed: 3, rangedAttack: 2 });
+    const state = makeState({ units: [column] });
+    expect(reachableTiles(state, column, ctx).costs.get("5,2")).toBe(3);
+  });
+
+  it("holds off cavalry in square but suffers under artillery", () => {
+    const square = { ...infantry, formation: "square" as const };
+    const state = makeState({ units: [square, hussar, cannon] });
+    expect(previewAttack(state, hussar, square, ctx)).toMatchObject({ formationDefense: 5, damage: 3 });
+    expect(previewAttack(state, cannon, square, ctx)).toMatchObject({ formationDefense: -3 });
+    expect(previewAttack(state, hussar, infantry, ctx).formationDefense).toBe(0);
+  });
+
+  it("treats dismounted dragoons as infantry against a square", () => {
+    const square = { ...infantry, formation: "square" as const };
+    const dragoon = makeUnit({ unitId: "4", template: "dragon-cavalry", ownerPlayerId: PLAYER_B, q: 3, r: 2 });
+    const state = makeState({ units: [square, dragoon] });
+    expect(previewAttack(state, dragoon, square, ctx).formationDefense).toBe(5);
+    const dismounted = { ...dragoon, dismounted: true };
+    expect(previewAttack(state, dismounted, square, ctx).formationDefense).toBe(0);
+  });
+
+  it("changes formation only for infantry and spends the move in battle", () => {
+    const state = makeState({ units: [infantry, { ...hussar, ownerPlayerId: PLAYER_A }] });
+    const result = applyAction(
+      state,
+      { type: "CHANGE_FORMATION", playerId: PLAYER_A, payload: { unitId: "1", formation: "square" } },
+      ctx
+    );
+    if (!result.ok) throw new Error(result.rejection.message);
+    expect(result.state.units[0]).toMatchObject({ formation: "square", hasMoved: true });
+    expect(result.events).toEqual([{ type: "FORMATION_CHANGED", unitId: "1", formation: "square" }]);
+
+    const cavalry = applyAction(
+      state,
+      { type: "CHANGE_FORMATION", playerId: PLAYER_A, payload: { unitId: "2", formation: "square" } },
+      ctx
+    );
+    expect(cavalry.ok ? null : cavalry.rejection.code).toBe("NO_FORMATIONS");
+  });
+});
@@ -0,0 +1,113 @@
+// Szyki piechoty: linia (sila ognia), kolumna (szybkosc) i czworobok (obrona przed kawaleria).
+import type { Formation, GameActionPayload, GameState, UnitOnBoardState } from "../game";
+import type { UnitCategory, UnitDto } from "../unit";
+import { abilityStats } from "./abilities";
+import {
+  actingPlayerId,
+  checkActingUnit,
+  isDeployment,
+  reject,
+  unitCategory,
+  unitTemplate,
+  updateUnit,
+} from "./state";
+import type { RuleResult, RulesContext } from "./types";
+
+export const FORMATIONS: readonly Formation[] = ["line", "column", "square"];
+
+export type FormationModifier = {
+  // Mnoznik ataku dystansowego.
+  rangedMultiplier: number;
+  // Zmiana punktow ruchu (szybkosc nie spada ponizej 1).
+  speedBonus: number;
+  // Dodatkowa obrona zaleznie od rodzaju atakujacego.
+  defenseAgainst: Record<UnitCategory, number>;
+};
+
+export const FORMATION_MODIFIERS: Record<Formation, FormationModifier> = {
+  line: {
+    rangedMultiplier: 1.25,
+    speedBonus: 0,
+    defenseAgainst: { infantry: 0, cavalry: 0, artillery: 0 },
+  },
+  column: {
+    rangedMultiplier: 0.5,
+    speedBonus: 1,
+    defenseAgainst: { infantry: 0, cavalry: 0, artillery: 0 },
+  },
+  square: {
+    rangedMultiplier: 0.75,
+    speedBonus: -1,
+    defenseAgainst: { infantry: 0, cavalry: 5, artillery: -3 },
+  },
+};
+
+export function isFormation(value: unknown): value is Formation {
+  return typeof value === "string" && (FORMATIONS as readonly string[]).includes(value);
+}
+
+// Szyk jednostki; tylko piechota (takze spieszeni dragoni) ma szyki (domyslnie linia),
+// pozostale null. Rodzaj bierzemy po zdolnosciach, ale przed szykiem - unitStats wola nas.
+export function unitFormation(ctx: RulesContext, unit: UnitOnBoardState): Formation | null {
+  if (unitCategory(abilityStats(ctx, unit, unitTemplate(ctx, unit))) !== "infantry") return null;
+  return isFormation(unit.formation) ? unit.formation : "line";
+}
+
+// Statystyki jednostki po uwzglednieniu zdolnosci i szyku (ruch i ogien); obrona szyku
+// zalezy od atakujacego, wiec liczy ja formationDefense.
+export function unitStats(ctx: RulesContext, unit: UnitOnBoardState): UnitDto {
+  const template = abilityStats(ctx, unit, unitTemplate(ctx, unit));
+  const formation = unitFormation(ctx, unit);
+  if (!formation) return template;
+  const modifier = FORMATION_MODIFIERS[formation];
+  return {
+    ...template,
+    speed: Math.max(1, template.speed + modifier.speedBonus),
+    rangedAttack: Math.round(template.rangedAttack * modifier.rangedMultiplier),
+  };
+}
+
+// Premia (lub kara) do obrony celu wynikajaca z jego szyku wobec rodzaju atakujacego
+// (po zdolnosciach, wiec spieszony dragon liczy sie jako piechota).
+export function formationDefense(
+  ctx: RulesContext,
+  target: UnitOnBoardState,
+  attacker: UnitOnBoardState
+): number {
+  const formation = unitFormation(ctx, target);
+  if (!formation) return 0;
+  return FORMATION_MODIFIERS[formation].defenseAgainst[unitCategory(unitStats(ctx, attacker))];
+}
+
+// Akcja CHANGE_FORMATION: tylko piechota; w bitwie zmiana szyku zuzywa ruch jednostki.
+export function changeFormation(
+  state: GameState,
+  playerId: number | undefined,
+  payload: GameActionPayload | undefined,
+  ctx: RulesContext
+): RuleResult {
+  const formation = payload?.formation;
+  if (!isFormation(formation)) {
+    return reject("INVALID_PAYLOAD", "CHANGE_FORMATION requires unitId and formation.");
+  }
+  const checked = checkActingUnit(state, payload?.unitId, actingPlayerId(state, playerId));
+  if ("rejected" in checked) return checked.rejected;
+  const { unit } = checked;
+
+  const current = unitFormation(ctx, unit);
+  if (!current) {
+    return reject("NO_FORMATIONS", "Only infantry can change formation.");
+  }
+  if (current === formation) {
+    return reject("INVALID_PAYLOAD", `The unit is already in ${formation}.`);
+  }
+  const deployment = isDeployment(state);
+  if (!deployment && unit.hasMoved) {
+    return reject("ALREADY_MOVED", "This unit already moved this turn.");
+  }
+  return {
+    ok: true,
+    state: updateUnit(state, unit.unitId, deployment ? { formation } : { formation, hasMoved: true }),
+    events: [{ type: "FORMATION_CHANGED", unitId: unit.unitId, formation }],
+  };
+}
@@ -0,0 +1,184 @@
+// Czysty (bez Reacta) silnik zasad gry - publiczne API modulu.
+export {
+  ABILITY_HANDLERS,
+  CHARGE_BONUS,
+  DEFAULT_ABILITIES,
+  DISMOUNTED_DEFENSE_BONUS,
+  DISMOUNTED_SPEED_PENALTY,
+  abilityChargeMultiplier,
+  abilityHandlers,
+  abilityStats,
+  activateAbility,
+  canMoveAfterAttack,
+  hasAbility,
+  isAbility,
+  resistsRout,
+  unitAbilities,
+} from "./abilities";
+export type { AbilityHandler } from "./abilities";
+export { applyAction } from "./applyAction";
+export {
+  ARTILLERY_TRAITS,
+  canFire,
+  canMarch,
+  minAttackRange,
+  setLimbered,
+  splashCandidates,
+  withArtilleryTraits,
+} from "./artillery";
+export {
+  COMBAT_VARIANCE,
+  DEFENSE_SCALE,
+  attackUnit,
+  attackableAfterMove,
+  previewAttack,
+  previewRetaliation,
+  resolveAttack,
+  resolveSplash,
+  targetableUnits,
+  validateAttack,
+} from "./combat";
+export type {
+  AttackPreview,
+  CombatExchange,
+  CombatResult,
+  MoveAttackOption,
+  SplashHit,
+} from "./combat";
+export { DEFAULT_DEPLOYMENT_DEPTH, deploymentZone, playerSeat, unplacedUnits } from "./deployment";
+export { ARC_ATTACK_MULTIPLIER, attackArc, isFacing, unitFacing } from "./facing";
+export type { AttackArc } from "./facing";
+export {
+  FORMATIONS,
+  FORMATION_MODIFIERS,
+  changeFormation,
+  formationDefense,
+  isFormation,
+  unitFormation,
+  unitStats,
+} from "./formation";
+export type { FormationModifier } from "./formation";
+export {
+  ELEVATED_TERRAIN,
+  SIGHT_BLOCKING_TERRAIN,
+  UNITS_BLOCK_SIGHT,
+  hasLineOfSight,
+  unitHasLineOfSight,
+} from "./lineOfSight";
+export type { SightOptions } from "./lineOfSight";
+export {
+  ARC_MORALE_LOSS,
+  CASUALTY_MORALE_LOSS,
+  MAX_MORALE,
+  NEARBY_LOSS_MORALE,
+  NEARBY_LOSS_RADIUS,
+  RALLY_MORALE,
+  ROUT_THRESHOLD,
+  applyCombatMorale,
+  applyMoraleLoss,
+  fleeTowardsEdge,
+  homeEdgeQ,
+  moraleStatus,
+  rallyUnit,
+  unitMorale,
+} from "./morale";
+export type { MoraleStatus } from "./morale";
+export {
+  blockedTiles,
+  closestInField,
+  findPath,
+  findUnitPath,
+  floodFill,
+  getNeighbors,
+  moveUnit,
+  pathFromField,
+  reachableTiles,
+  tileStepCost,
+  unitStepCost,
+} from "./movement";
+export type { MovementField, PathResult } from "./movement";
+export {
+  CITY_OBJECTIVE_VALUE,
+  carryObjectives,
+  controlledObjectiveValue,
+  objectiveOwner,
+  objectiveScores,
+  objectiveTiles,
+  objectiveValue,
+  updateObjectiveControl,
+} from "./objectives";
+export { reportedAction } from "./report";
+export {
+  buildTileIndex,
+  coordsKey,
+  findUnit,
+  isAlive,
+  isDeployment,
+  readNumber,
+  resolveTemplate,
+  rulesContextFor,
+  unitAt,
+  unitCategory,
+  unitTemplate,
+} from "./state";
+export {
+  TERRAIN_COMBAT_MODIFIERS,
+  effectiveAttackRange,
+  terrainAt,
+  terrainModifier,
+} from "./terrain";
+export type { TerrainCombatModifier } from "./terrain";
+export {
+  AMMO_RESUPPLY,
+  DEFAULT_MAX_AMMO,
+  OUT_OF_SUPPLY_MORALE,
+  SUPPLY_RADIUS,
+  applySupply,
+  friendlyCities,
+  isInSupply,
+  suppliedTiles,
+  supplySources,
+  unitAmmo,
+  unitMaxAmmo,
+} from "./supply";
+export { carryLocalState, carryUnitState, clearTurnFlags, endTurn, nextPlayerId } from "./turn";
+export {
+  DEFAULT_VICTORY_SETTINGS,
+  VICTORY_MODES,
+  VICTORY_MODE_LABELS,
+  carryVictory,
+  checkVictory,
+  concludeGame,
+  damageScores,
+  evaluateVictory,
+  hasTurnLimit,
+  normalizeVictorySettings,
+  outcomeHasPoints,
+  scoreByDamage,
+  scoreByObjectives,
+  victorySettings,
+} from "./victory";
+export {
+  CONCEALED_SPOT_RANGE,
+  CONCEALING_TERRAIN,
+  ELEVATED_SIGHT_BONUS,
+  SIGHT_RANGE,
+  filterStateForPlayer,
+  isUnitVisible,
+  rememberEnemies,
+  stateForViewer,
+  unitSightRange,
+  visibleTiles,
+} from "./visibility";
+export type { LastKnownUnit } from "./visibility";
+export type {
+  RuleEvent,
+  RuleRejection,
+  RuleRejectionCode,
+  RuleResult,
+  RulesContext,
+  VictoryMode,
+  VictoryOutcome,
+  VictorySettings,
+} from "./types";
+export { ZOC_EXIT_COST, enemyZoneOfControl, isBoundByZoc } from "./zoneOfControl";
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, hasLineOfSight, targetableUnits } from "./index";
+import { PLAYER_B, ctx, makeState, makeTiles, makeUnit } from "./fixtures";
+
+describe("line of sight", () => {
+  const shooter = makeUnit({ unitId: "1", template: "line-infantry", q: 0, r: 0 });
+  const target = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 0 });
+
+  it("is blocked by forest and city between the hexes", () => {
+    const forest = makeState({ tiles: makeTiles(6, 6, { "1,0": { terrain: "forest" } }) });
+    expect(hasLineOfSight(forest, shooter, target, { blockedByUnits: false })).toBe(false);
+
+    const city = makeState({ tiles: makeTiles(6, 6, { "1,0": { terrain: "city" } }) });
+    expect(hasLineOfSight(city, shooter, target, { blockedByUnits: false })).toBe(false);
+    expect(hasLineOfSight(city, shooter, { q: 0, r: 2 }, { blockedByUnits: false })).toBe(true);
+  });
+
+  it("lets units on hills see over obstacles", () => {
+    const state = makeState({
+      tiles: makeTiles(6, 6, { "0,0": { terrain: "hill" }, "1,0": { terrain: "forest" } }),
+    });
+    expect(hasLineOfSight(state, shooter, target, { blockedByUnits: true })).toBe(true);
+  });
+
+  it("rejects ranged attacks without sight and lists only visible targets", () => {
+    const blocker = makeUnit({ unitId: "3", q: 1, r: 0 });
+    const flank = makeUnit({ unitId: "4", ownerPlayerId: PLAYER_B, q: 0, r: 2 });
+    const state = makeState({ units: [shooter, target, blocker, flank] });
+
+    const result = applyAction(state, { type: "ATTACK", payload: { unitId: "1", targetUnitId: "2" } }, ctx);
+    expect(result).toMatchObject({ ok: false, rejection: { code: "NO_LINE_OF_SIGHT" } });
+    expect(targetableUnits(state, shooter, ctx).map((u) => u.unitId)).toEqual(["4"]);
+  });
+
+  it("lets artillery fire over intervening units", () => {
+    const cannon = makeUnit({ unitId: "1", template: "six-pounder-cannon", q: 0, r: 0 });
+    const blocker = makeUnit({ unitId: "3", q: 1, r: 0 });
+    const state = makeState({ units: [cannon, target, blocker] });
+    expect(targetableUnits(state, cannon, ctx).map((u) => u.unitId)).toEqual(["2"]);
+  });
+});
@@ -0,0 +1,64 @@
+// Linia wzroku dla atakow dystansowych: teren i jednostki na drodze strzalu.
+import type { HexCoords, TerrainType } from "../board";
+import type { GameState, HexTileState, UnitOnBoardState } from "../game";
+import { hexDistance, hexLine } from "../hex";
+import type { UnitCategory } from "../unit";
+import { buildTileIndex, coordsKey, isAlive, unitCategory, unitTemplate } from "./state";
+import type { RulesContext } from "./types";
+
+// Teren zaslaniajacy widok (pola posrednie, nie start ani cel).
+export const SIGHT_BLOCKING_TERRAIN: ReadonlySet<TerrainType> = new Set(["forest", "city"]);
+
+// Teren wzniesiony - strzelec lub cel na nim widzi/jest widziany ponad przeszkodami.
+export const ELEVATED_TERRAIN: ReadonlySet<TerrainType> = new Set(["hill"]);
+
+// Czy jednostki stojace na linii strzalu zaslaniaja cel (artyleria strzela ponad nimi).
+export const UNITS_BLOCK_SIGHT: Record<UnitCategory, boolean> = {
+  infantry: true,
+  cavalry: true,
+  artillery: false,
+};
+
+export type SightOptions = {
+  blockedByUnits: boolean;
+};
+
+// Czy z pola "from" widac pole "to". Przy sasiedztwie zawsze tak.
+export function hasLineOfSight(
+  state: GameState,
+  from: HexCoords,
+  to: HexCoords,
+  options: SightOptions,
+  tiles: Map<string, HexTileState> = buildTileIndex(state.tiles)
+): boolean {
+  if (hexDistance(from, to) <= 1) return true;
+  const fromTile = tiles.get(coordsKey(from));
+  const toTile = tiles.get(coordsKey(to));
+  const elevated =
+    (fromTile && ELEVATED_TERRAIN.has(fromTile.terrain)) ||
+    (toTile && ELEVATED_TERRAIN.has(toTile.terrain));
+  if (elevated) return true;
+
+  const occupied = options.blockedByUnits
+    ? new Set(state.units.filter(isAlive).map((u) => coordsKey(u)))
+    : new Set<string>();
+  const between = hexLine(from, to).slice(1, -1);
+  return between.every((c) => {
+    const key = coordsKey(c);
+    const tile = tiles.get(key);
+    if (tile && SIGHT_BLOCKING_TERRAIN.has(tile.terrain)) return false;
+    return !occupied.has(key);
+  });
+}
+
+// Linia wzroku konkretnej jednostki do celu (z regulami jej rodzaju).
+export function unitHasLineOfSight(
+  state: GameState,
+  attacker: UnitOnBoardState,
+  target: HexCoords,
+  ctx: RulesContext,
+  tiles?: Map<string, HexTileState>
+): boolean {
+  const blockedByUnits = UNITS_BLOCK_SIGHT[unitCategory(unitTemplate(ctx, attacker))];
+  return hasLineOfSight(state, attacker, target, { blockedByUnits }, tiles);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../game";
+import { NEARBY_LOSS_MORALE, RALLY_MORALE, applyAction, findUnit } from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeUnit } from "./fixtures";
+
+const attack = (state: GameState) =>
+  applyAction(state, { type: "ATTACK", playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "2" } }, ctx);
+
+describe("morale", () => {
+  const cavalry = makeUnit({ unitId: "1", template: "light-cavalry", q: 1, r: 2 });
+  const target = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 2 });
+
+  it("drops with casualties on both sides of an exchange", () => {
+    const result = attack(makeState({ units: [cavalry, target] }));
+    if (!result.ok) throw new Error(result.rejection.message);
+    expect(findUnit(result.state, "2")?.morale).toBe(60);
+    expect(findUnit(result.state, "1")?.morale).toBe(84);
+  });
+
+  it("routs shaken units, which flee towards their own edge and cannot attack", () => {
+    const result = attack(makeState({ units: [cavalry, { ...target, morale: 30 }] }));
+    if (!result.ok) throw new Error(result.rejection.message);
+    const routed = findUnit(result.state, "2");
+    expect(routed).toMatchObject({ routed: true, q: 4 });
+    expect(result.events.map((ev) => ev.type)).toEqual(expect.arrayContaining(["UNIT_ROUTED", "UNIT_FLED"]));
+
+    const shaken = makeState({ units: [{ ...cavalry, routed: true }, target] });
+    expect(attack(shaken)).toMatchObject({ ok: false, rejection: { code: "UNIT_ROUTED" } });
+  });
+
+  it("keeps routed units from moving until they rally", () => {
+    const state = makeState({ units: [{ ...cavalry, routed: true }, target] });
+    const move = applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", q: 0, r: 2 } }, ctx);
+    expect(move).toMatchObject({ ok: false, rejection: { code: "UNIT_ROUTED" } });
+  });
+
+  it("shakes friends near a destroyed unit", () => {
+    const friend = makeUnit({ unitId: "3", ownerPlayerId: PLAYER_B, q: 4, r: 2 });
+    const result = attack(makeState({ units: [cavalry, { ...target, currentHP: 1 }, friend] }));
+    if (!result.ok) throw new Error(result.rejection.message);
+    expect(findUnit(result.state, "3")?.morale).toBe(100 - NEARBY_LOSS_MORALE);
+  });
+
+  it("rallies routed units away from the enemy", () => {
+    const rally = (state: GameState) =>
+      applyAction(state, { type: "RALLY", playerId: PLAYER_A, payload: { unitId: "1" } }, ctx);
+    const routed = { ...cavalry, routed: true, morale: 10 };
+
+    expect(rally(makeState({ units: [routed, target] }))).toMatchObject({
+      ok: false,
+      rejection: { code: "ENGAGED" },
+    });
+    const result = rally(makeState({ units: [routed, { ...target, q: 5 }] }));
+    expect(result.ok && findUnit(result.state, "1")).toMatchObject({
+      routed: false,
+      morale: RALLY_MORALE,
+      hasActed: true,
+    });
+    expect(rally(makeState({ units: [cavalry] }))).toMatchObject({ ok: false, rejection: { code: "NOT_ROUTED" } });
+  });
+});
@@ -0,0 +1,200 @@
+// Morale: spadki po stratach, atakach z flanki i utracie pobliskich oddzialow,
+// ucieczka rozbitych jednostek w strone wlasnej krawedzi planszy i akcja RALLY.
+import type { GameActionPayload, GameState, UnitOnBoardState } from "../game";
+import { hexDirectionTowards, hexDistance, parseHexKey } from "../hex";
+import { dijkstra } from "../pathfinding";
+import { resistsRout } from "./abilities";
+import type { CombatResult, SplashHit } from "./combat";
+import type { AttackArc } from "./facing";
+import { unitStats } from "./formation";
+import { blockedTiles, pathFromField, tileStepCost } from "./movement";
+import {
+  actingPlayerId,
+  buildTileIndex,
+  checkActingUnit,
+  coordsKey,
+  findUnit,
+  isAlive,
+  isDeployment,
+  reject,
+  unitTemplate,
+  updateUnit,
+} from "./state";
+import type { RuleEvent, RuleResult, RulesContext } from "./types";
+import { enemyZoneOfControl } from "./zoneOfControl";
+
+export const MAX_MORALE = 100;
+// Ponizej tego progu jednostka sie rozbija (routed).
+export const ROUT_THRESHOLD = 25;
+// Morale po udanym zebraniu rozbitej jednostki.
+export const RALLY_MORALE = 50;
+// Utrata morale za strate calego maxHp (proporcjonalnie do zadanych obrazen).
+export const CASUALTY_MORALE_LOSS = 80;
+// Dodatkowa utrata morale za cios z danego luku.
+export const ARC_MORALE_LOSS: Record<AttackArc, number> = { front: 0, flank: 10, rear: 20 };
+// Utrata morale, gdy w promieniu NEARBY_LOSS_RADIUS zginie przyjazny oddzial.
+export const NEARBY_LOSS_MORALE = 15;
+export const NEARBY_LOSS_RADIUS = 2;
+
+export type MoraleStatus = "steady" | "wavering" | "routed";
+
+type MoraleUpdate = { state: GameState; events: RuleEvent[] };
+
+// Morale jednostki; brak wartosci = pelne morale.
+export function unitMorale(unit: UnitOnBoardState): number {
+  return unit.morale ?? MAX_MORALE;
+}
+
+export function moraleStatus(unit: UnitOnBoardState): MoraleStatus {
+  if (unit.routed) return "routed";
+  return unitMorale(unit) < RALLY_MORALE ? "wavering" : "steady";
+}
+
+// Kolumna q krawedzi, od ktorej rozstawia sie gracz: pierwszy gracz zachodnia,
+// pozostali wschodnia (spojne z domyslnym frontem).
+export function homeEdgeQ(state: GameState, playerId: number): number {
+  const qs = state.tiles.map((t) => t.q);
+  if (!qs.length) return 0;
+  return state.players[0]?.playerId === playerId ? Math.min(...qs) : Math.max(...qs);
+}
+
+// Ucieczka rozbitej jednostki: w limicie ruchu na pole najblizsze wlasnej krawedzi
+// (strefy kontroli nie zatrzymuja uciekajacych). Front zwrocony w kierunku ucieczki.
+export function fleeTowardsEdge(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext
+): MoraleUpdate {
+  const edgeQ = homeEdgeQ(state, unit.ownerPlayerId);
+  const stepCost = tileStepCost(buildTileIndex(state.tiles), blockedTiles(state, unit.unitId));
+  const field = dijkstra(unit, stepCost, { maxCost: unitStats(ctx, unit).speed });
+
+  let best = { q: unit.q, r: unit.r };
+  let bestGap = Math.abs(unit.q - edgeQ);
+  let bestCost = 0;
+  field.costs.forEach((cost, key) => {
+    const coords = parseHexKey(key);
+    const gap = Math.abs(coords.q - edgeQ);
+    if (gap < bestGap || (gap === bestGap && cost < bestCost)) {
+      best = coords;
+      bestGap = gap;
+      bestCost = cost;
+    }
+  });
+
+  const path = pathFromField(field, best);
+  if (path.length < 2) return { state, events: [] };
+  const facing = hexDirectionTowards(path[path.length - 2], best) ?? unit.facing;
+  return {
+    state: updateUnit(state, unit.unitId, { ...best, facing }),
+    events: [{ type: "UNIT_FLED", unitId: unit.unitId, path }],
+  };
+}
+
+// Obniza morale; przy spadku ponizej ROUT_THRESHOLD jednostka sie rozbija i ucieka
+// (o ile zdolnosc, np. elite, nie pozwala przetrwac tego testu).
+export function applyMoraleLoss(
+  state: GameState,
+  unitId: string,
+  amount: number,
+  ctx: RulesContext
+): MoraleUpdate {
+  const unit = findUnit(state, unitId);
+  if (!unit || !isAlive(unit) || amount <= 0) return { state, events: [] };
+  const morale = Math.max(0, unitMorale(unit) - amount);
+  const next = updateUnit(state, unitId, { morale });
+  if (unit.routed || morale >= ROUT_THRESHOLD) return { state: next, events: [] };
+  if (resistsRout(ctx, unit)) {
+    return {
+      state: updateUnit(next, unitId, { routResisted: true }),
+      events: [{ type: "ROUT_RESISTED", unitId }],
+    };
+  }
+
+  const routed = updateUnit(next, unitId, { routed: true });
+  const flight = fleeTowardsEdge(routed, findUnit(routed, unitId) as UnitOnBoardState, ctx);
+  return { state: flight.state, events: [{ type: "UNIT_ROUTED", unitId }, ...flight.events] };
+}
+
+// Morale po wymianie ciosow: straty i luk ataku dla obu stron (i trafionych odlamkami), a za
+// kazdy zniszczony oddzial spadek morale jego sasiadow. `state` to stan po naniesieniu obrazen.
+export function applyCombatMorale(
+  state: GameState,
+  attackerId: string,
+  targetId: string,
+  result: CombatResult,
+  retaliation: CombatResult | null,
+  ctx: RulesContext,
+  splash: SplashHit[] = []
+): MoraleUpdate {
+  const hits: { unitId: string; strike: CombatResult | null }[] = [
+    { unitId: targetId, strike: result },
+    { unitId: attackerId, strike: retaliation },
+    ...splash.map((hit) => ({ unitId: hit.unitId, strike: hit.result })),
+  ];
+  const fallen = hits
+    .map(({ unitId }) => findUnit(state, unitId))
+    .filter((u): u is UnitOnBoardState => !!u && !isAlive(u));
+
+  let current: MoraleUpdate = { state, events: [] };
+  const lose = (unitId: string, amount: number) => {
+    const update = applyMoraleLoss(current.state, unitId, amount, ctx);
+    current = { state: update.state, events: [...current.events, ...update.events] };
+  };
+
+  hits.forEach(({ unitId, strike }) => {
+    const unit = findUnit(state, unitId);
+    if (!unit || !strike || strike.damageApplied <= 0) return;
+    const maxHp = Math.max(1, unitTemplate(ctx, unit).maxHp);
+    lose(
+      unitId,
+      Math.round((strike.damageApplied / maxHp) * CASUALTY_MORALE_LOSS) + ARC_MORALE_LOSS[strike.arc]
+    );
+  });
+  fallen.forEach((dead) => {
+    state.units
+      .filter(
+        (u) =>
+          u.ownerPlayerId === dead.ownerPlayerId &&
+          u.unitId !== dead.unitId &&
+          hexDistance(u, dead) <= NEARBY_LOSS_RADIUS
+      )
+      .forEach((u) => lose(u.unitId, NEARBY_LOSS_MORALE));
+  });
+  return current;
+}
+
+// Akcja RALLY: rozbita jednostka poza kontaktem z wrogiem odzyskuje RALLY_MORALE,
+// co zajmuje cala jej ture (ruch i atak).
+export function rallyUnit(
+  state: GameState,
+  playerId: number | undefined,
+  payload: GameActionPayload | undefined
+): RuleResult {
+  if (isDeployment(state)) {
+    return reject("WRONG_PHASE", "Units cannot rally during deployment.");
+  }
+  const checked = checkActingUnit(state, payload?.unitId, actingPlayerId(state, playerId));
+  if ("rejected" in checked) return checked.rejected;
+  const { unit } = checked;
+
+  if (!unit.routed) {
+    return reject("NOT_ROUTED", "Only routed units can rally.");
+  }
+  if (unit.hasMoved || unit.hasActed) {
+    return reject("ALREADY_ACTED", "Rallying takes the unit's whole turn.");
+  }
+  if (enemyZoneOfControl(state, unit.ownerPlayerId).has(coordsKey(unit))) {
+    return reject("ENGAGED", "Units cannot rally next to an enemy.");
+  }
+  return {
+    ok: true,
+    state: updateUnit(state, unit.unitId, {
+      morale: RALLY_MORALE,
+      routed: false,
+      hasMoved: true,
+      hasActed: true,
+    }),
+    events: [{ type: "UNIT_RALLIED", unitId: unit.unitId, morale: RALLY_MORALE }],
+  };
+}
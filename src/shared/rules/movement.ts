@@ -0,0 +1,230 @@
+// Ruch jednostek: sasiedztwo, koszt krokow (teren, strefy kontroli), sciezki i akcja MOVE.
+import type { HexCoords } from "../board";
+import type { GameActionPayload, GameState, HexTileState, UnitOnBoardState } from "../game";
+import { hexDirectionTowards, hexDistance, hexNeighbors, parseHexKey } from "../hex";
+import { aStar, dijkstra, pathTo } from "../pathfinding";
+import type { DistanceField, HexPath, StepCost } from "../pathfinding";
+import { canMarch } from "./artillery";
+import { isFacing, unitFacing } from "./facing";
+import { unitStats } from "./formation";
+import {
+  actingPlayerId,
+  buildTileIndex,
+  checkActingUnit,
+  coordsKey,
+  isAlive,
+  isDeployment,
+  readNumber,
+  reject,
+  unitAt,
+  updateUnit,
+} from "./state";
+import type { RuleResult, RulesContext } from "./types";
+import { ZOC_EXIT_COST, enemyZoneOfControl, isBoundByZoc } from "./zoneOfControl";
+
+// Wynik wyszukiwania sciezki: koszt i lista wspolrzednych (od startu do celu).
+export type PathResult = HexPath;
+
+// Sasiedzi heksu (6 kierunkow), tylko istniejace kafelki planszy.
+export function getNeighbors(coords: HexCoords, tiles: Map<string, HexTileState>): HexCoords[] {
+  return hexNeighbors(coords).filter((c) => tiles.has(coordsKey(c)));
+}
+
+// Pola zajete przez zywe jednostki (poza wskazana jednostka, ktora sie rusza).
+export function blockedTiles(state: GameState, exceptUnitId?: string): Set<string> {
+  const blocked = new Set<string>();
+  state.units.forEach((u) => {
+    if (isAlive(u) && u.unitId !== exceptUnitId) {
+      blocked.add(coordsKey(u));
+    }
+  });
+  return blocked;
+}
+
+// Wynik zalewania planszy: koszt dotarcia do kazdego osiagalnego pola i poprzednik
+// na najtanszej sciezce (klucze "q,r").
+export type MovementField = DistanceField;
+
+// Koszt wejscia na pole planszy: kafelek musi istniec, byc przejezdny i wolny.
+export function tileStepCost(tiles: Map<string, HexTileState>, blocked: Set<string>): StepCost {
+  return (to) => {
+    const key = coordsKey(to);
+    if (blocked.has(key)) return null;
+    const tile = tiles.get(key);
+    return tile && tile.passable ? tile.movementCost : null;
+  };
+}
+
+// Koszt kroku konkretnej jednostki: teren, zajete pola i strefy kontroli wroga.
+// Wejscie w strefe konczy ruch (z takiego pola nie idzie sie dalej), a wyjscie
+// z niej na starcie ruchu kosztuje dodatkowo ZOC_EXIT_COST.
+export function unitStepCost(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext,
+  tiles: Map<string, HexTileState> = buildTileIndex(state.tiles)
+): StepCost {
+  const base = tileStepCost(tiles, blockedTiles(state, unit.unitId));
+  if (!isBoundByZoc(unit, ctx)) return base;
+  const zone = enemyZoneOfControl(state, unit.ownerPlayerId);
+  const startKey = coordsKey(unit);
+  return (to, from) => {
+    const step = base(to, from);
+    const fromKey = coordsKey(from);
+    if (step == null || !zone.has(fromKey)) return step;
+    return fromKey === startKey ? step + ZOC_EXIT_COST : null;
+  };
+}
+
+// Zalewanie planszy algorytmem Dijkstry od pola startowego z limitem kosztu ruchu.
+export function floodFill(
+  tiles: Map<string, HexTileState>,
+  start: HexCoords,
+  blocked: Set<string>,
+  maxCost: number
+): MovementField {
+  return dijkstra(start, tileStepCost(tiles, blocked), { maxCost });
+}
+
+// Odtworzenie sciezki (od startu) do pola osiagalnego w wyniku floodFill.
+export function pathFromField(field: MovementField, target: HexCoords): HexCoords[] {
+  return pathTo(field, target);
+}
+
+// Sciezka do celu z pola odleglosci, a gdy cel jest nieosiagalny - do osiagalnego
+// pola najblizszego celowi (przy remisie tanszego).
+export function closestInField(field: MovementField, target: HexCoords): PathResult | null {
+  const targetKey = coordsKey(target);
+  const targetCost = field.costs.get(targetKey);
+  if (targetCost != null) {
+    return { cost: targetCost, path: pathFromField(field, target) };
+  }
+
+  let best: HexCoords | null = null;
+  let bestCost = Infinity;
+  let bestHeuristic = Infinity;
+  field.costs.forEach((cost, key) => {
+    const coords = parseHexKey(key);
+    const heuristic = hexDistance(coords, target);
+    if (heuristic < bestHeuristic || (heuristic === bestHeuristic && cost < bestCost)) {
+      best = coords;
+      bestCost = cost;
+      bestHeuristic = heuristic;
+    }
+  });
+
+  if (!best) return null;
+  return { cost: bestCost, path: pathFromField(field, best) };
+}
+
+// Wyszukiwanie sciezki (Dijkstra) z limitem kosztu ruchu.
+// Gdy cel jest nieosiagalny, zwraca sciezke do najblizszego osiagalnego pola.
+export function findPath(
+  tiles: Map<string, HexTileState>,
+  start: HexCoords,
+  target: HexCoords,
+  blocked: Set<string>,
+  maxCost: number
+): PathResult | null {
+  return closestInField(floodFill(tiles, start, blocked, maxCost), target);
+}
+
+// Pola, na ktore jednostka moze jeszcze wejsc w tej turze (z kosztami i sciezkami).
+// Po wykonanym ruchu zostaje tylko pole, na ktorym stoi.
+export function reachableTiles(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext
+): MovementField {
+  const speed = unit.hasMoved || !canMarch(ctx, unit) ? 0 : unitStats(ctx, unit).speed;
+  return dijkstra(unit, unitStepCost(state, unit, ctx), { maxCost: speed });
+}
+
+// Sciezka jednostki do celu wedlug jej zasad ruchu (jak findPath, z rezerwa
+// do najblizszego osiagalnego pola). Mozna podac juz policzone pole zasiegu.
+export function findUnitPath(
+  state: GameState,
+  unit: UnitOnBoardState,
+  target: HexCoords,
+  ctx: RulesContext,
+  field: MovementField = reachableTiles(state, unit, ctx)
+): PathResult | null {
+  return closestInField(field, target);
+}
+
+// Akcja MOVE. W fazie rozstawienia to postawienie jednostki na wolnym polu,
+// w bitwie ruch po sciezce w limicie punktow ruchu (raz na ture). Opcjonalne
+// payload.facing ustawia front jednostki po ruchu.
+export function moveUnit(
+  state: GameState,
+  playerId: number | undefined,
+  payload: GameActionPayload | undefined,
+  ctx: RulesContext
+): RuleResult {
+  const q = readNumber(payload?.q);
+  const r = readNumber(payload?.r);
+  if (q == null || r == null) {
+    return reject("INVALID_PAYLOAD", "MOVE requires unitId, q and r.");
+  }
+  const requestedFacing = payload?.facing == null ? null : readNumber(payload.facing);
+  if (payload?.facing != null && !isFacing(requestedFacing)) {
+    return reject("INVALID_PAYLOAD", "Facing must be a direction index from 0 to 5.");
+  }
+  const checked = checkActingUnit(state, payload?.unitId, actingPlayerId(state, playerId));
+  if ("rejected" in checked) return checked.rejected;
+  const { unit } = checked;
+
+  const target = { q, r };
+  const tiles = buildTileIndex(state.tiles);
+  const tile = tiles.get(coordsKey(target));
+  const occupant = unitAt(state, target);
+  if (!tile || !tile.passable || (occupant && occupant.unitId !== unit.unitId)) {
+    return reject("TILE_BLOCKED", "Tile is occupied or impassable.");
+  }
+
+  if (isDeployment(state)) {
+    const facing = isFacing(requestedFacing) ? requestedFacing : unitFacing(state, unit);
+    return {
+      ok: true,
+      state: updateUnit(state, unit.unitId, { ...target, facing }),
+      events: [{ type: "UNIT_MOVED", unitId: unit.unitId, path: [target], cost: 0, facing }],
+    };
+  }
+
+  // Rozbita jednostka stoi, dopoki sie nie zbierze (ucieczke wykonuje morale).
+  if (unit.routed) {
+    return reject("UNIT_ROUTED", "Routed units cannot move until they rally.");
+  }
+  if (unit.hasMoved) {
+    return reject("ALREADY_MOVED", "This unit already moved this turn.");
+  }
+  // Obrot w miejscu odprzodkowanego dziala jest dozwolony, marsz nie.
+  if (!canMarch(ctx, unit) && coordsKey(target) !== coordsKey(unit)) {
+    return reject("UNLIMBERED", "Limber the guns before moving.");
+  }
+
+  const speed = unitStats(ctx, unit).speed;
+  const stepCost = unitStepCost(state, unit, ctx, tiles);
+  // Heurystyka A* nie moze przeszacowac, wiec uwzgledniamy najtanszy teren planszy.
+  const minStepCost = state.tiles.reduce(
+    (min, t) => (t.passable ? Math.min(min, t.movementCost) : min),
+    1
+  );
+  const result = aStar(unit, target, stepCost, { maxCost: speed, minStepCost });
+  if (!result) {
+    return reject("UNREACHABLE", "No reachable path within movement points.");
+  }
+
+  // Bez wskazanego frontu jednostka zwraca sie w kierunku ostatniego kroku
+  // (ruch w miejscu z podanym frontem to samo obrocenie sie).
+  const lastStep = result.path.length > 1 ? result.path[result.path.length - 2] : null;
+  const stepFacing = lastStep ? hexDirectionTowards(lastStep, target) : null;
+  const facing = isFacing(requestedFacing) ? requestedFacing : stepFacing ?? unitFacing(state, unit);
+  return {
+    ok: true,
+    state: updateUnit(state, unit.unitId, { q, r, facing, hasMoved: true }),
+    events: [
+      { type: "UNIT_MOVED", unitId: unit.unitId, path: result.path, cost: result.cost, facing },
+    ],
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyAction,
+  evaluateVictory,
+  objectiveScores,
+  objectiveTiles,
+  objectiveValue,
+  updateObjectiveControl,
+} from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeTiles, makeUnit } from "./fixtures";
+
+describe("objectives", () => {
+  const tiles = makeTiles(6, 4, { "2,1": { terrain: "city" }, "4,2": { objective: 3 } });
+
+  it("marks cities and explicitly flagged tiles as objectives", () => {
+    const state = makeState({ tiles });
+    expect(objectiveTiles(state).map((t) => [t.q, t.r, objectiveValue(t)])).toEqual([
+      [2, 1, 1],
+      [4, 2, 3],
+    ]);
+  });
+
+  it("captures objectives by moving onto them and scores each round held", () => {
+    const state = makeState({ tiles, units: [makeUnit({ unitId: "1", q: 1, r: 1, template: "light-cavalry" })] });
+    const move = applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", q: 2, r: 1 } }, ctx);
+    if (!move.ok) throw new Error(move.rejection.message);
+    expect(move.events).toContainEqual({ type: "OBJECTIVE_CAPTURED", coords: { q: 2, r: 1 }, playerId: PLAYER_A });
+    expect(move.state.objectives).toEqual({ "2,1": { playerId: PLAYER_A, since: 1 } });
+
+    // Cel zostaje przy graczu po zejsciu z pola; wrog przejmuje go, a gracz zachowuje punkty.
+    const later = { ...move.state, turnNumber: 4, units: [makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 1 })] };
+    expect(objectiveScores(later)).toEqual({ [PLAYER_A]: 3, [PLAYER_B]: 0 });
+    const captured = updateObjectiveControl(later).state;
+    expect(captured.objectives?.["2,1"]).toEqual({ playerId: PLAYER_B, since: 4 });
+    expect(objectiveScores({ ...captured, turnNumber: 5 })).toEqual({ [PLAYER_A]: 3, [PLAYER_B]: 1 });
+  });
+
+  it("decides the hold-objectives mode by control at the turn limit", () => {
+    const units = [makeUnit({ unitId: "1" }), makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 5, r: 3 })];
+    const objectives = {
+      "2,1": { playerId: PLAYER_A, since: 1 },
+      "4,2": { playerId: PLAYER_B, since: 5 },
+    };
+    const settings = { mode: "objectives" as const, turnLimit: 6 };
+    expect(evaluateVictory(makeState({ tiles, units, objectives, turnNumber: 6 }), settings, ctx)).toBeNull();
+    expect(evaluateVictory(makeState({ tiles, units, objectives, turnNumber: 7 }), settings, ctx)).toMatchObject({
+      winner: PLAYER_B,
+      reason: "Objectives held at the turn limit",
+      points: { [PLAYER_A]: 6, [PLAYER_B]: 6 },
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Cele (objective hexes): pola warte punkty zwyciestwa za kazda ture utrzymania.
+// Kontrola przechodzi na gracza, ktorego jednostka stanie na polu, i trwa do wejscia wroga.
+import type { HexCoords } from "../board";
+import type { GameState, HexTileState } from "../game";
+import { coordsKey, isDeployment, unitAt } from "./state";
+import type { RuleEvent } from "./types";
+
+// Domyslna wartosc miasta, gdy pole nie ma jawnego znacznika celu.
+export const CITY_OBJECTIVE_VALUE = 1;
+
+// Punkty za ture utrzymania celu; 0 = pole nie jest celem.
+export function objectiveValue(tile: HexTileState): number {
+  return tile.objective ?? (tile.terrain === "city" ? CITY_OBJECTIVE_VALUE : 0);
+}
+
+export function objectiveTiles(state: GameState): HexTileState[] {
+  return state.tiles.filter((tile) => objectiveValue(tile) > 0);
+}
+
+// Wlasciciel celu albo null (neutralny).
+export function objectiveOwner(state: GameState, coords: HexCoords): number | null {
+  return state.objectives?.[coordsKey(coords)]?.playerId ?? null;
+}
+
+// Przejmowanie celow zajetych przez jednostki. Przy zmianie wlasciciela poprzedni
+// dopisuje do puli punkty za tury, w ktorych cel utrzymal.
+export function updateObjectiveControl(state: GameState): { state: GameState; events: RuleEvent[] } {
+  if (isDeployment(state)) return { state, events: [] };
+  const objectives = { ...state.objectives };
+  const banked = { ...state.objectivePoints };
+  const events: RuleEvent[] = [];
+  objectiveTiles(state).forEach((tile) => {
+    const occupant = unitAt(state, tile);
+    const key = coordsKey(tile);
+    const held = objectives[key];
+    if (!occupant || held?.playerId === occupant.ownerPlayerId) return;
+    if (held) {
+      banked[held.playerId] =
+        (banked[held.playerId] ?? 0) + objectiveValue(tile) * (state.turnNumber - held.since);
+    }
+    objectives[key] = { playerId: occupant.ownerPlayerId, since: state.turnNumber };
+    events.push({
+      type: "OBJECTIVE_CAPTURED",
+      coords: { q: tile.q, r: tile.r },
+      playerId: occupant.ownerPlayerId,
+    });
+  });
+  if (!events.length) return { state, events };
+  return { state: { ...state, objectives, objectivePoints: banked }, events };
+}
+
+// Punkty zwyciestwa z celow: zapisane w puli + biezace utrzymanie (pelne rundy od przejecia).
+export function objectiveScores(state: GameState): Record<number, number> {
+  const scores: Record<number, number> = {};
+  state.players.forEach((p) => {
+    scores[p.playerId] = state.objectivePoints?.[p.playerId] ?? 0;
+  });
+  objectiveTiles(state).forEach((tile) => {
+    const held = state.objectives?.[coordsKey(tile)];
+    if (!held) return;
+    scores[held.playerId] =
+      (scores[held.playerId] ?? 0) + objectiveValue(tile) * (state.turnNumber - held.since);
+  });
+  return scores;
+}
+
+// Suma wartosci celow kontrolowanych teraz przez kazdego gracza.
+export function controlledObjectiveValue(state: GameState): Record<number, number> {
+  const control: Record<number, number> = {};
+  state.players.forEach((p) => {
+    control[p.playerId] = 0;
+  });
+  objectiveTiles(state).forEach((tile) => {
+    const owner = objectiveOwner(state, tile);
+    if (owner != null) control[owner] = (control[owner] ?? 0) + objectiveValue(tile);
+  });
+  return control;
+}
+
+// Stan celow liczy tylko silnik zasad; gdy backend go nie zwrocil, bierzemy poprzedni.
+export function carryObjectives(next: GameState, previous: GameState): GameState {
+  return {
+    ...next,
+    objectives: next.objectives ?? previous.objectives,
+    objectivePoints: next.objectivePoints ?? previous.objectivePoints,
+  };
+}
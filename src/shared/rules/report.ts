@@ -0,0 +1,45 @@
+// Akcja w postaci wysylanej na backend: payload uzupelniony o skutki policzone przez silnik zasad
+// (backend nie liczy obrazen, ucieczek ani odlamkow, tylko je zapisuje).
+import type { ApplyActionDto } from "../game";
+import type { RuleEvent } from "./types";
+
+type FledTo = { unitId: string; q: number; r: number };
+
+// Pola, na ktore uciekly rozbite jednostki.
+function fledUnits(events: RuleEvent[]): FledTo[] {
+  return events.flatMap((ev) =>
+    ev.type === "UNIT_FLED" ? [{ unitId: ev.unitId, ...ev.path[ev.path.length - 1] }] : []
+  );
+}
+
+function damageTo(events: RuleEvent[], unitId: string): number {
+  return events.reduce(
+    (sum, ev) => (ev.type === "UNIT_DAMAGED" && ev.unitId === unitId ? sum + ev.amount : sum),
+    0
+  );
+}
+
+export function reportedAction(action: ApplyActionDto, events: RuleEvent[]): ApplyActionDto {
+  const fled = fledUnits(events);
+  if (action.type === "END_TURN") {
+    return fled.length ? { ...action, payload: { ...action.payload, fled } } : action;
+  }
+  if (action.type !== "ATTACK") return action;
+
+  const combat = events.find((ev) => ev.type === "COMBAT_RESOLVED");
+  const attackerId = String(action.payload?.unitId);
+  const targetId = String(action.payload?.targetUnitId);
+  return {
+    ...action,
+    payload: {
+      ...action.payload,
+      damage: damageTo(events, targetId),
+      retaliationDamage: damageTo(events, attackerId),
+      fled,
+      splash:
+        combat?.type === "COMBAT_RESOLVED"
+          ? combat.splash.map((hit) => ({ unitId: hit.unitId, damage: hit.result.damageApplied }))
+          : [],
+    },
+  };
+}
@@ -0,0 +1,128 @@
+// Pomocnicze operacje na GameState wspolne dla wszystkich regul.
+import type { HexCoords } from "../board";
+import type { GameState, HexTileState, UnitOnBoardState } from "../game";
+import { hexKey } from "../hex";
+import type { UnitCategory, UnitDto } from "../unit";
+import type { RuleRejectionCode, RuleResult, RulesContext } from "./types";
+
+// Klucz "q,r" uzywany w mapach kafelkow i zajetych pol.
+export function coordsKey(coords: HexCoords): string {
+  return hexKey(coords);
+}
+
+// Kontekst zasad gry: szablony jednostek i opcjonalne reguly zapisane w stanie gry (ta sama
+// wersja zasad na planszy, w lokalnym silniku i w AI).
+export function rulesContextFor(
+  rules: Pick<GameState, "cavalryIgnoresZoc"> | null,
+  templates: UnitDto[]
+): RulesContext {
+  return { templates, cavalryIgnoresZoc: Boolean(rules?.cavalryIgnoresZoc) };
+}
+
+// Szybki lookup kafelkow po kluczu "q,r".
+export function buildTileIndex(tiles: HexTileState[]): Map<string, HexTileState> {
+  const map = new Map<string, HexTileState>();
+  tiles.forEach((t) => map.set(coordsKey(t), t));
+  return map;
+}
+
+// Szablon jednostki po id; gdy go brak, zwracamy neutralne statystyki (jednostka bez ataku).
+export function resolveTemplate(templates: UnitDto[], unit: UnitOnBoardState): UnitDto {
+  return (
+    templates.find((t) => t.id === unit.template) ?? {
+      id: unit.template,
+      name: unit.template,
+      maxHp: unit.currentHP,
+      meleeAttack: 0,
+      rangedAttack: 0,
+      attackRange: 1,
+      defense: 0,
+      speed: 1,
+      cost: 0,
+    }
+  );
+}
+
+export function unitTemplate(ctx: RulesContext, unit: UnitOnBoardState): UnitDto {
+  return resolveTemplate(ctx.templates, unit);
+}
+
+// Rodzaj jednostki: jawny z danych albo wywnioskowany z id (np. "light-cavalry", "six-pounder-cannon").
+export function unitCategory(template: UnitDto): UnitCategory {
+  if (template.category) return template.category;
+  if (template.id.includes("cavalry")) return "cavalry";
+  if (template.id.includes("cannon") || template.id.includes("howitzer")) return "artillery";
+  return "infantry";
+}
+
+export function isAlive(unit: UnitOnBoardState): boolean {
+  return unit.currentHP > 0;
+}
+
+export function findUnit(state: GameState, unitId: unknown): UnitOnBoardState | undefined {
+  if (unitId == null) return undefined;
+  const id = String(unitId);
+  return state.units.find((u) => u.unitId === id);
+}
+
+// Zywa jednostka stojaca na danym polu (martwe nie blokuja pol).
+export function unitAt(state: GameState, coords: HexCoords): UnitOnBoardState | undefined {
+  return state.units.find((u) => isAlive(u) && u.q === coords.q && u.r === coords.r);
+}
+
+// Niemutujaca aktualizacja pojedynczej jednostki.
+export function updateUnit(
+  state: GameState,
+  unitId: string,
+  patch: Partial<UnitOnBoardState>
+): GameState {
+  return {
+    ...state,
+    units: state.units.map((u) => (u.unitId === unitId ? { ...u, ...patch } : u)),
+  };
+}
+
+// Id gracza wykonujacego akcje (jawne w dto lub aktualnie aktywny).
+export function actingPlayerId(state: GameState, playerId?: number): number {
+  return playerId ?? state.currentPlayerId;
+}
+
+export function isDeployment(state: GameState): boolean {
+  return state.status === "not_started";
+}
+
+export function reject(code: RuleRejectionCode, message: string): RuleResult {
+  return { ok: false, rejection: { code, message } };
+}
+
+// Odczyt liczby z luznego payloadu akcji (akceptuje tez stringi liczbowe).
+export function readNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+// Wspolna walidacja jednostki wykonujacej akcje w bitwie: istnieje, zyje, nalezy do gracza
+// i jest jego tura. Zwraca jednostke albo odrzucenie.
+export function checkActingUnit(
+  state: GameState,
+  unitId: unknown,
+  playerId: number
+): { unit: UnitOnBoardState } | { rejected: RuleResult } {
+  const unit = findUnit(state, unitId);
+  if (!unit) {
+    return { rejected: reject("UNKNOWN_UNIT", "Unknown unit.") };
+  }
+  if (unit.ownerPlayerId !== playerId) {
+    return { rejected: reject("NOT_OWNER", "This unit belongs to another player.") };
+  }
+  if (!isAlive(unit)) {
+    return { rejected: reject("UNIT_DESTROYED", "This unit was destroyed.") };
+  }
+  if (!isDeployment(state) && state.currentPlayerId !== playerId) {
+    return { rejected: reject("NOT_YOUR_TURN", "It is not your turn.") };
+  }
+  return { unit };
+}
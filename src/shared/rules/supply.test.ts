@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  AMMO_RESUPPLY,
+  OUT_OF_SUPPLY_MORALE,
+  applyAction,
+  friendlyCities,
+  isInSupply,
+  unitAmmo,
+} from "./index";
+import { PLAYER_A, PLAYER_B, makeState, makeTemplate, makeTiles, makeUnit } from "./fixtures";
+
+const ctx = {
+  templates: [
+    makeTemplate({ id: "line-infantry", rangedAttack: 3, attackRange: 2, maxAmmo: 4 }),
+    makeTemplate({ id: "wagon", baggageTrain: true }),
+  ],
+};
+
+describe("ammunition and supply", () => {
+  const shooter = makeUnit({ unitId: "1", q: 1, r: 1 });
+  const enemy = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 3, r: 1, currentHP: 20 });
+  const fire = { type: "ATTACK" as const, playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "2" } };
+
+  it("spends ammunition on ranged fire and refuses to shoot when empty", () => {
+    const result = applyAction(makeState({ units: [shooter, enemy] }), fire, ctx);
+    if (!result.ok) throw new Error(result.rejection.message);
+    expect(unitAmmo(ctx, result.state.units[0])).toBe(3);
+
+    const empty = applyAction(makeState({ units: [{ ...shooter, ammo: 0 }, enemy] }), fire, ctx);
+    expect(empty.ok ? null : empty.rejection.code).toBe("OUT_OF_AMMO");
+  });
+
+  it("treats cities on the player's half or held by them as friendly", () => {
+    const tiles = makeTiles(8, 4, { "1,1": { terrain: "city" }, "6,1": { terrain: "city" } });
+    expect(friendlyCities(makeState({ tiles }), PLAYER_A)).toEqual([{ q: 1, r: 1 }]);
+    const held = makeState({ tiles, units: [makeUnit({ unitId: "3", q: 6, r: 1 })] });
+    expect(friendlyCities(held, PLAYER_A)).toHaveLength(2);
+    expect(friendlyCities(held, PLAYER_B)).toEqual([]);
+  });
+
+  it("resupplies units near a baggage train and demoralises those cut off", () => {
+    const tiles = makeTiles(12, 4);
+    const wagon = makeUnit({ unitId: "4", template: "wagon", q: 8, r: 1 });
+    const near = { ...shooter, q: 10, r: 1, ammo: 1 };
+    const far = makeUnit({ unitId: "5", q: 1, r: 2, ammo: 1 });
+    const state = makeState({ tiles, units: [near, far, wagon] });
+    expect(isInSupply(state, near, ctx)).toBe(true);
+    expect(isInSupply(state, far, ctx)).toBe(false);
+
+    const result = applyAction(state, { type: "END_TURN", playerId: PLAYER_A }, ctx);
+    if (!result.ok) throw new Error(result.rejection.message);
+    const [nextNear, nextFar] = result.state.units;
+    expect(nextNear.ammo).toBe(1 + AMMO_RESUPPLY);
+    expect(nextFar).toMatchObject({ ammo: 1, morale: 100 - OUT_OF_SUPPLY_MORALE });
+    expect(result.events.map((ev) => ev.type)).toContain("UNIT_OUT_OF_SUPPLY");
+  });
+});
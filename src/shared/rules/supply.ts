@@ -0,0 +1,95 @@
+// Zaopatrzenie: amunicja jednostek strzelajacych, zasieg zaopatrzenia wokol wlasnych miast
+// i taborow oraz kary dla oddzialow odcietych od zaopatrzenia.
+import type { HexCoords } from "../board";
+import type { GameState, UnitOnBoardState } from "../game";
+import { hexDistance } from "../hex";
+import { applyMoraleLoss, homeEdgeQ } from "./morale";
+import { coordsKey, isAlive, isDeployment, unitAt, unitTemplate, updateUnit } from "./state";
+import type { RuleEvent, RulesContext } from "./types";
+
+// Zapas amunicji jednostek strzelajacych, gdy szablon nie podaje maxAmmo.
+export const DEFAULT_MAX_AMMO = 6;
+// Zasieg zaopatrzenia (w heksach) od miasta lub taboru.
+export const SUPPLY_RADIUS = 3;
+// Amunicja odzyskiwana na koniec tury w zasiegu zaopatrzenia.
+export const AMMO_RESUPPLY = 2;
+// Utrata morale na koniec tury poza zasiegiem zaopatrzenia.
+export const OUT_OF_SUPPLY_MORALE = 5;
+
+// Maksymalny zapas amunicji; jednostki bez ataku dystansowego nie maja amunicji.
+export function unitMaxAmmo(ctx: RulesContext, unit: UnitOnBoardState): number {
+  const template = unitTemplate(ctx, unit);
+  return template.maxAmmo ?? (template.rangedAttack > 0 ? DEFAULT_MAX_AMMO : 0);
+}
+
+// Amunicja jednostki; brak wartosci = pelny zapas.
+export function unitAmmo(ctx: RulesContext, unit: UnitOnBoardState): number {
+  return unit.ammo ?? unitMaxAmmo(ctx, unit);
+}
+
+// Miasta gracza: zajete przez jego jednostke albo lezace po jego stronie planszy
+// i niezajete przez wroga.
+export function friendlyCities(state: GameState, playerId: number): HexCoords[] {
+  const qs = state.tiles.map((t) => t.q);
+  const ownEdge = homeEdgeQ(state, playerId);
+  const farEdge = ownEdge === Math.min(...qs) ? Math.max(...qs) : Math.min(...qs);
+  return state.tiles
+    .filter((tile) => {
+      if (tile.terrain !== "city") return false;
+      const occupant = unitAt(state, tile);
+      if (occupant) return occupant.ownerPlayerId === playerId;
+      return Math.abs(tile.q - ownEdge) <= Math.abs(tile.q - farEdge);
+    })
+    .map((tile) => ({ q: tile.q, r: tile.r }));
+}
+
+// Zrodla zaopatrzenia gracza: wlasne miasta i zywe jednostki taborowe.
+export function supplySources(state: GameState, playerId: number, ctx: RulesContext): HexCoords[] {
+  const trains = state.units.filter(
+    (u) => u.ownerPlayerId === playerId && isAlive(u) && unitTemplate(ctx, u).baggageTrain
+  );
+  return [...friendlyCities(state, playerId), ...trains.map((u) => ({ q: u.q, r: u.r }))];
+}
+
+// Pola ("q,r") w zasiegu zaopatrzenia gracza.
+export function suppliedTiles(state: GameState, playerId: number, ctx: RulesContext): Set<string> {
+  const sources = supplySources(state, playerId, ctx);
+  return new Set(
+    state.tiles
+      .filter((tile) => sources.some((source) => hexDistance(source, tile) <= SUPPLY_RADIUS))
+      .map((tile) => coordsKey(tile))
+  );
+}
+
+export function isInSupply(state: GameState, unit: UnitOnBoardState, ctx: RulesContext): boolean {
+  return suppliedTiles(state, unit.ownerPlayerId, ctx).has(coordsKey(unit));
+}
+
+// Rozliczenie zaopatrzenia na koniec tury gracza: jednostki w zasiegu uzupelniaja amunicje,
+// odciete traca morale (moga sie rozbic i uciec).
+export function applySupply(
+  state: GameState,
+  playerId: number,
+  ctx: RulesContext
+): { state: GameState; events: RuleEvent[] } {
+  if (isDeployment(state)) return { state, events: [] };
+  const supplied = suppliedTiles(state, playerId, ctx);
+  let next = state;
+  const events: RuleEvent[] = [];
+  state.units
+    .filter((u) => u.ownerPlayerId === playerId && isAlive(u))
+    .forEach((unit) => {
+      if (supplied.has(coordsKey(unit))) {
+        const ammo = unitAmmo(ctx, unit);
+        const refilled = Math.min(unitMaxAmmo(ctx, unit), ammo + AMMO_RESUPPLY);
+        if (refilled === ammo) return;
+        next = updateUnit(next, unit.unitId, { ammo: refilled });
+        events.push({ type: "UNIT_RESUPPLIED", unitId: unit.unitId, ammo: refilled });
+        return;
+      }
+      const loss = applyMoraleLoss(next, unit.unitId, OUT_OF_SUPPLY_MORALE, ctx);
+      next = loss.state;
+      events.push({ type: "UNIT_OUT_OF_SUPPLY", unitId: unit.unitId }, ...loss.events);
+    });
+  return { state: next, events };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { effectiveAttackRange, previewAttack, targetableUnits } from "./index";
+import { PLAYER_B, ctx, makeState, makeTiles, makeUnit } from "./fixtures";
+
+describe("terrain combat modifiers", () => {
+  const cavalry = makeUnit({ unitId: "1", template: "light-cavalry", q: 1, r: 1 });
+  const enemy = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 1 });
+
+  it("gives defenders in cities bonus defense", () => {
+    const state = makeState({ tiles: makeTiles(6, 6, { "2,1": { terrain: "city" } }) });
+    expect(previewAttack(state, cavalry, enemy, ctx)).toMatchObject({
+      baseDamage: 5,
+      terrainDefense: 3,
+      defense: 3,
+      damage: 4,
+    });
+  });
+
+  it("penalises attackers standing in fords and swamps", () => {
+    const state = makeState({ tiles: makeTiles(6, 6, { "1,1": { terrain: "ford" } }) });
+    expect(previewAttack(state, cavalry, enemy, ctx)).toMatchObject({ attackMultiplier: 0.75, damage: 4 });
+  });
+
+  it("extends artillery range on hills only", () => {
+    const cannon = makeUnit({ unitId: "3", template: "six-pounder-cannon", q: 0, r: 0 });
+    const far = makeUnit({ unitId: "4", ownerPlayerId: PLAYER_B, q: 5, r: 0 });
+    const hills = makeTiles(6, 6, { "0,0": { terrain: "hill" }, "1,1": { terrain: "hill" } });
+    const state = makeState({ tiles: hills, units: [cannon, far] });
+
+    expect(effectiveAttackRange(state, cannon, ctx)).toBe(5);
+    expect(effectiveAttackRange(state, cavalry, ctx)).toBe(1);
+    expect(targetableUnits(state, cannon, ctx).map((u) => u.unitId)).toEqual(["4"]);
+  });
+});
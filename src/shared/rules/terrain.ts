@@ -0,0 +1,51 @@
+// Wplyw terenu na walke: obrona broniacego sie, sila ataku i zasieg artylerii.
+import type { HexCoords, TerrainType } from "../board";
+import type { GameState, HexTileState, UnitOnBoardState } from "../game";
+import { buildTileIndex, coordsKey, unitCategory, unitTemplate } from "./state";
+import type { RulesContext } from "./types";
+
+export type TerrainCombatModifier = {
+  // Dodatkowa obrona jednostki stojacej na tym polu (odejmowana od obrazen).
+  defense: number;
+  // Mnoznik ataku jednostki atakujacej z tego pola.
+  attackMultiplier: number;
+  // Dodatkowy zasieg artylerii strzelajacej z tego pola.
+  artilleryRange: number;
+};
+
+const NEUTRAL: TerrainCombatModifier = { defense: 0, attackMultiplier: 1, artilleryRange: 0 };
+
+export const TERRAIN_COMBAT_MODIFIERS: Record<TerrainType, TerrainCombatModifier> = {
+  plain: NEUTRAL,
+  road: NEUTRAL,
+  bridge: NEUTRAL,
+  water: NEUTRAL,
+  forest: { defense: 2, attackMultiplier: 1, artilleryRange: 0 },
+  hill: { defense: 1, attackMultiplier: 1, artilleryRange: 1 },
+  city: { defense: 3, attackMultiplier: 1, artilleryRange: 0 },
+  swamp: { defense: -1, attackMultiplier: 0.75, artilleryRange: 0 },
+  ford: { defense: -1, attackMultiplier: 0.75, artilleryRange: 0 },
+};
+
+export function terrainModifier(terrain?: TerrainType): TerrainCombatModifier {
+  return (terrain && TERRAIN_COMBAT_MODIFIERS[terrain]) ?? NEUTRAL;
+}
+
+export function terrainAt(
+  state: GameState,
+  coords: HexCoords,
+  tiles: Map<string, HexTileState> = buildTileIndex(state.tiles)
+): TerrainType | undefined {
+  return tiles.get(coordsKey(coords))?.terrain;
+}
+
+// Zasieg ataku z uwzglednieniem terenu (artyleria na wzgorzu strzela dalej).
+export function effectiveAttackRange(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext
+): number {
+  const stats = unitTemplate(ctx, unit);
+  if (unitCategory(stats) !== "artillery") return stats.attackRange;
+  return stats.attackRange + terrainModifier(terrainAt(state, unit)).artilleryRange;
+}
@@ -0,0 +1,100 @@
+// Przebieg tur: akcja END_TURN i ksiegowanie flag ruchu/ataku.
+import type { GameState } from "../game";
+import { carryScenario } from "../scenario";
+import { carryObjectives } from "./objectives";
+import { actingPlayerId, reject } from "./state";
+import { applySupply } from "./supply";
+import type { RuleResult, RulesContext } from "./types";
+import { carryVictory } from "./victory";
+
+// Gracz nastepny po aktualnym (kolejnosc jak w state.players).
+export function nextPlayerId(state: GameState): number {
+  const idx = state.players.findIndex((p) => p.playerId === state.currentPlayerId);
+  const next = state.players[(idx + 1) % state.players.length];
+  return next?.playerId ?? state.currentPlayerId;
+}
+
+// Czyszczenie flag tury wszystkich jednostek.
+export function clearTurnFlags(state: GameState): GameState {
+  return {
+    ...state,
+    units: state.units.map((u) => ({ ...u, hasMoved: false, hasActed: false })),
+  };
+}
+
+// Akcja END_TURN: rozliczenie zaopatrzenia konczacego gracza i przekazanie tury;
+// runda rosnie, gdy kolejka wraca do pierwszego gracza.
+export function endTurn(
+  state: GameState,
+  playerId: number | undefined,
+  ctx: RulesContext
+): RuleResult {
+  if (actingPlayerId(state, playerId) !== state.currentPlayerId) {
+    return reject("NOT_YOUR_TURN", "It is not your turn.");
+  }
+  const supply = applySupply(state, state.currentPlayerId, ctx);
+  const nextId = nextPlayerId(state);
+  const turnNumber =
+    nextId === state.players[0]?.playerId ? state.turnNumber + 1 : state.turnNumber;
+  const next = { ...clearTurnFlags(supply.state), currentPlayerId: nextId, turnNumber };
+  return {
+    ok: true,
+    state: next,
+    events: [...supply.events, { type: "TURN_ENDED", nextPlayerId: nextId, turnNumber }],
+  };
+}
+
+// Stan jednostek znany tylko silnikowi zasad (front, morale, rozbicie, szyk, gotowosc
+// dzial, amunicja, spieszenie), ktorego backend nie zapisal, bierzemy z poprzedniego stanu.
+export function carryUnitState(next: GameState, previous: GameState): GameState {
+  const byId = new Map(previous.units.map((u) => [u.unitId, u]));
+  return {
+    ...next,
+    units: next.units.map((u) => {
+      const local = byId.get(u.unitId);
+      if (!local) return u;
+      return {
+        ...u,
+        facing: u.facing ?? local.facing,
+        morale: u.morale ?? local.morale,
+        routed: u.routed ?? local.routed,
+        formation: u.formation ?? local.formation,
+        unlimbered: u.unlimbered ?? local.unlimbered,
+        ammo: u.ammo ?? local.ammo,
+        dismounted: u.dismounted ?? local.dismounted,
+        routResisted: u.routResisted ?? local.routResisted,
+      };
+    }),
+  };
+}
+
+// Backend nie musi znac flag tury, frontu, morale, celow, warunkow zwyciestwa, mapy scenariusza ani
+// stanu generatora losowego, wiec przenosimy je z lokalnie przewidzianego stanu. Flagi tylko
+// w obrebie tej samej tury tego samego gracza.
+export function carryLocalState(next: GameState, predicted: GameState): GameState {
+  const rngState = next.rngState ?? predicted.rngState;
+  const withUnits = carryUnitState(rngState == null ? next : { ...next, rngState }, predicted);
+  const withRng = carryScenario(
+    carryVictory(carryObjectives(withUnits, predicted), predicted),
+    predicted
+  );
+  if (
+    next.turnNumber !== predicted.turnNumber ||
+    next.currentPlayerId !== predicted.currentPlayerId
+  ) {
+    return withRng;
+  }
+  const byId = new Map(predicted.units.map((u) => [u.unitId, u]));
+  return {
+    ...withRng,
+    units: withRng.units.map((u) => {
+      const local = byId.get(u.unitId);
+      if (!local) return u;
+      return {
+        ...u,
+        hasMoved: Boolean(u.hasMoved || local.hasMoved),
+        hasActed: Boolean(u.hasActed || local.hasActed),
+      };
+    }),
+  };
+}
@@ -0,0 +1,89 @@
+// Typy wspolne dla silnika zasad (wejscie, odrzucenia, zdarzenia, wynik gry).
+import type { HexCoords } from "../board";
+import type { Formation, GameState, VictoryOutcome } from "../game";
+import type { Player } from "../player";
+import type { UnitAbility, UnitDto } from "../unit";
+import type { CombatResult, SplashHit } from "./combat";
+
+// Dane statyczne, ktorych nie ma w GameState, a ktorych potrzebuja reguly (statystyki jednostek).
+export interface RulesContext {
+  templates: UnitDto[];
+  // Kawaleria nie zatrzymuje sie w strefach kontroli wroga (opcjonalna regula z GameState).
+  cavalryIgnoresZoc?: boolean;
+}
+
+// Powody odrzucenia akcji przez silnik zasad.
+export type RuleRejectionCode =
+  | "INVALID_PAYLOAD"
+  | "GAME_FINISHED"
+  | "WRONG_PHASE"
+  | "NOT_YOUR_TURN"
+  | "UNKNOWN_UNIT"
+  | "NOT_OWNER"
+  | "UNIT_DESTROYED"
+  | "ALREADY_MOVED"
+  | "ALREADY_ACTED"
+  | "TILE_BLOCKED"
+  | "UNREACHABLE"
+  | "INVALID_TARGET"
+  | "OUT_OF_RANGE"
+  | "NO_LINE_OF_SIGHT"
+  | "NO_DAMAGE"
+  | "UNIT_ROUTED"
+  | "NOT_ROUTED"
+  | "ENGAGED"
+  | "NO_FORMATIONS"
+  | "NO_LIMBER"
+  | "LIMBERED"
+  | "UNLIMBERED"
+  | "OUT_OF_AMMO"
+  | "NO_ABILITY"
+  | "NOT_DEPLOYED";
+
+// Odrzucenie akcji: kod do obslugi w kodzie + komunikat do pokazania graczowi.
+export interface RuleRejection {
+  code: RuleRejectionCode;
+  message: string;
+}
+
+// Zdarzenia powstale przy wykonaniu akcji (np. do markerow obrazen w UI).
+export type RuleEvent =
+  | { type: "UNIT_MOVED"; unitId: string; path: HexCoords[]; cost: number; facing: number }
+  | {
+      type: "COMBAT_RESOLVED";
+      attackerId: string;
+      targetId: string;
+      result: CombatResult;
+      // Kontratak broniacego sie (tylko po ataku wrecz).
+      retaliation: CombatResult | null;
+      // Trafienia jednostek obok celu (odlamki kul armatnich).
+      splash: SplashHit[];
+    }
+  | {
+      type: "UNIT_DAMAGED";
+      unitId: string;
+      sourceUnitId: string;
+      coords: HexCoords;
+      amount: number;
+    }
+  | { type: "UNIT_DESTROYED"; unitId: string }
+  | { type: "UNIT_ROUTED"; unitId: string }
+  | { type: "ROUT_RESISTED"; unitId: string }
+  | { type: "UNIT_FLED"; unitId: string; path: HexCoords[] }
+  | { type: "UNIT_RALLIED"; unitId: string; morale: number }
+  | { type: "FORMATION_CHANGED"; unitId: string; formation: Formation }
+  | { type: "UNIT_LIMBERED"; unitId: string; unlimbered: boolean }
+  | { type: "ABILITY_USED"; unitId: string; ability: UnitAbility }
+  | { type: "OBJECTIVE_CAPTURED"; coords: HexCoords; playerId: Player["id"] }
+  | { type: "UNIT_RESUPPLIED"; unitId: string; ammo: number }
+  | { type: "UNIT_OUT_OF_SUPPLY"; unitId: string }
+  | { type: "TURN_ENDED"; nextPlayerId: Player["id"]; turnNumber: number }
+  | { type: "GAME_FINISHED"; outcome: VictoryOutcome };
+
+// Wynik wykonania akcji: nowy stan albo typowane odrzucenie.
+export type RuleResult =
+  | { ok: true; state: GameState; events: RuleEvent[] }
+  | { ok: false; rejection: RuleRejection };
+
+// Typy warunkow zwyciestwa sa czescia kontraktu GameState; eksport tutaj dla zgodnosci.
+export type { VictoryMode, VictoryOutcome, VictorySettings } from "../game";
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyAction,
+  carryVictory,
+  checkVictory,
+  evaluateVictory,
+  normalizeVictorySettings,
+  scoreByDamage,
+} from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeUnit } from "./fixtures";
+
+describe("victory", () => {
+  const hurtEnemy = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, currentHP: 4 });
+
+  it("scores by damage dealt and detects draws", () => {
+    const state = makeState({ units: [makeUnit({ unitId: "1", currentHP: 8 }), hurtEnemy] });
+    expect(scoreByDamage(state, ctx, "Manual finish")).toEqual({
+      winner: PLAYER_A,
+      reason: "Manual finish",
+      points: { [PLAYER_A]: 6, [PLAYER_B]: 2 },
+    });
+
+    const even = makeState({ units: [makeUnit({ unitId: "1", currentHP: 4 }), hurtEnemy] });
+    expect(scoreByDamage(even, ctx, "Manual finish").winner).toBe("draw");
+  });
+
+  it("ends elimination games when one side has no survivors", () => {
+    const state = makeState({ units: [makeUnit({ unitId: "1", currentHP: 0 }), hurtEnemy] });
+    expect(evaluateVictory(state, { mode: "elimination", turnLimit: 6 }, ctx)).toMatchObject({
+      winner: PLAYER_B,
+      reason: "All enemies defeated",
+    });
+  });
+
+  it("resolves by points once the turn limit is exceeded", () => {
+    const units = [makeUnit({ unitId: "1" }), hurtEnemy];
+    expect(evaluateVictory(makeState({ units, turnNumber: 6 }), { mode: "turns", turnLimit: 6 }, ctx)).toBeNull();
+    expect(evaluateVictory(makeState({ units, turnNumber: 7 }), { mode: "turns", turnLimit: 6 }, ctx)).toMatchObject({
+      winner: PLAYER_A,
+      reason: "Turn limit reached",
+    });
+  });
+});
+
+describe("victory settings in the game state", () => {
+  const attacker = makeUnit({ unitId: "1", q: 1, r: 1 });
+  const lastEnemy = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 2, r: 1, currentHP: 1 });
+
+  it("finishes the game from the rules engine when the chosen condition is met", () => {
+    const state = makeState({ units: [attacker, lastEnemy], victory: { mode: "elimination", turnLimit: 6 } });
+    const result = applyAction(
+      state,
+      { type: "ATTACK", playerId: PLAYER_A, payload: { unitId: "1", targetUnitId: "2" } },
+      ctx
+    );
+    if (!result.ok) throw new Error(result.rejection.message);
+    expect(result.state).toMatchObject({ status: "finished", outcome: { winner: PLAYER_A } });
+    expect(result.events.at(-1)).toMatchObject({ type: "GAME_FINISHED" });
+
+    const next = applyAction(result.state, { type: "END_TURN", playerId: PLAYER_A }, ctx);
+    expect(next.ok).toBe(false);
+  });
+
+  it("leaves games without settings and deployments running", () => {
+    const limit = makeState({ units: [attacker], turnNumber: 7 });
+    expect(checkVictory(limit, ctx).state.status).toBe("in_progress");
+    const deploying = { ...limit, status: "not_started" as const, victory: { mode: "turns" as const, turnLimit: 6 } };
+    expect(checkVictory(deploying, ctx).events).toEqual([]);
+  });
+
+  it("keeps settings and the outcome the backend did not store", () => {
+    const finished = checkVictory(
+      makeState({ units: [attacker], victory: { mode: "elimination", turnLimit: 6 } }),
+      ctx
+    ).state;
+    const fromBackend = makeState({ units: [attacker] });
+    expect(carryVictory(fromBackend, finished)).toMatchObject({
+      status: "finished",
+      victory: { mode: "elimination" },
+      outcome: { winner: PLAYER_A },
+    });
+  });
+
+  it("normalizes settings from untrusted input", () => {
+    expect(normalizeVictorySettings({ mode: "turns", turnLimit: "4" })).toEqual({ mode: "turns", turnLimit: 4 });
+    expect(normalizeVictorySettings({ mode: "bogus", turnLimit: 0 })).toEqual({ mode: "points", turnLimit: 6 });
+    expect(normalizeVictorySettings(null)).toEqual({ mode: "points", turnLimit: 6 });
+  });
+});
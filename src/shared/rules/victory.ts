@@ -0,0 +1,155 @@
+// Warunki zwyciestwa: punkty za obrazenia, eliminacja, limit tur i utrzymanie celow.
+// Ustawienia sa zapisane w GameState, a gre konczy silnik zasad (status "finished" + outcome).
+import type { GameState, VictoryMode, VictoryOutcome, VictorySettings } from "../game";
+import { controlledObjectiveValue, objectiveScores } from "./objectives";
+import { isAlive, isDeployment, unitTemplate } from "./state";
+import type { RuleEvent, RulesContext } from "./types";
+
+export const VICTORY_MODES: VictoryMode[] = ["points", "elimination", "turns", "objectives"];
+export const VICTORY_MODE_LABELS: Record<VictoryMode, string> = {
+  points: "Points (manual finish)",
+  elimination: "Last unit standing",
+  turns: "Turn limit",
+  objectives: "Hold objectives",
+};
+export const DEFAULT_VICTORY_SETTINGS: VictorySettings = { mode: "points", turnLimit: 6 };
+
+// Ustawienia z dowolnego zrodla (formularz, sessionStorage, backend) z bezpiecznymi domyslnymi.
+export function normalizeVictorySettings(raw: unknown): VictorySettings {
+  const value = (raw ?? {}) as Partial<Record<keyof VictorySettings, unknown>>;
+  const mode = VICTORY_MODES.find((m) => m === value.mode) ?? DEFAULT_VICTORY_SETTINGS.mode;
+  const limit = Number(value.turnLimit);
+  const turnLimit =
+    Number.isFinite(limit) && limit >= 1 ? Math.floor(limit) : DEFAULT_VICTORY_SETTINGS.turnLimit;
+  return { mode, turnLimit };
+}
+
+// Warunki zwyciestwa gry; brak w stanie = domyslne.
+export function victorySettings(state: GameState): VictorySettings {
+  return state.victory ?? DEFAULT_VICTORY_SETTINGS;
+}
+
+// Czy tryb ma limit rund.
+export function hasTurnLimit(settings: VictorySettings): boolean {
+  return settings.mode === "turns" || settings.mode === "objectives";
+}
+
+// Czy wynik pokazuje punkty stron (eliminacja rozstrzyga sie bez nich).
+export function outcomeHasPoints(state: GameState): boolean {
+  return victorySettings(state).mode !== "elimination";
+}
+
+// Punkty kazdego gracza = suma obrazen zadanych jednostkom przeciwnikow.
+export function damageScores(state: GameState, ctx: RulesContext): Record<number, number> {
+  const scores: Record<number, number> = {};
+  state.players.forEach((p) => {
+    scores[p.playerId] = state.units
+      .filter((u) => u.ownerPlayerId !== p.playerId)
+      .reduce((sum, u) => sum + Math.max(0, unitTemplate(ctx, u).maxHp - u.currentHP), 0);
+  });
+  return scores;
+}
+
+// Rozstrzygniecie po punktach (remis, gdy najlepszy wynik ma wiecej niz jeden gracz).
+export function scoreByDamage(state: GameState, ctx: RulesContext, reason: string): VictoryOutcome {
+  const points = damageScores(state, ctx);
+  const best = Math.max(...state.players.map((p) => points[p.playerId] ?? 0));
+  const leaders = state.players.filter((p) => (points[p.playerId] ?? 0) === best);
+  return {
+    winner: leaders.length === 1 ? leaders[0].playerId : "draw",
+    reason,
+    points,
+  };
+}
+
+// Rozstrzygniecie po celach: wygrywa gracz kontrolujacy najwiecej wartosci celow,
+// przy remisie decyduja punkty za ture utrzymania.
+export function scoreByObjectives(state: GameState, reason: string): VictoryOutcome {
+  const control = controlledObjectiveValue(state);
+  const points = objectiveScores(state);
+  const rank = (id: number) => [control[id] ?? 0, points[id] ?? 0];
+  const sorted = [...state.players].sort((a, b) => {
+    const [ca, pa] = rank(a.playerId);
+    const [cb, pb] = rank(b.playerId);
+    return cb - ca || pb - pa;
+  });
+  const [first, second] = sorted;
+  const tied =
+    !!second &&
+    rank(first.playerId).every((value, i) => value === rank(second.playerId)[i]);
+  return { winner: !first || tied ? "draw" : first.playerId, reason, points };
+}
+
+// Automatyczne warunki konca gry; null, gdy bitwa trwa dalej.
+export function evaluateVictory(
+  state: GameState,
+  settings: VictorySettings,
+  ctx: RulesContext
+): VictoryOutcome | null {
+  const survivors = state.players.filter((p) =>
+    state.units.some((u) => u.ownerPlayerId === p.playerId && isAlive(u))
+  );
+  const defeated = state.players.filter((p) => !survivors.includes(p));
+
+  if (settings.mode === "elimination") {
+    if (!survivors.length) {
+      return { winner: "draw", reason: "Both armies were destroyed", points: damageScores(state, ctx) };
+    }
+    if (survivors.length === 1) {
+      return {
+        winner: survivors[0].playerId,
+        reason: "All enemies defeated",
+        points: damageScores(state, ctx),
+      };
+    }
+    return null;
+  }
+
+  if (defeated.length) {
+    const reason = !survivors.length
+      ? "Both armies were destroyed"
+      : `No units of ${defeated.map((p) => p.name).join(", ")} remain`;
+    return scoreByDamage(state, ctx, reason);
+  }
+
+  if (!hasTurnLimit(settings) || state.turnNumber <= settings.turnLimit) return null;
+  if (settings.mode === "turns") {
+    return scoreByDamage(state, ctx, "Turn limit reached");
+  }
+  return scoreByObjectives(state, "Objectives held at the turn limit");
+}
+
+// Zamkniecie gry z danym rozstrzygnieciem.
+export function concludeGame(state: GameState, outcome: VictoryOutcome): GameState {
+  return { ...state, status: "finished", outcome };
+}
+
+// Sprawdzenie warunkow zwyciestwa z ustawien gry; konczy trwajaca bitwe, gdy sa spelnione.
+// Stan bez zapisanych ustawien (np. starsza gra) nie konczy sie sam.
+export function checkVictory(
+  state: GameState,
+  ctx: RulesContext
+): { state: GameState; events: RuleEvent[] } {
+  if (!state.victory || state.status === "finished" || isDeployment(state)) {
+    return { state, events: [] };
+  }
+  const outcome = evaluateVictory(state, state.victory, ctx);
+  if (!outcome) return { state, events: [] };
+  return { state: concludeGame(state, outcome), events: [{ type: "GAME_FINISHED", outcome }] };
+}
+
+// Backend moze nie zapisywac ustawien (warunki zwyciestwa, mgla wojny, reguly) ani wyniku gry,
+// wiec bierzemy je z poprzedniego stanu.
+export function carryVictory(next: GameState, previous: GameState): GameState {
+  const victory = next.victory ?? previous.victory;
+  const fogOfWar = next.fogOfWar ?? previous.fogOfWar;
+  const cavalryIgnoresZoc = next.cavalryIgnoresZoc ?? previous.cavalryIgnoresZoc;
+  const withSettings = {
+    ...next,
+    ...(victory ? { victory } : {}),
+    ...(fogOfWar != null ? { fogOfWar } : {}),
+    ...(cavalryIgnoresZoc != null ? { cavalryIgnoresZoc } : {}),
+  };
+  if (next.outcome || !previous.outcome) return withSettings;
+  return concludeGame(withSettings, previous.outcome);
+}
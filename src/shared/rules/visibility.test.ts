@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  SIGHT_RANGE,
+  filterStateForPlayer,
+  isUnitVisible,
+  rememberEnemies,
+  stateForViewer,
+  unitSightRange,
+  visibleTiles,
+} from "./index";
+import { PLAYER_A, PLAYER_B, ctx, makeState, makeTiles, makeUnit } from "./fixtures";
+
+describe("fog of war", () => {
+  const scout = makeUnit({ unitId: "1", q: 0, r: 2 });
+  const near = makeUnit({ unitId: "2", ownerPlayerId: PLAYER_B, q: 3, r: 2 });
+  const far = makeUnit({ unitId: "3", ownerPlayerId: PLAYER_B, q: 9, r: 2 });
+
+  it("sees up to the sight range and further from hills", () => {
+    const state = makeState({ tiles: makeTiles(10, 5), units: [scout, near, far] });
+    expect(unitSightRange(state, scout, ctx)).toBe(SIGHT_RANGE.infantry);
+    expect(visibleTiles(state, PLAYER_A, ctx).has("4,2")).toBe(true);
+    expect(visibleTiles(state, PLAYER_A, ctx).has("5,2")).toBe(false);
+
+    const hill = makeState({ tiles: makeTiles(10, 5, { "0,2": { terrain: "hill" } }), units: [scout] });
+    expect(visibleTiles(hill, PLAYER_A, ctx).has("5,2")).toBe(true);
+  });
+
+  it("hides units in forests unless an observer is adjacent", () => {
+    const tiles = makeTiles(10, 5, { "3,2": { terrain: "forest" } });
+    expect(isUnitVisible(makeState({ tiles, units: [scout, near] }), near, PLAYER_A, ctx)).toBe(false);
+    const adjacent = { ...scout, q: 2 };
+    expect(isUnitVisible(makeState({ tiles, units: [adjacent, near] }), near, PLAYER_A, ctx)).toBe(true);
+  });
+
+  it("filters hidden enemies from the state and remembers where they were seen", () => {
+    const state = makeState({ tiles: makeTiles(10, 5), units: [scout, near, far] });
+    expect(filterStateForPlayer(state, PLAYER_A, ctx).units.map((u) => u.unitId)).toEqual(["1", "2"]);
+
+    const seen = rememberEnemies({}, state, PLAYER_A, ctx);
+    expect(Object.keys(seen)).toEqual(["2"]);
+    const moved = makeState({
+      tiles: makeTiles(10, 5),
+      turnNumber: 2,
+      units: [scout, { ...near, q: 8 }, far],
+    });
+    expect(rememberEnemies(seen, moved, PLAYER_A, ctx)["2"]).toMatchObject({ q: 3, r: 2, turnNumber: 1 });
+  });
+
+  it("serves filtered states only in battles created with fog of war", () => {
+    const state = makeState({ tiles: makeTiles(10, 5), units: [scout, near, far] });
+    expect(stateForViewer(state, PLAYER_A, ctx).units).toHaveLength(3);
+    const foggy = { ...state, fogOfWar: true };
+    expect(stateForViewer(foggy, PLAYER_A, ctx).units.map((u) => u.unitId)).toEqual(["1", "2"]);
+    expect(stateForViewer({ ...foggy, status: "not_started" }, PLAYER_A, ctx).units).toHaveLength(3);
+  });
+});
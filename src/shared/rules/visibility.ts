@@ -0,0 +1,131 @@
+// Mgla wojny: zasieg widzenia jednostek, teren ukrywajacy oddzialy (las) i wydluzajacy
+// widok (wzgorza), stan gry przefiltrowany dla gracza oraz pamiec ostatnio widzianych wrogow.
+import type { TerrainType } from "../board";
+import type { GameState, HexTileState, UnitOnBoardState } from "../game";
+import { hexDistance } from "../hex";
+import type { UnitCategory } from "../unit";
+import { ELEVATED_TERRAIN, hasLineOfSight } from "./lineOfSight";
+import { buildTileIndex, coordsKey, isAlive, unitCategory, unitTemplate } from "./state";
+import type { RulesContext } from "./types";
+
+// Zasieg widzenia wg rodzaju jednostki, gdy szablon nie podaje sightRange.
+export const SIGHT_RANGE: Record<UnitCategory, number> = {
+  infantry: 4,
+  cavalry: 5,
+  artillery: 3,
+};
+
+// Dodatkowy zasieg widzenia z pola wzniesionego.
+export const ELEVATED_SIGHT_BONUS = 1;
+
+// Teren ukrywajacy jednostki: widac je tylko z odleglosci CONCEALED_SPOT_RANGE.
+export const CONCEALING_TERRAIN: ReadonlySet<TerrainType> = new Set(["forest"]);
+export const CONCEALED_SPOT_RANGE = 1;
+
+// Ostatnio widziana pozycja wrogiej jednostki (do rysowania "duchow").
+export type LastKnownUnit = {
+  unitId: string;
+  ownerPlayerId: number;
+  template: string;
+  q: number;
+  r: number;
+  turnNumber: number;
+};
+
+export function unitSightRange(
+  state: GameState,
+  unit: UnitOnBoardState,
+  ctx: RulesContext,
+  tiles: Map<string, HexTileState> = buildTileIndex(state.tiles)
+): number {
+  const template = unitTemplate(ctx, unit);
+  const base = template.sightRange ?? SIGHT_RANGE[unitCategory(template)];
+  const tile = tiles.get(coordsKey(unit));
+  return tile && ELEVATED_TERRAIN.has(tile.terrain) ? base + ELEVATED_SIGHT_BONUS : base;
+}
+
+// Pola ("q,r") widziane przez zywe jednostki gracza (zasieg + linia wzroku, jednostki nie zaslaniaja).
+export function visibleTiles(state: GameState, playerId: number, ctx: RulesContext): Set<string> {
+  const tiles = buildTileIndex(state.tiles);
+  const observers = state.units.filter((u) => u.ownerPlayerId === playerId && isAlive(u));
+  const visible = new Set<string>();
+  observers.forEach((observer) => {
+    const range = unitSightRange(state, observer, ctx, tiles);
+    state.tiles.forEach((tile) => {
+      const key = coordsKey(tile);
+      if (visible.has(key) || hexDistance(observer, tile) > range) return;
+      if (hasLineOfSight(state, observer, tile, { blockedByUnits: false }, tiles)) visible.add(key);
+    });
+  });
+  return visible;
+}
+
+// Czy gracz widzi jednostke; wlasne zawsze, wrogie na widocznym polu (w lesie tylko z bliska).
+export function isUnitVisible(
+  state: GameState,
+  unit: UnitOnBoardState,
+  playerId: number,
+  ctx: RulesContext,
+  visible: Set<string> = visibleTiles(state, playerId, ctx)
+): boolean {
+  if (unit.ownerPlayerId === playerId) return true;
+  if (!visible.has(coordsKey(unit))) return false;
+  const tile = state.tiles.find((t) => t.q === unit.q && t.r === unit.r);
+  if (!tile || !CONCEALING_TERRAIN.has(tile.terrain)) return true;
+  return state.units.some(
+    (u) =>
+      u.ownerPlayerId === playerId && isAlive(u) && hexDistance(u, unit) <= CONCEALED_SPOT_RANGE
+  );
+}
+
+// Stan gry dla jednego gracza: bez wrogich jednostek, ktorych nie widzi (zniszczone zostaja,
+// bo ich los jest jawny).
+export function filterStateForPlayer(
+  state: GameState,
+  playerId: number,
+  ctx: RulesContext
+): GameState {
+  const visible = visibleTiles(state, playerId, ctx);
+  return {
+    ...state,
+    units: state.units.filter(
+      (u) => !isAlive(u) || isUnitVisible(state, u, playerId, ctx, visible)
+    ),
+  };
+}
+
+// Stan wysylany graczowi: przy mgle wojny w trakcie bitwy tylko to, co widzi
+// (rozstawienie i wynik gry sa jawne).
+export function stateForViewer(state: GameState, playerId: number, ctx: RulesContext): GameState {
+  if (!state.fogOfWar || state.status !== "in_progress") return state;
+  return filterStateForPlayer(state, playerId, ctx);
+}
+
+// Aktualizuje pamiec wrogow: widoczni dostaja biezaca pozycje, zniszczeni znikaja,
+// niewidoczni zostaja w ostatnio widzianym miejscu.
+export function rememberEnemies(
+  memory: Record<string, LastKnownUnit>,
+  state: GameState,
+  playerId: number,
+  ctx: RulesContext
+): Record<string, LastKnownUnit> {
+  const visible = visibleTiles(state, playerId, ctx);
+  const next = { ...memory };
+  state.units
+    .filter((u) => u.ownerPlayerId !== playerId)
+    .forEach((u) => {
+      if (!isAlive(u)) {
+        delete next[u.unitId];
+      } else if (isUnitVisible(state, u, playerId, ctx, visible)) {
+        next[u.unitId] = {
+          unitId: u.unitId,
+          ownerPlayerId: u.ownerPlayerId,
+          template: u.template,
+          q: u.q,
+          r: u.r,
+          turnNumber: state.turnNumber,
+        };
+      }
+    });
+  return next;
+}
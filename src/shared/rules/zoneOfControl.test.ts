@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { ZOC_EXIT_COST, applyAction, reachableTiles, rulesContextFor } from "./index";
+import { PLAYER_A, PLAYER_B, makeState, makeTemplate, makeUnit } from "./fixtures";
+
+const templates = [
+  makeTemplate({ id: "runner", speed: 8 }),
+  makeTemplate({ id: "marcher", speed: 4 }),
+  makeTemplate({ id: "rider", category: "cavalry", speed: 8 }),
+];
+const ctx = { templates };
+
+describe("zone of control", () => {
+  const enemy = makeUnit({ unitId: "9", ownerPlayerId: PLAYER_B, q: 3, r: 2 });
+  const runner = makeUnit({ unitId: "1", template: "runner", q: 0, r: 2 });
+
+  it("stops movement on tiles next to an enemy", () => {
+    const state = makeState({ units: [runner, enemy] });
+    const open = makeState({ units: [runner] });
+    expect(reachableTiles(open, runner, ctx).costs.get("4,2")).toBe(4);
+    // Przejscie przez strefe jest zabronione, wiec trzeba ja obejsc.
+    expect(reachableTiles(state, runner, ctx).costs.get("3,1")).toBe(3);
+    expect(reachableTiles(state, runner, ctx).costs.get("4,2")).toBe(7);
+  });
+
+  it("charges extra movement points to leave a zone", () => {
+    const engaged = { ...runner, q: 2, r: 2 };
+    const state = makeState({ units: [engaged, enemy] });
+    expect(reachableTiles(state, engaged, ctx).costs.get("1,2")).toBe(1 + ZOC_EXIT_COST);
+  });
+
+  it("lets cavalry ignore zones when the game was created with the option", () => {
+    const rider = { ...runner, template: "rider" };
+    const state = makeState({ units: [rider, enemy] });
+    expect(reachableTiles(state, rider, rulesContextFor(state, templates)).costs.get("4,2")).toBe(7);
+    const relaxed = { ...state, cavalryIgnoresZoc: true };
+    expect(reachableTiles(relaxed, rider, rulesContextFor(relaxed, templates)).costs.get("4,2")).toBe(5);
+  });
+
+  it("rejects MOVE actions that would slip through a zone", () => {
+    const marcher = { ...runner, template: "marcher" };
+    const state = makeState({ units: [marcher, enemy] });
+    const move = (q: number, r: number) =>
+      applyAction(state, { type: "MOVE", playerId: PLAYER_A, payload: { unitId: "1", q, r } }, ctx);
+    expect(move(4, 1)).toMatchObject({ ok: false, rejection: { code: "UNREACHABLE" } });
+    expect(move(2, 2)).toMatchObject({ ok: true });
+  });
+});
@@ -0,0 +1,24 @@
+// Strefy kontroli: pola sasiadujace z wrogiem zatrzymuja ruch, a wyjscie z nich kosztuje.
+import type { GameState, UnitOnBoardState } from "../game";
+import { hexNeighbors } from "../hex";
+import { unitStats } from "./formation";
+import { coordsKey, isAlive, unitCategory } from "./state";
+import type { RulesContext } from "./types";
+
+// Dodatkowe punkty ruchu za opuszczenie pola w strefie kontroli wroga.
+export const ZOC_EXIT_COST = 1;
+
+// Pola w strefie kontroli wrogow wskazanego gracza (sasiedzi zywych wrogich jednostek).
+export function enemyZoneOfControl(state: GameState, playerId: number): Set<string> {
+  const zone = new Set<string>();
+  state.units.forEach((u) => {
+    if (!isAlive(u) || u.ownerPlayerId === playerId) return;
+    hexNeighbors(u).forEach((n) => zone.add(coordsKey(n)));
+  });
+  return zone;
+}
+
+// Czy strefy kontroli dotycza tej jednostki (kawaleria moze byc zwolniona regula).
+export function isBoundByZoc(unit: UnitOnBoardState, ctx: RulesContext): boolean {
+  return !(ctx.cavalryIgnoresZoc && unitCategory(unitStats(ctx, unit)) === "cavalry");
+}
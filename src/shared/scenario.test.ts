@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SCENARIO_SIZE,
+  applyScenario,
+  carryScenario,
+  createScenario,
+  paintTerrain,
+  parseScenario,
+  resizeScenario,
+  serializeScenario,
+  updateScenarioTile,
+} from "./scenario";
+import { makeState } from "./rules/fixtures";
+
+describe("scenario editing", () => {
+  it("paints terrain with its default passability and cost", () => {
+    const scenario = paintTerrain(createScenario("Test", 4, 4), { q: 1, r: 1 }, "water");
+    expect(scenario.tiles.find((t) => t.q === 1 && t.r === 1)).toMatchObject({
+      terrain: "water",
+      passable: false,
+    });
+    expect(paintTerrain(scenario, { q: 2, r: 2 }, "swamp").tiles).toContainEqual(
+      expect.objectContaining({ q: 2, r: 2, movementCost: 3 })
+    );
+  });
+
+  it("keeps painted tiles when resizing and clamps the size", () => {
+    const painted = paintTerrain(createScenario("Test", 6, 6), { q: 1, r: 1 }, "forest");
+    const smaller = resizeScenario(painted, 4, 5);
+    expect(smaller.tiles).toHaveLength(20);
+    expect(smaller.tiles).toContainEqual(expect.objectContaining({ q: 1, r: 1, terrain: "forest" }));
+    expect(resizeScenario(painted, 100, 1)).toMatchObject({ width: MAX_SCENARIO_SIZE, height: 4 });
+  });
+});
+
+describe("scenario files", () => {
+  it("round-trips zones and objectives through JSON", () => {
+    const scenario = updateScenarioTile(
+      updateScenarioTile(createScenario("Ridge", 5, 4), { q: 0, r: 0 }, { deploymentZone: 0 }),
+      { q: 2, r: 2 },
+      { objective: 3 }
+    );
+    expect(parseScenario(serializeScenario(scenario))).toEqual(scenario);
+  });
+
+  it("rejects broken files with a readable message", () => {
+    expect(() => parseScenario("{")).toThrow("not valid JSON");
+    expect(() => parseScenario(JSON.stringify({ tiles: [] }))).toThrow("no tiles");
+    expect(() => parseScenario(JSON.stringify({ tiles: [{ q: 0, r: 0, terrain: "lava" }] }))).toThrow(
+      'unknown terrain "lava"'
+    );
+  });
+
+  it("replaces the backend board and keeps it across later states", () => {
+    const scenario = createScenario("Ridge", 4, 4);
+    const started = applyScenario(makeState(), scenario);
+    expect(started).toMatchObject({ scenario: "Ridge", tiles: scenario.tiles });
+    expect(carryScenario(makeState({ turnNumber: 2 }), started)).toMatchObject({
+      turnNumber: 2,
+      tiles: scenario.tiles,
+    });
+  });
+});
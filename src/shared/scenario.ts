@@ -0,0 +1,181 @@
+// Scenariusze: wlasne mapy z edytora (/editor) zapisywane jako JSON i wczytywane przy tworzeniu gry.
+import type { Board, HexCoords, TerrainType } from "./board";
+import type { GameState, HexTileState } from "./game";
+import { hexKey } from "./hex";
+
+export const SCENARIO_VERSION = 1;
+export const MIN_SCENARIO_SIZE = 4;
+export const MAX_SCENARIO_SIZE = 30;
+
+export const TERRAIN_TYPES: TerrainType[] = [
+  "plain",
+  "road",
+  "forest",
+  "hill",
+  "city",
+  "swamp",
+  "ford",
+  "bridge",
+  "water",
+];
+
+// Domyslna przejezdnosc i koszt ruchu nakladane przy malowaniu terenu.
+export const TERRAIN_DEFAULTS: Record<
+  TerrainType,
+  Pick<HexTileState, "passable" | "movementCost">
+> = {
+  plain: { passable: true, movementCost: 1 },
+  road: { passable: true, movementCost: 1 },
+  forest: { passable: true, movementCost: 2 },
+  hill: { passable: true, movementCost: 2 },
+  city: { passable: true, movementCost: 1 },
+  swamp: { passable: true, movementCost: 3 },
+  ford: { passable: true, movementCost: 2 },
+  bridge: { passable: true, movementCost: 1 },
+  water: { passable: false, movementCost: 1 },
+};
+
+// Mapa scenariusza: prostokat width x height pol (q 0..width-1, r 0..height-1).
+// Strefy rozstawienia sa zapisane na polach (deploymentZone = kolejnosc gracza w grze).
+export interface Scenario {
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  tiles: HexTileState[];
+}
+
+function clampSize(value: number): number {
+  return Math.max(MIN_SCENARIO_SIZE, Math.min(MAX_SCENARIO_SIZE, Math.floor(value)));
+}
+
+function plainTile(q: number, r: number): HexTileState {
+  return { q, r, terrain: "plain", ...TERRAIN_DEFAULTS.plain };
+}
+
+// Pusta mapa z samych rownin.
+export function createScenario(name: string, width: number, height: number): Scenario {
+  const empty: Scenario = { version: SCENARIO_VERSION, name, width: 0, height: 0, tiles: [] };
+  return resizeScenario(empty, width, height);
+}
+
+// Zmiana rozmiaru: pola w nowych granicach zostaja, brakujace sa rowninami.
+export function resizeScenario(scenario: Scenario, width: number, height: number): Scenario {
+  const w = clampSize(width);
+  const h = clampSize(height);
+  const byKey = new Map(scenario.tiles.map((t) => [hexKey(t), t]));
+  const tiles: HexTileState[] = [];
+  for (let r = 0; r < h; r++) {
+    for (let q = 0; q < w; q++) {
+      tiles.push(byKey.get(hexKey({ q, r })) ?? plainTile(q, r));
+    }
+  }
+  return { ...scenario, width: w, height: h, tiles };
+}
+
+// Zmiana pojedynczego pola (teren, przejezdnosc, koszt ruchu, strefa, cel).
+export function updateScenarioTile(
+  scenario: Scenario,
+  coords: HexCoords,
+  patch: Partial<Omit<HexTileState, "q" | "r">>
+): Scenario {
+  return {
+    ...scenario,
+    tiles: scenario.tiles.map((t) => (t.q === coords.q && t.r === coords.r ? { ...t, ...patch } : t)),
+  };
+}
+
+// Malowanie terenu razem z jego domyslna przejezdnoscia i kosztem ruchu.
+export function paintTerrain(scenario: Scenario, coords: HexCoords, terrain: TerrainType): Scenario {
+  return updateScenarioTile(scenario, coords, { terrain, ...TERRAIN_DEFAULTS[terrain] });
+}
+
+function isTerrain(value: unknown): value is TerrainType {
+  return TERRAIN_TYPES.includes(value as TerrainType);
+}
+
+function parseTile(raw: unknown, index: number): HexTileState {
+  const t = (raw ?? {}) as Record<string, unknown>;
+  const valid = [t.q, t.r].every((c) => Number.isInteger(c) && (c as number) >= 0);
+  if (!valid) {
+    throw new Error(`Tile ${index} has invalid coordinates.`);
+  }
+  if (!isTerrain(t.terrain)) {
+    throw new Error(`Tile ${index} has unknown terrain "${String(t.terrain)}".`);
+  }
+  const tile: HexTileState = {
+    q: t.q as number,
+    r: t.r as number,
+    terrain: t.terrain,
+    passable: typeof t.passable === "boolean" ? t.passable : TERRAIN_DEFAULTS[t.terrain].passable,
+    movementCost:
+      typeof t.movementCost === "number" && t.movementCost >= 1
+        ? t.movementCost
+        : TERRAIN_DEFAULTS[t.terrain].movementCost,
+  };
+  if (typeof t.objective === "number" && t.objective >= 0) tile.objective = t.objective;
+  if (Number.isInteger(t.deploymentZone) && (t.deploymentZone as number) >= 0) {
+    tile.deploymentZone = t.deploymentZone as number;
+  }
+  return tile;
+}
+
+// Odczyt scenariusza z JSON-a (plik z edytora); rzuca Error z opisem przy blednych danych.
+export function parseScenario(json: string): Scenario {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Scenario file is not valid JSON.");
+  }
+  const data = (raw ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(data.tiles) || !data.tiles.length) {
+    throw new Error("Scenario has no tiles.");
+  }
+  const tiles = data.tiles.map(parseTile);
+  const width = Math.max(...tiles.map((t) => t.q)) + 1;
+  const height = Math.max(...tiles.map((t) => t.r)) + 1;
+  return resizeScenario(
+    {
+      version: SCENARIO_VERSION,
+      name: typeof data.name === "string" && data.name.trim() ? data.name.trim() : "Custom scenario",
+      width,
+      height,
+      tiles,
+    },
+    width,
+    height
+  );
+}
+
+// Scenariusz z gotowej planszy (np. z generatora map); strefy rozstawienia domyslne.
+export function scenarioFromBoard(name: string, board: Board): Scenario {
+  const tiles = board.tiles.map(({ coords, terrain, passable, movementCost }) => ({
+    ...coords,
+    terrain,
+    passable,
+    movementCost,
+  }));
+  return {
+    version: SCENARIO_VERSION,
+    name,
+    width: Math.max(...tiles.map((t) => t.q)) + 1,
+    height: Math.max(...tiles.map((t) => t.r)) + 1,
+    tiles,
+  };
+}
+
+export function serializeScenario(scenario: Scenario): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+// Plansza gry ze scenariusza (jednostki i gracze bez zmian).
+export function applyScenario(state: GameState, scenario: Scenario): GameState {
+  return { ...state, tiles: scenario.tiles, scenario: scenario.name };
+}
+
+// Backend moze zwracac wlasna plansze; mapa scenariusza zostaje z poprzedniego stanu tej gry.
+export function carryScenario(next: GameState, previous: GameState): GameState {
+  if (!previous.scenario || next.scenario) return next;
+  return { ...next, tiles: previous.tiles, scenario: previous.scenario };
+}
@@ -0,0 +1,75 @@
+// Utrzymywanie polaczenia: ponowne proby z rosnacym odstepem i odczyt stanow gry z wiadomosci.
+import type { GameState } from "../game";
+import type { GameUpdateHandlers, OpenChannel, ReconnectOptions, Unsubscribe } from "./types";
+
+export const DEFAULT_RECONNECT: ReconnectOptions = { initialDelayMs: 500, maxDelayMs: 15000 };
+
+// Odstep przed proba numer `attempt` (od 1).
+export function reconnectDelay(attempt: number, options: ReconnectOptions): number {
+  return Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** Math.max(0, attempt - 1));
+}
+
+// Wiadomosc serwera to pelny GameState w JSON-ie; inne dane odrzucamy z bledem.
+export function parseGameUpdate(data: string): GameState {
+  const raw = JSON.parse(data) as Partial<GameState> | null;
+  if (!raw || typeof raw.gameId !== "string" || typeof raw.turnNumber !== "number") {
+    throw new Error("Game update is not a game state.");
+  }
+  return raw as GameState;
+}
+
+function asError(e: unknown, fallback: string): Error {
+  return e instanceof Error ? e : new Error(fallback);
+}
+
+export function keepConnected(
+  open: OpenChannel,
+  handlers: GameUpdateHandlers,
+  options: ReconnectOptions = DEFAULT_RECONNECT
+): Unsubscribe {
+  let stopped = false;
+  let attempt = 0;
+  let close: (() => void) | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = () => {
+    if (!attempt) handlers.onStatus?.("connecting");
+    close = open({
+      onOpen: () => {
+        if (stopped) return;
+        attempt = 0;
+        handlers.onStatus?.("open");
+      },
+      onMessage: (data) => {
+        if (stopped) return;
+        try {
+          handlers.onState(parseGameUpdate(data));
+        } catch (e: unknown) {
+          handlers.onError?.(asError(e, "Invalid game update."));
+        }
+      },
+      onClose: (error) => {
+        if (stopped) return;
+        close = null;
+        if (error) handlers.onError?.(error);
+        attempt += 1;
+        if (options.maxAttempts != null && attempt > options.maxAttempts) {
+          stopped = true;
+          handlers.onStatus?.("closed");
+          return;
+        }
+        handlers.onStatus?.("reconnecting");
+        timer = setTimeout(connect, reconnectDelay(attempt, options));
+      },
+    });
+  };
+
+  connect();
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    close?.();
+    handlers.onStatus?.("closed");
+  };
+}
@@ -0,0 +1,18 @@
+// Transport aktualizacji gry wypychanych przez serwer - publiczne API modulu.
+export { DEFAULT_RECONNECT, keepConnected, parseGameUpdate, reconnectDelay } from "./connection";
+export { createSseTransport, parseSseEvents } from "./sse";
+export type { SseEvent, SseTransportOptions } from "./sse";
+export { isStaleState, subscribeToGame } from "./subscribe";
+export type { GameSubscriptionOptions } from "./subscribe";
+export type {
+  ChannelCallbacks,
+  GameTransport,
+  GameUpdateHandlers,
+  OpenChannel,
+  ReconnectOptions,
+  TransportKind,
+  TransportStatus,
+  Unsubscribe,
+} from "./types";
+export { createWebSocketTransport } from "./websocket";
+export type { WebSocketLike, WebSocketTransportOptions } from "./websocket";
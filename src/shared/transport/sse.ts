@@ -0,0 +1,83 @@
+// Transport SSE (text/event-stream) czytany przez fetch, wiec dziala z naglowkiem autoryzacji
+// (authFetch), czego nie umie EventSource. Dane zdarzenia to pelny GameState.
+import { DEFAULT_RECONNECT, keepConnected } from "./connection";
+import type { GameTransport, ReconnectOptions } from "./types";
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Zdarzenia zakonczone pusta linia; `rest` to niedokonczony fragment strumienia.
+export function parseSseEvents(buffer: string): { events: SseEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events = blocks.flatMap((block) => {
+    let event = "message";
+    const data: string[] = [];
+    block.split("\n").forEach((line) => {
+      if (!line || line.startsWith(":")) return;
+      const colon = line.indexOf(":");
+      const field = colon < 0 ? line : line.slice(0, colon);
+      const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    });
+    return data.length ? [{ event, data: data.join("\n") }] : [];
+  });
+  return { events, rest };
+}
+
+// Zdarzenia z nowym stanem gry (domyslne "message" albo nazwane "state").
+const STATE_EVENTS = new Set(["message", "state"]);
+
+export interface SseTransportOptions {
+  fetch(input: string, init?: RequestInit): Promise<Response>;
+  path(gameId: string): string;
+  reconnect?: ReconnectOptions;
+}
+
+export function createSseTransport(options: SseTransportOptions): GameTransport {
+  return {
+    kind: "sse",
+    subscribe: (gameId, handlers) =>
+      keepConnected(
+        (channel) => {
+          const abort = new AbortController();
+          const read = async () => {
+            const res = await options.fetch(options.path(gameId), {
+              headers: { Accept: "text/event-stream" },
+              cache: "no-store",
+              signal: abort.signal,
+            });
+            if (!res.ok || !res.body) {
+              throw new Error(`Failed to subscribe to game updates. Status: ${res.status}`);
+            }
+            channel.onOpen();
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
+            for (;;) {
+              const { done, value } = await reader.read();
+              if (done) break;
+              const parsed = parseSseEvents(buffer + decoder.decode(value, { stream: true }));
+              buffer = parsed.rest;
+              parsed.events
+                .filter((e) => STATE_EVENTS.has(e.event))
+                .forEach((e) => channel.onMessage(e.data));
+            }
+          };
+          read().then(
+            () => channel.onClose(),
+            (e: unknown) => {
+              if (abort.signal.aborted) return;
+              channel.onClose(e instanceof Error ? e : new Error("Game update stream failed."));
+            }
+          );
+          return () => abort.abort();
+        },
+        handlers,
+        options.reconnect ?? DEFAULT_RECONNECT
+      ),
+  };
+}
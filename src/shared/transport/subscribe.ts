@@ -0,0 +1,58 @@
+// Subskrypcja aktualizacji gry: odrzuca stany starsze niz lokalny (po turnNumber),
+// po ponownym polaczeniu pobiera aktualny stan, zeby nadrobic przegapione zmiany,
+// i przekazuje dalej tylko widok gracza (mgla wojny).
+import type { GameState } from "../game";
+import type { GameTransport, TransportStatus, Unsubscribe } from "./types";
+
+// Stan z serwera jest nieaktualny, gdy dotyczy tej samej gry i wczesniejszej rundy
+// (albo gra jest juz lokalnie zakonczona, a on nie).
+export function isStaleState(incoming: GameState, current: GameState | null): boolean {
+  if (!current || incoming.gameId !== current.gameId) return false;
+  if (incoming.turnNumber !== current.turnNumber) return incoming.turnNumber < current.turnNumber;
+  return current.status === "finished" && incoming.status !== "finished";
+}
+
+export interface GameSubscriptionOptions {
+  onState(state: GameState): void;
+  // Aktualny stan klienta (porownanie przy wykrywaniu nieaktualnych wiadomosci).
+  current(): GameState | null;
+  // Pobranie pelnego stanu po ponownym polaczeniu (np. GET /game/{id}/state).
+  resync?(): Promise<GameState>;
+  onStatus?(status: TransportStatus): void;
+  onError?(error: Error): void;
+  // Stan widziany przez gracza (np. mgla wojny), zanim trafi do klienta; brak = stan bez zmian.
+  view?(state: GameState): GameState;
+}
+
+export function subscribeToGame(
+  transport: GameTransport,
+  gameId: string,
+  options: GameSubscriptionOptions
+): Unsubscribe {
+  let wasOpen = false;
+  let stopped = false;
+  const accept = (received: GameState) => {
+    const state = options.view ? options.view(received) : received;
+    if (stopped || state.gameId !== gameId || isStaleState(state, options.current())) return;
+    options.onState(state);
+  };
+
+  const unsubscribe = transport.subscribe(gameId, {
+    onState: accept,
+    onError: options.onError,
+    onStatus: (status) => {
+      options.onStatus?.(status);
+      if (status !== "open") return;
+      if (wasOpen && options.resync) {
+        options.resync().then(accept, (e: unknown) =>
+          options.onError?.(e instanceof Error ? e : new Error("Failed to resync game state."))
+        );
+      }
+      wasOpen = true;
+    },
+  });
+  return () => {
+    stopped = true;
+    unsubscribe();
+  };
+}
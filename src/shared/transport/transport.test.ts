@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startMockGameServer } from "../../../test/transport/mockServer";
+import type { MockGameServer } from "../../../test/transport/mockServer";
+import type { GameState } from "../game";
+import { makeState } from "../rules/fixtures";
+import {
+  createSseTransport,
+  createWebSocketTransport,
+  isStaleState,
+  parseSseEvents,
+  reconnectDelay,
+  subscribeToGame,
+} from "./index";
+import type { GameTransport, TransportStatus } from "./index";
+
+const FAST_RECONNECT = { initialDelayMs: 5, maxDelayMs: 20 };
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error("Timed out waiting for condition.");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("transport helpers", () => {
+  it("parses complete SSE events and keeps the unfinished rest", () => {
+    const { events, rest } = parseSseEvents(": hi\n\nevent: state\ndata: {\"a\":1}\n\ndata: par");
+    expect(events).toEqual([{ event: "state", data: "{\"a\":1}" }]);
+    expect(rest).toBe("data: par");
+  });
+
+  it("detects stale states by turn number within the same game", () => {
+    const current = makeState({ turnNumber: 3 });
+    expect(isStaleState(makeState({ turnNumber: 2 }), current)).toBe(true);
+    expect(isStaleState(makeState({ turnNumber: 3 }), current)).toBe(false);
+    expect(isStaleState(makeState({ turnNumber: 1, gameId: "other" }), current)).toBe(false);
+    expect(isStaleState(current, { ...current, status: "finished" })).toBe(true);
+  });
+
+  it("passes only the player's view of pushed states on", () => {
+    const received: GameState[] = [];
+    const transport: GameTransport = {
+      kind: "sse",
+      subscribe: (_gameId, handlers) => {
+        handlers.onState(makeState({ turnNumber: 2 }));
+        return () => undefined;
+      },
+    };
+    subscribeToGame(transport, "test", {
+      current: () => null,
+      onState: (state) => received.push(state),
+      view: (state) => ({ ...state, units: [] }),
+    });
+    expect(received.map((state) => state.units)).toEqual([[]]);
+  });
+
+  it("backs off exponentially up to the limit", () => {
+    const options = { initialDelayMs: 100, maxDelayMs: 500 };
+    expect([1, 2, 3, 4].map((n) => reconnectDelay(n, options))).toEqual([100, 200, 400, 500]);
+  });
+});
+
+describe.each<[string, (server: MockGameServer) => GameTransport]>([
+  [
+    "sse",
+    (server) =>
+      createSseTransport({ fetch: server.fetch, path: (id) => `/game/${id}/events`, reconnect: FAST_RECONNECT }),
+  ],
+  [
+    "websocket",
+    (server) =>
+      createWebSocketTransport({
+        url: (id) => `${server.baseUrl.replace(/^http/, "ws")}/game/${id}/ws`,
+        createSocket: server.createSocket,
+        reconnect: FAST_RECONNECT,
+      }),
+  ],
+])("%s transport against the mock server", (_kind, createTransport) => {
+  let server: MockGameServer;
+  beforeEach(async () => {
+    server = await startMockGameServer();
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("delivers pushed states, drops stale ones and resyncs after a reconnect", async () => {
+    let current: GameState | null = makeState({ turnNumber: 1 });
+    const received: number[] = [];
+    const statuses: TransportStatus[] = [];
+    const unsubscribe = subscribeToGame(createTransport(server), "test", {
+      current: () => current,
+      onState: (state) => {
+        current = state;
+        received.push(state.turnNumber);
+      },
+      onStatus: (status) => statuses.push(status),
+      resync: async () => (await server.fetch("/game/test/state")).json(),
+    });
+
+    await waitFor(() => statuses.includes("open"));
+    server.publish(makeState({ turnNumber: 2 }));
+    await waitFor(() => received.length === 1);
+    server.publish(makeState({ turnNumber: 1 }));
+    server.publish(makeState({ gameId: "other", turnNumber: 5 }));
+
+    // Zmiana przegapiona podczas zerwanego polaczenia wraca przez resync.
+    server.dropConnections();
+    server.setState(makeState({ turnNumber: 3 }));
+    await waitFor(() => received.length === 2);
+    expect(received).toEqual([2, 3]);
+    expect(statuses).toContain("reconnecting");
+
+    unsubscribe();
+    expect(statuses.at(-1)).toBe("closed");
+    await waitFor(() => server.connectionCount() === 0);
+  });
+});
@@ -0,0 +1,37 @@
+// Typy transportu aktualizacji gry wypychanych przez serwer (WebSocket / SSE).
+import type { GameState } from "../game";
+
+export type TransportKind = "websocket" | "sse";
+
+// "reconnecting" = polaczenie zerwane, czekamy na kolejna probe; "closed" = koniec subskrypcji.
+export type TransportStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface GameUpdateHandlers {
+  onState(state: GameState): void;
+  onStatus?(status: TransportStatus): void;
+  onError?(error: Error): void;
+}
+
+export type Unsubscribe = () => void;
+
+export interface GameTransport {
+  readonly kind: TransportKind;
+  subscribe(gameId: string, handlers: GameUpdateHandlers): Unsubscribe;
+}
+
+// Odstepy kolejnych prob polaczenia rosna wykladniczo od initialDelayMs do maxDelayMs.
+export interface ReconnectOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  // Brak = probujemy bez konca.
+  maxAttempts?: number;
+}
+
+// Pojedynczy kanal (jedno polaczenie) i jego zdarzenia; zwraca funkcje zamykajaca kanal.
+export interface ChannelCallbacks {
+  onOpen(): void;
+  onMessage(data: string): void;
+  onClose(error?: Error): void;
+}
+
+export type OpenChannel = (callbacks: ChannelCallbacks) => () => void;
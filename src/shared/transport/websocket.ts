@@ -0,0 +1,50 @@
+// Transport WebSocket: serwer wysyla pelny GameState po kazdej zmianie gry.
+import { DEFAULT_RECONNECT, keepConnected } from "./connection";
+import type { GameTransport, ReconnectOptions } from "./types";
+
+// Czesc API WebSocket, z ktorej korzystamy; przegladarkowy WebSocket spelnia ja wprost,
+// a w testach zastepuje go atrapa.
+export interface WebSocketLike {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export interface WebSocketTransportOptions {
+  url(gameId: string): string;
+  createSocket?(url: string): WebSocketLike;
+  reconnect?: ReconnectOptions;
+}
+
+export function createWebSocketTransport(options: WebSocketTransportOptions): GameTransport {
+  const createSocket = options.createSocket ?? ((url: string): WebSocketLike => new WebSocket(url));
+  return {
+    kind: "websocket",
+    subscribe: (gameId, handlers) =>
+      keepConnected(
+        (channel) => {
+          let socket: WebSocketLike;
+          try {
+            socket = createSocket(options.url(gameId));
+          } catch (e: unknown) {
+            channel.onClose(e instanceof Error ? e : new Error("Failed to open WebSocket."));
+            return () => {};
+          }
+          socket.onopen = () => channel.onOpen();
+          socket.onmessage = (event) => channel.onMessage(String(event.data));
+          // Po bledzie przegladarka i tak zamyka polaczenie (onclose), wiec tam wznawiamy.
+          socket.onerror = null;
+          socket.onclose = () => channel.onClose();
+          return () => {
+            socket.onclose = null;
+            socket.onmessage = null;
+            socket.close();
+          };
+        },
+        handlers,
+        options.reconnect ?? DEFAULT_RECONNECT
+      ),
+  };
+}
@@ -1,3 +1,9 @@
+// Rodzaj broni jednostki (gdy brak w danych, wyliczany z id szablonu).
+export type UnitCategory = "infantry" | "cavalry" | "artillery";
+
+// Zdolnosci specjalne jednostek (obslugiwane przez rejestr w silniku zasad).
+export type UnitAbility = "skirmish" | "charge" | "dismount" | "elite";
+
 export interface UnitDto {
     name: string;
     id: string;
@@ -12,4 +18,22 @@ export interface UnitDto {
     uniqueId?: number;
     position?: { q: number; r: number } | null;
     playerId?: string;
+    category?: UnitCategory;
+    // Artyleria: przed strzalem trzeba odprzodkowac dziala, a przed ruchem je zaprzodkowac.
+    limberRequired?: boolean;
+    // Ogien posredni (haubice) - strzal nie wymaga linii wzroku.
+    indirectFire?: boolean;
+    // Minimalny dystans strzalu (blizej jednostka nie strzela).
+    minAttackRange?: number;
+    // Szansa (0-1) trafienia kazdej wrogiej jednostki obok celu i czesc obrazen, jaka jej zadaje.
+    splashChance?: number;
+    splashDamage?: number;
+    // Zapas amunicji (brak = domyslny dla jednostek strzelajacych).
+    maxAmmo?: number;
+    // Tabor: zrodlo zaopatrzenia dla wlasnych jednostek w poblizu.
+    baggageTrain?: boolean;
+    // Zdolnosci specjalne (brak = domyslne dla rodzaju jednostki).
+    abilities?: UnitAbility[];
+    // Zasieg widzenia w heksach (brak = domyslny dla rodzaju jednostki).
+    sightRange?: number;
 }
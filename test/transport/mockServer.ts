@@ -0,0 +1,104 @@
+// Lokalny serwer-atrapa aktualizacji gry do testow transportu (tylko testy, poza kodem aplikacji):
+// prawdziwy serwer HTTP dla SSE (/game/{id}/events, /game/{id}/state) i gniazda WebSocket w pamieci.
+import { createServer } from "node:http";
+import type { ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { GameState } from "../../src/shared/game";
+import type { WebSocketLike } from "../../src/shared/transport";
+
+export interface MockGameServer {
+  baseUrl: string;
+  fetch(input: string, init?: RequestInit): Promise<Response>;
+  createSocket(url: string): WebSocketLike;
+  // Zapamietuje stan (GET /game/{id}/state) i wysyla go wszystkim subskrybentom tej gry.
+  publish(state: GameState): void;
+  // Zmiana stanu bez powiadomienia (np. ruch, ktory klient przegapil bez polaczenia).
+  setState(state: GameState): void;
+  // Zerwanie wszystkich polaczen, jak przy restarcie serwera.
+  dropConnections(): void;
+  connectionCount(): number;
+  close(): Promise<void>;
+}
+
+// Zerwane polaczenie (Node nie ma globalnego CloseEvent).
+class DroppedConnectionEvent extends Event implements CloseEvent {
+  readonly code = 1006;
+  readonly reason = "Connection dropped";
+  readonly wasClean = false;
+
+  constructor() {
+    super("close");
+  }
+}
+
+function gameIdFrom(url: string, suffix: string): string | null {
+  const match = new RegExp(`/game/([^/?]+)/${suffix}`).exec(url);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+export async function startMockGameServer(): Promise<MockGameServer> {
+  const states = new Map<string, GameState>();
+  const streams = new Set<{ gameId: string; res: ServerResponse }>();
+  const sockets = new Set<{ gameId: string; socket: WebSocketLike }>();
+
+  const server = createServer((req, res) => {
+    const url = req.url ?? "";
+    const eventsId = gameIdFrom(url, "events");
+    if (eventsId) {
+      res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+      res.write(": connected\n\n");
+      const entry = { gameId: eventsId, res };
+      streams.add(entry);
+      req.on("close", () => streams.delete(entry));
+      return;
+    }
+    const state = states.get(gameIdFrom(url, "state") ?? "");
+    res.writeHead(state ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(state ?? { message: "Not found" }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    fetch: (input, init) => fetch(`${baseUrl}${input}`, init),
+    createSocket: (url) => {
+      const socket: WebSocketLike = {
+        onopen: null,
+        onmessage: null,
+        onclose: null,
+        onerror: null,
+        close: () => {
+          sockets.delete(entry);
+        },
+      };
+      const entry = { gameId: gameIdFrom(url, "ws") ?? "", socket };
+      sockets.add(entry);
+      setTimeout(() => entry.socket.onopen?.(new Event("open")), 0);
+      return entry.socket;
+    },
+    publish: (state) => {
+      states.set(state.gameId, state);
+      const data = JSON.stringify(state);
+      streams.forEach((s) => s.gameId === state.gameId && s.res.write(`event: state\ndata: ${data}\n\n`));
+      sockets.forEach((s) => s.gameId === state.gameId && s.socket.onmessage?.(new MessageEvent("message", { data })));
+    },
+    setState: (state) => {
+      states.set(state.gameId, state);
+    },
+    dropConnections: () => {
+      streams.forEach((s) => s.res.destroy());
+      streams.clear();
+      const dropped = [...sockets];
+      sockets.clear();
+      dropped.forEach((s) => s.socket.onclose?.(new DroppedConnectionEvent()));
+    },
+    connectionCount: () => streams.size + sockets.size,
+    close: () =>
+      new Promise<void>((resolve) => {
+        streams.forEach((s) => s.res.destroy());
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}